@@ -3,6 +3,10 @@
  *
  * Uses esbuild for fast bundling to a single file,
  * then tsc for declaration files (IDE support).
+ *
+ * The browser tool's analyzer (../src/analyzer.ts) is bundled first as an
+ * IIFE string and inlined as __ANALYZER_BUNDLE__, so the heuristic analyzer
+ * mode can inject it into Playwright pages.
  */
 
 import { build } from "esbuild";
@@ -12,7 +16,21 @@ import { fileURLToPath } from "url";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
-// 1. Bundle with esbuild (fast)
+// 1. Bundle the browser analyzer for in-page injection
+console.log("Bundling analyzer...");
+const analyzerBundle = await build({
+	entryPoints: [resolve(__dirname, "../src/analyzer.ts")],
+	bundle: true,
+	platform: "browser",
+	format: "iife",
+	globalName: "WireframeAnalyzer",
+	minify: true,
+	write: false,
+});
+const analyzerCode = analyzerBundle.outputFiles[0].text;
+console.log(`✓ Bundled analyzer (${analyzerCode.length} bytes)`);
+
+// 2. Bundle with esbuild (fast)
 console.log("Building with esbuild...");
 await build({
 	entryPoints: [resolve(__dirname, "src/index.ts")],
@@ -29,6 +47,9 @@ await build({
 		// MCP SDK (keep as external for cleaner output)
 		"@modelcontextprotocol/sdk",
 	],
+	define: {
+		__ANALYZER_BUNDLE__: JSON.stringify(analyzerCode),
+	},
 	banner: {
 		js: `// Built: ${new Date().toISOString()}`,
 	},
@@ -36,7 +57,7 @@ await build({
 
 console.log("✓ Built mcp-server/dist/index.js");
 
-// 2. Generate declaration files with tsc (for IDE support)
+// 3. Generate declaration files with tsc (for IDE support)
 console.log("Generating declaration files...");
 try {
 	execFileSync("npx", ["tsc", "--emitDeclarationOnly"], {
@@ -1,18 +1,25 @@
 /**
  * Model Generator
  *
- * Spawns Claude CLI to generate WireframeModel from DomData.
- * Uses existing Max subscription - no API key needed.
+ * Asks an LLM provider to generate a WireframeModel from DomData, or to
+ * relabel a heuristic model (hybrid analyzer mode).
+ * Defaults to the Claude CLI provider (see ./providers).
  */
 
-import { spawn } from "child_process";
-import { writeFile, unlink } from "fs/promises";
-import { tmpdir } from "os";
-import { join } from "path";
-import type { WireframeModel } from "@wireframe-mapper/shared";
+import {
+	formatSchemaIssues,
+	isSemanticType,
+	validateWireframeModel,
+	type ModelDefaults,
+	type SchemaIssue,
+	type ValidationResult,
+	type WireframeModel,
+	type WireframeNode,
+} from "@wireframe-mapper/shared";
 import type { DomData } from "../types/dom-data.js";
-import { buildPrompt } from "./prompt-builder.js";
-import { log, logError, logDebug } from "../utils/logger.js";
+import { buildPrompt, buildRelabelPrompt, buildRepairPrompt } from "./prompt-builder.js";
+import { createProvider, type ModelProvider } from "./providers/index.js";
+import { log, logDebug, logError } from "../utils/logger.js";
 
 /**
  * Extract JSON from Claude's response.
@@ -34,176 +41,176 @@ function extractJson(response: string): string {
 	throw new Error("No JSON found in response");
 }
 
+/** Attempts before giving up on a model that fails validation */
+const MAX_GENERATION_ATTEMPTS = 3;
+
 /**
- * Validate and parse the WireframeModel from JSON.
+ * Parse and validate a response. JSON problems are reported as issues so
+ * they can be fed back to the model like schema errors.
  */
-function parseWireframeModel(json: string): WireframeModel {
+function parseWireframeModel(response: string, defaults: ModelDefaults): ValidationResult {
 	try {
-		const parsed = JSON.parse(json);
-
-		// Basic validation
-		if (!parsed.nodes || !Array.isArray(parsed.nodes)) {
-			throw new Error("Invalid WireframeModel: missing nodes array");
-		}
-
-		if (!parsed.viewport || typeof parsed.viewport.width !== "number") {
-			throw new Error("Invalid WireframeModel: missing viewport");
-		}
-
-		return parsed as WireframeModel;
+		return validateWireframeModel(JSON.parse(extractJson(response)), defaults);
 	} catch (error) {
-		if (error instanceof SyntaxError) {
-			throw new Error(`Invalid JSON: ${error.message}`);
-		}
-		throw error;
+		const message =
+			error instanceof SyntaxError ? `Invalid JSON: ${error.message}` : (error as Error).message;
+		return { valid: false, model: null, errors: [{ path: "", message }], repairs: [] };
 	}
 }
 
 /**
- * Generate a WireframeModel from DomData using Claude CLI.
+ * Generate a WireframeModel from DomData using an LLM provider.
+ * Responses that fail schema validation are sent back with the errors,
+ * up to MAX_GENERATION_ATTEMPTS times.
  */
 export async function generateModel(
 	domData: DomData,
-	instructions?: string
+	instructions?: string,
+	provider: ModelProvider = createProvider()
 ): Promise<WireframeModel> {
 	log("model-generator", "generateModel called", {
 		url: domData.url,
 		elementCount: domData.elements.length,
 		hasInstructions: !!instructions,
+		provider: provider.name,
+		model: provider.model,
 	});
 
 	// Build the prompt
-	const prompt = buildPrompt(domData, instructions);
-	log("model-generator", `Prompt built: ${prompt.length} chars`);
-	logDebug("model-generator", "Prompt preview", prompt.slice(0, 500));
+	const basePrompt = buildPrompt(domData, instructions);
+	log("model-generator", `Prompt built: ${basePrompt.length} chars`);
+	logDebug("model-generator", "Prompt preview", basePrompt.slice(0, 500));
+
+	// Fill page-level fields the model leaves out
+	const defaults: ModelDefaults = {
+		pageUrl: domData.url,
+		viewport: { width: domData.viewport.width, height: domData.viewport.height },
+		fullPageHeight: domData.fullPageHeight,
+	};
+
+	let prompt = basePrompt;
+	let bestEffort: WireframeModel | null = null;
+	let errors: SchemaIssue[] = [];
+
+	for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+		const result = await provider.complete(prompt);
+		log("model-generator", `Validating response (attempt ${attempt}/${MAX_GENERATION_ATTEMPTS})`, {
+			resultLength: result.length,
+		});
 
-	// Write prompt to temp file to avoid shell escaping issues
-	const tempFile = join(tmpdir(), `wireframe-prompt-${Date.now()}.txt`);
-	await writeFile(tempFile, prompt, "utf-8");
-	log("model-generator", `Temp file written: ${tempFile}`);
+		const validation = parseWireframeModel(result, defaults);
+		if (validation.repairs.length > 0) {
+			logDebug("model-generator", `Auto-repaired ${validation.repairs.length} issues`, formatSchemaIssues(validation.repairs));
+		}
 
-	try {
-		// Spawn Claude CLI with prompt piped via stdin
-		// Use --tools "" to disable tools (faster, less context)
-		// Use --model sonnet for balance of speed and quality
-		const cliArgs = [
-			"--print",
-			"--output-format", "json",
-			"--tools", "",
-			"--model", "sonnet",
-			"--setting-sources", ""  // Critical: disable project context loading
-		];
-		log("model-generator", "Spawning Claude CLI", { args: cliArgs });
-
-		const spawnStartTime = Date.now();
-		const result = await new Promise<string>((resolve, reject) => {
-			const claude = spawn("claude", cliArgs, {
-				stdio: ["pipe", "pipe", "pipe"],
-				env: { ...process.env },
+		if (validation.valid && validation.model) {
+			const model = validation.model;
+			log("model-generator", "Model generation complete", {
+				provider: provider.name,
+				model: provider.model,
+				attempts: attempt,
+				repairs: validation.repairs.length,
+				nodeCount: model.nodes.length,
+				viewport: model.viewport,
+				fullPageHeight: model.fullPageHeight,
 			});
+			return model;
+		}
 
-			log("model-generator", `Claude process spawned, PID: ${claude.pid}`);
-
-			let stdout = "";
-			let stderr = "";
-			let stdoutChunks = 0;
-			let stderrChunks = 0;
+		errors = validation.errors;
+		if (validation.model) bestEffort = validation.model;
+		logError("model-generator", `Response failed validation with ${errors.length} errors`, formatSchemaIssues(errors));
 
-			claude.stdout.on("data", (data: Buffer) => {
-				stdout += data.toString();
-				stdoutChunks++;
-				logDebug("model-generator", `stdout chunk #${stdoutChunks}: ${data.length} bytes`);
-			});
+		prompt = buildRepairPrompt(basePrompt, result, errors);
+	}
 
-			claude.stderr.on("data", (data: Buffer) => {
-				stderr += data.toString();
-				stderrChunks++;
-				logDebug("model-generator", `stderr chunk #${stderrChunks}`, data.toString().slice(0, 200));
-			});
+	if (bestEffort) {
+		// Unfixable parts were dropped or defaulted - still renderable
+		log("model-generator", "Using best-effort model after failed retries", {
+			errors: errors.length,
+			nodeCount: bestEffort.nodes.length,
+		});
+		return bestEffort;
+	}
 
-			claude.on("close", (code) => {
-				const duration = Date.now() - spawnStartTime;
-				log("model-generator", `Claude process closed`, {
-					code,
-					duration,
-					stdoutLength: stdout.length,
-					stderrLength: stderr.length,
-					stdoutChunks,
-					stderrChunks,
-				});
-
-				if (code === 0) {
-					// Parse the JSON wrapper and extract result
-					try {
-						logDebug("model-generator", "Parsing JSON wrapper", stdout.slice(0, 300));
-						const wrapper = JSON.parse(stdout);
-						if (wrapper.is_error) {
-							logError("model-generator", "Claude returned error", wrapper);
-							reject(new Error(`Claude error: ${wrapper.result}`));
-						} else {
-							log("model-generator", "Claude returned success", {
-								resultLength: wrapper.result?.length,
-								duration_ms: wrapper.duration_ms,
-							});
-							resolve(wrapper.result);
-						}
-					} catch (parseError) {
-						// If not JSON, return raw output
-						log("model-generator", "Output not JSON wrapper, using raw", { stdout: stdout.slice(0, 200) });
-						resolve(stdout);
-					}
-				} else {
-					logError("model-generator", `Claude CLI exited with code ${code}`, { stderr, stdout: stdout.slice(0, 500) });
-					reject(
-						new Error(`Claude CLI exited with code ${code}: ${stderr}`)
-					);
-				}
-			});
+	throw new Error(
+		`Model generation failed after ${MAX_GENERATION_ATTEMPTS} attempts:\n${formatSchemaIssues(errors)}`
+	);
+}
 
-			claude.on("error", (error) => {
-				logError("model-generator", "Failed to spawn Claude CLI", error);
-				reject(new Error(`Failed to spawn Claude CLI: ${error.message}`));
-			});
+/**
+ * A label/type suggestion for one node, keyed by node id.
+ */
+interface NodeRelabel {
+	id: string;
+	label?: string;
+	semanticType?: string;
+}
 
-			// Write prompt to stdin and close
-			log("model-generator", `Writing ${prompt.length} bytes to stdin...`);
-			claude.stdin.write(prompt);
-			claude.stdin.end();
-			log("model-generator", "stdin closed, waiting for response...");
-		});
+/**
+ * Parse the relabel response: `{ "nodes": [{ id, label, semanticType }] }`.
+ */
+function parseRelabels(json: string): Map<string, NodeRelabel> {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(json);
+	} catch (error) {
+		throw new Error(`Invalid JSON: ${(error as Error).message}`);
+	}
 
-		// Extract and parse JSON from response
-		log("model-generator", "Extracting JSON from result", { resultLength: result.length });
-		const json = extractJson(result);
-		log("model-generator", "JSON extracted", { jsonLength: json.length });
-
-		const model = parseWireframeModel(json);
-		log("model-generator", "Model parsed", { nodeCount: model.nodes?.length });
-
-		// Ensure required fields
-		if (!model.pageUrl) model.pageUrl = domData.url;
-		if (!model.capturedAt) model.capturedAt = new Date().toISOString();
-		if (!model.viewport) {
-			model.viewport = {
-				width: domData.viewport.width,
-				height: domData.viewport.height,
-			};
-		}
-		if (!model.fullPageHeight) model.fullPageHeight = domData.fullPageHeight;
+	const entries = (parsed as { nodes?: unknown }).nodes;
+	if (!Array.isArray(entries)) {
+		throw new Error("Invalid relabel response: missing nodes array");
+	}
 
-		log("model-generator", "Model generation complete", {
-			nodeCount: model.nodes.length,
-			viewport: model.viewport,
-			fullPageHeight: model.fullPageHeight,
-		});
-		return model;
-	} finally {
-		// Cleanup temp file
-		try {
-			await unlink(tempFile);
-			log("model-generator", "Temp file cleaned up");
-		} catch {
-			// Ignore cleanup errors
-		}
+	const relabels = new Map<string, NodeRelabel>();
+	for (const entry of entries as NodeRelabel[]) {
+		if (entry && typeof entry.id === "string") relabels.set(entry.id, entry);
 	}
+	return relabels;
+}
+
+/**
+ * Relabel and reclassify the nodes of a heuristic model using an LLM provider.
+ * Geometry and structure are kept as-is; only `label` and `semanticType`
+ * change, and only when the suggestion is valid.
+ */
+export async function relabelModel(
+	model: WireframeModel,
+	instructions?: string,
+	provider: ModelProvider = createProvider()
+): Promise<WireframeModel> {
+	log("model-generator", "relabelModel called", {
+		url: model.pageUrl,
+		nodeCount: model.nodes.length,
+		hasInstructions: !!instructions,
+		provider: provider.name,
+		model: provider.model,
+	});
+
+	const prompt = buildRelabelPrompt(model, instructions);
+	log("model-generator", `Relabel prompt built: ${prompt.length} chars`);
+
+	const result = await provider.complete(prompt);
+	const relabels = parseRelabels(extractJson(result));
+	log("model-generator", "Relabels parsed", { count: relabels.size });
+
+	let changed = 0;
+	const applyToNode = (node: WireframeNode): WireframeNode => {
+		const relabel = relabels.get(node.id);
+		const label =
+			typeof relabel?.label === "string" && relabel.label.trim()
+				? relabel.label.trim()
+				: node.label;
+		const semanticType = isSemanticType(relabel?.semanticType)
+			? relabel.semanticType
+			: node.semanticType;
+		if (label !== node.label || semanticType !== node.semanticType) changed++;
+
+		return { ...node, label, semanticType, children: node.children.map(applyToNode) };
+	};
+
+	const relabeled = { ...model, nodes: model.nodes.map(applyToNode) };
+	log("model-generator", "Relabel complete", { changed });
+	return relabeled;
 }
@@ -1,11 +1,30 @@
 /**
  * Prompt Builder
  *
- * Builds prompts for Claude to generate WireframeModel from DomData.
+ * Builds prompts for Claude to generate WireframeModel from DomData,
+ * or to relabel an existing heuristic model (hybrid mode).
  */
 
+import {
+	CONTENT_TYPES,
+	formatSchemaIssues,
+	NODE_POSITIONS,
+	type SchemaIssue,
+	SEMANTIC_TYPES,
+	type WireframeModel,
+	type WireframeNode,
+} from "@wireframe-mapper/shared";
 import type { DomData } from "../types/dom-data.js";
 
+/** Every semanticType as a JSON union, e.g. `"header" | "navigation" | ...` */
+const SEMANTIC_TYPE_UNION = SEMANTIC_TYPES.map((type) => `"${type}"`).join(" | ");
+
+/** Every content hint type as a JSON union */
+const CONTENT_TYPE_UNION = CONTENT_TYPES.map((type) => `"${type}"`).join("|");
+
+/** Every floating node position as a JSON union */
+const NODE_POSITION_UNION = NODE_POSITIONS.map((position) => `"${position}"`).join("|");
+
 /**
  * Build the system prompt for wireframe generation.
  */
@@ -15,6 +34,7 @@ export function buildSystemPrompt(): string {
 You will receive:
 1. Page metadata (URL, title, viewport, full height)
 2. A list of DOM elements with bounding boxes and semantic hints
+3. A list of content elements (videos, maps, form fields, tables, logos, avatars, CSS background images)
 
 Your task:
 1. Identify the major visual sections of the page
@@ -37,8 +57,10 @@ WireframeModel Schema:
       "depth": number (0 for root, increment for children),
       "children": [ /* nested WireframeNode objects */ ],
       "isLandmark": boolean (true for header, nav, main, footer, aside),
-      "semanticType": "header" | "navigation" | "hero" | "content" | "card" | "cta" | "footer",
-      "contentHints": [ /* optional: { "type": "image"|"button"|"text"|"icon", "bbox": {...}, "label": "..." } */ ]
+      "semanticType": ${SEMANTIC_TYPE_UNION},
+      "contentHints": [ /* optional: { "type": ${CONTENT_TYPE_UNION}, "bbox": {...}, "label": "...", "background": true (CSS background images only) } */ ],
+      "selector": "string (optional: copy the selector of the DOM element this node comes from)",
+      "position": ${NODE_POSITION_UNION} (optional: floating elements only)
     }
   ],
   "viewport": { "width": number, "height": number },
@@ -53,11 +75,19 @@ semanticType Guidelines:
 - "hero": Large hero sections, banners with CTAs
 - "content": Generic content sections, text blocks
 - "card": Cards, grid items, feature boxes, list items
-- "cta": Call-to-action buttons, signup forms
+- "cta": Call-to-action buttons, newsletter signups
 - "footer": Page footer, bottom sections
+- "sidebar": Asides and side columns next to the main content
+- "form": Multi-field forms (contact, login, checkout)
+- "testimonial": Testimonials, reviews, quotes
+- "pricing": Pricing tables and plan comparisons
+- "gallery": Image galleries, carousels, media grids, video embeds
+- "search": Search bars and search panels
+- "modal": Dialogs, popups, overlays
 
 Label Guidelines:
 - Labels should describe PURPOSE: "Hero + Dual CTA", "Services Grid (4)", "Testimonials Carousel"
+- Elements with a "rule" line matched a user-defined rule: use that label (and semanticType, if given) for the node built from them
 - Include counts when relevant: "Value Props (3)", "Footer (4-col)"
 - Be concise but descriptive
 
@@ -66,29 +96,34 @@ Structure Guidelines:
 - Only create children when they're visually distinct within the parent
 - Flatten hierarchy where nesting isn't meaningful
 - Grid items should be children with semanticType "card"
-- CTAs within heroes should be children with semanticType "cta"`;
+- CTAs within heroes should be children with semanticType "cta"
+- Elements with an "embedded frame" line are cross-origin iframes: make them leaf nodes labeled "Embedded frame (<host>)"
+- Put each content element in the contentHints of the smallest node containing it, keeping its type, bbox, label and background flag
+- Elements with a "position" line float over the page (fixed or sticky bars, overlays): copy the position onto the node built from them and keep their bbox
+- A "background" image covering a whole section (typically a hero) belongs to that section's contentHints`;
 }
 
 /**
  * Build the user prompt with DOM data.
  */
-export function buildUserPrompt(
-	domData: DomData,
-	instructions?: string
-): string {
+export function buildUserPrompt(domData: DomData, instructions?: string): string {
 	// Format elements for the prompt
 	const elementsSummary = domData.elements
 		.slice(0, 150) // Limit to avoid context bloat
 		.map((el, i) => {
 			let line = `[${i}] <${el.tagName}> at (${Math.round(el.bbox.x)},${Math.round(el.bbox.y)}) ${Math.round(el.bbox.width)}x${Math.round(el.bbox.height)}`;
+			line += `\n  selector: ${el.selector}`;
 
 			if (el.landmark) line += `\n  landmark: ${el.landmark}`;
 			if (el.role) line += `\n  role: ${el.role}`;
 			if (el.headingLevel) line += `\n  heading: h${el.headingLevel}`;
 			if (el.headingText) line += `\n  headingText: "${el.headingText}"`;
-			if (el.display && el.display !== "block")
-				line += `\n  display: ${el.display}`;
+			if (el.display && el.display !== "block") line += `\n  display: ${el.display}`;
 			if (el.flexDirection) line += `\n  flex: ${el.flexDirection}`;
+			if (el.embeddedFrame) line += `\n  embedded frame: ${el.embeddedFrame}`;
+			if (el.position) line += `\n  position: ${el.position}`;
+			if (el.ruleLabel)
+				line += `\n  rule: ${el.ruleLabel}${el.ruleSemanticType ? ` (${el.ruleSemanticType})` : ""}`;
 			if (el.meaningfulClasses.length > 0)
 				line += `\n  classes: [${el.meaningfulClasses.join(", ")}]`;
 			if (el.textPreview && el.textPreview.length > 0)
@@ -98,6 +133,15 @@ export function buildUserPrompt(
 		})
 		.join("\n");
 
+	const contentSummary = domData.contentElements
+		.map((content) => {
+			const { x, y, width, height } = content.bbox;
+			const label = content.label ? ` "${content.label}"` : "";
+			const background = content.background ? " (background)" : "";
+			return `- ${content.type}${background}${label} at (${Math.round(x)},${Math.round(y)}) ${Math.round(width)}x${Math.round(height)}`;
+		})
+		.join("\n");
+
 	let prompt = `Page: ${domData.url}
 Title: ${domData.title}
 Viewport: ${domData.viewport.width}x${domData.viewport.height}
@@ -112,7 +156,16 @@ Elements: ${domData.elements.length} total (showing first 150)
 
 	prompt += `DOM Elements:
 ${elementsSummary}
+`;
 
+	if (contentSummary) {
+		prompt += `
+Content Elements:
+${contentSummary}
+`;
+	}
+
+	prompt += `
 Generate the WireframeModel JSON:`;
 
 	return prompt;
@@ -132,3 +185,111 @@ export function buildPrompt(domData: DomData, instructions?: string): string {
 
 ${user}`;
 }
+
+/** Max characters of a rejected response echoed back in a repair prompt */
+const MAX_ECHOED_RESPONSE = 20000;
+
+/**
+ * Build a follow-up prompt asking the model to fix a response that failed
+ * schema validation.
+ */
+export function buildRepairPrompt(
+	prompt: string,
+	previousResponse: string,
+	errors: SchemaIssue[],
+): string {
+	const echoed =
+		previousResponse.length > MAX_ECHOED_RESPONSE
+			? `${previousResponse.slice(0, MAX_ECHOED_RESPONSE)}\n... (truncated)`
+			: previousResponse;
+
+	return `${prompt}
+
+---
+
+Your previous response:
+${echoed}
+
+It failed WireframeModel validation:
+${formatSchemaIssues(errors)}
+
+Fix these problems and output the complete corrected WireframeModel JSON only:`;
+}
+
+/**
+ * Build the system prompt for relabeling a heuristic model.
+ */
+export function buildRelabelSystemPrompt(): string {
+	return `You are a wireframe architect. A heuristic DOM analyzer has already built the structure of a webpage wireframe. Your only job is to improve each node's label and semanticType.
+
+You will receive a tree of nodes, each with an id, HTML tag, current label, current semanticType, position/size and detected content.
+
+Rules:
+1. Do NOT add, remove, move or resize nodes - structure and geometry are fixed
+2. Labels should describe PURPOSE: "Hero + Dual CTA", "Services Grid (4)", "Testimonials Carousel"
+3. Include counts when relevant: "Value Props (3)", "Footer (4-col)"
+4. Keep a node's current values when they are already good
+
+semanticType must be one of: ${SEMANTIC_TYPE_UNION}
+
+Output Format:
+You MUST output valid JSON only. No markdown, no explanation:
+{
+  "nodes": [
+    { "id": "string (existing node id)", "label": "string", "semanticType": "string" }
+  ]
+}`;
+}
+
+/**
+ * Describe one node (and its subtree) as indented prompt lines.
+ */
+function describeNode(node: WireframeNode, lines: string[]): void {
+	const { x, y, width, height } = node.bbox;
+	let line = `${"  ".repeat(node.depth)}[${node.id}] <${node.tagName}> "${node.label}" (${node.semanticType}) at (${Math.round(x)},${Math.round(y)}) ${Math.round(width)}x${Math.round(height)}`;
+
+	if (node.contentHints && node.contentHints.length > 0) {
+		const counts = new Map<string, number>();
+		for (const hint of node.contentHints) {
+			counts.set(hint.type, (counts.get(hint.type) ?? 0) + 1);
+		}
+		const summary = Array.from(counts, ([type, count]) => `${count} ${type}`).join(", ");
+		line += ` contains: ${summary}`;
+	}
+
+	lines.push(line);
+	for (const child of node.children) {
+		describeNode(child, lines);
+	}
+}
+
+/**
+ * Build the complete relabel prompt for Claude CLI (hybrid mode).
+ */
+export function buildRelabelPrompt(model: WireframeModel, instructions?: string): string {
+	const lines: string[] = [];
+	for (const node of model.nodes) {
+		describeNode(node, lines);
+	}
+
+	let user = `Page: ${model.pageUrl}
+Viewport: ${model.viewport.width}x${model.viewport.height}
+Full Page Height: ${model.fullPageHeight}px
+
+`;
+
+	if (instructions) {
+		user += `Special Instructions: ${instructions}\n\n`;
+	}
+
+	user += `Wireframe Nodes:
+${lines.join("\n")}
+
+Generate the relabel JSON:`;
+
+	return `${buildRelabelSystemPrompt()}
+
+---
+
+${user}`;
+}
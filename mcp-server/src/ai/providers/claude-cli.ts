@@ -0,0 +1,140 @@
+/**
+ * Claude CLI Provider
+ *
+ * Spawns `claude --print` and pipes the prompt via stdin.
+ * Uses existing Max subscription - no API key needed.
+ */
+
+import { spawn } from "node:child_process";
+import { unlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { log, logDebug, logError } from "../../utils/logger.js";
+import type { ModelProvider } from "./types.js";
+
+/** Model used when none is configured */
+export const DEFAULT_CLAUDE_MODEL = "sonnet";
+
+/**
+ * Create a provider backed by the Claude CLI.
+ */
+export function createClaudeCliProvider(model: string = DEFAULT_CLAUDE_MODEL): ModelProvider {
+	return {
+		name: "claude-cli",
+		model,
+		async complete(prompt: string): Promise<string> {
+			// Write prompt to temp file to avoid shell escaping issues
+			const tempFile = join(tmpdir(), `wireframe-prompt-${Date.now()}.txt`);
+			await writeFile(tempFile, prompt, "utf-8");
+			log("claude-cli", `Temp file written: ${tempFile}`);
+
+			try {
+				// Spawn Claude CLI with prompt piped via stdin
+				// Use --tools "" to disable tools (faster, less context)
+				// Default to sonnet for balance of speed and quality
+				const cliArgs = [
+					"--print",
+					"--output-format",
+					"json",
+					"--tools",
+					"",
+					"--model",
+					model,
+					"--setting-sources",
+					"", // Critical: disable project context loading
+				];
+				log("claude-cli", "Spawning Claude CLI", { args: cliArgs });
+
+				const spawnStartTime = Date.now();
+				const result = await new Promise<string>((resolve, reject) => {
+					const claude = spawn("claude", cliArgs, {
+						stdio: ["pipe", "pipe", "pipe"],
+						env: { ...process.env },
+					});
+
+					log("claude-cli", `Claude process spawned, PID: ${claude.pid}`);
+
+					let stdout = "";
+					let stderr = "";
+					let stdoutChunks = 0;
+					let stderrChunks = 0;
+
+					claude.stdout.on("data", (data: Buffer) => {
+						stdout += data.toString();
+						stdoutChunks++;
+						logDebug("claude-cli", `stdout chunk #${stdoutChunks}: ${data.length} bytes`);
+					});
+
+					claude.stderr.on("data", (data: Buffer) => {
+						stderr += data.toString();
+						stderrChunks++;
+						logDebug("claude-cli", `stderr chunk #${stderrChunks}`, data.toString().slice(0, 200));
+					});
+
+					claude.on("close", (code) => {
+						const duration = Date.now() - spawnStartTime;
+						log("claude-cli", `Claude process closed`, {
+							code,
+							duration,
+							stdoutLength: stdout.length,
+							stderrLength: stderr.length,
+							stdoutChunks,
+							stderrChunks,
+						});
+
+						if (code === 0) {
+							// Parse the JSON wrapper and extract result
+							try {
+								logDebug("claude-cli", "Parsing JSON wrapper", stdout.slice(0, 300));
+								const wrapper = JSON.parse(stdout);
+								if (wrapper.is_error) {
+									logError("claude-cli", "Claude returned error", wrapper);
+									reject(new Error(`Claude error: ${wrapper.result}`));
+								} else {
+									log("claude-cli", "Claude returned success", {
+										resultLength: wrapper.result?.length,
+										duration_ms: wrapper.duration_ms,
+									});
+									resolve(wrapper.result);
+								}
+							} catch (_parseError) {
+								// If not JSON, return raw output
+								log("claude-cli", "Output not JSON wrapper, using raw", {
+									stdout: stdout.slice(0, 200),
+								});
+								resolve(stdout);
+							}
+						} else {
+							logError("claude-cli", `Claude CLI exited with code ${code}`, {
+								stderr,
+								stdout: stdout.slice(0, 500),
+							});
+							reject(new Error(`Claude CLI exited with code ${code}: ${stderr}`));
+						}
+					});
+
+					claude.on("error", (error) => {
+						logError("claude-cli", "Failed to spawn Claude CLI", error);
+						reject(new Error(`Failed to spawn Claude CLI: ${error.message}`));
+					});
+
+					// Write prompt to stdin and close
+					log("claude-cli", `Writing ${prompt.length} bytes to stdin...`);
+					claude.stdin.write(prompt);
+					claude.stdin.end();
+					log("claude-cli", "stdin closed, waiting for response...");
+				});
+
+				return result;
+			} finally {
+				// Cleanup temp file
+				try {
+					await unlink(tempFile);
+					log("claude-cli", "Temp file cleaned up");
+				} catch {
+					// Ignore cleanup errors
+				}
+			}
+		},
+	};
+}
@@ -0,0 +1,66 @@
+/**
+ * Fixture Provider
+ *
+ * Deterministic provider for tests and offline demos. Replays responses
+ * recorded earlier (see `withRecording`) instead of calling an LLM.
+ *
+ * The fixture path is either:
+ * - a file: its content is returned for every prompt
+ * - a directory: the response for a prompt is read from `<hash>.txt`,
+ *   where `<hash>` is derived from the prompt text (see `fixtureKey`)
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { log } from "../../utils/logger.js";
+import type { ModelProvider } from "./types.js";
+
+/**
+ * Stable file name for a prompt's recorded response.
+ */
+export function fixtureKey(prompt: string): string {
+	return `${createHash("sha256").update(prompt).digest("hex").slice(0, 16)}.txt`;
+}
+
+/**
+ * Create a provider that replays recorded responses from `fixturePath`.
+ */
+export function createFixtureProvider(fixturePath: string): ModelProvider {
+	return {
+		name: "fixture",
+		model: fixturePath,
+		async complete(prompt: string): Promise<string> {
+			const isDirectory = (await stat(fixturePath)).isDirectory();
+			const file = isDirectory ? join(fixturePath, fixtureKey(prompt)) : fixturePath;
+
+			log("fixture", "Replaying recorded response", { file });
+			try {
+				return await readFile(file, "utf-8");
+			} catch {
+				throw new Error(
+					`No recorded response for this prompt: ${file} (record one with WIREFRAME_RECORD_DIR)`,
+				);
+			}
+		},
+	};
+}
+
+/**
+ * Wrap a provider so every response is saved to `recordDir` under its
+ * fixture key, ready to be replayed by the fixture provider.
+ */
+export function withRecording(provider: ModelProvider, recordDir: string): ModelProvider {
+	return {
+		name: provider.name,
+		model: provider.model,
+		async complete(prompt: string): Promise<string> {
+			const response = await provider.complete(prompt);
+			const file = join(recordDir, fixtureKey(prompt));
+			await mkdir(recordDir, { recursive: true });
+			await writeFile(file, response, "utf-8");
+			log("fixture", "Recorded response", { file });
+			return response;
+		},
+	};
+}
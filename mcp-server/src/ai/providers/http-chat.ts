@@ -0,0 +1,101 @@
+/**
+ * HTTP Chat-Completions Provider
+ *
+ * Talks to any OpenAI-compatible `/chat/completions` endpoint (OpenAI,
+ * Ollama, LM Studio, vLLM, llama.cpp server, ...).
+ */
+
+import { log, logError } from "../../utils/logger.js";
+import type { ModelProvider } from "./types.js";
+
+/** Endpoint used when none is configured (Ollama's OpenAI-compatible API) */
+export const DEFAULT_HTTP_BASE_URL = "http://localhost:11434/v1";
+
+/** Request timeout (local models can be slow on large prompts) */
+const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface HttpChatProviderOptions {
+	/** Model name sent in the request body (required) */
+	model: string;
+	/** API base URL, without the `/chat/completions` suffix */
+	baseUrl?: string;
+	/** Bearer token, if the server requires one */
+	apiKey?: string;
+}
+
+interface ChatCompletionResponse {
+	choices?: Array<{ message?: { content?: string | null } }>;
+	error?: { message?: string };
+}
+
+/**
+ * Create a provider backed by an OpenAI-compatible chat-completions API.
+ */
+export function createHttpChatProvider(options: HttpChatProviderOptions): ModelProvider {
+	const { model, apiKey } = options;
+	const baseUrl = (options.baseUrl ?? DEFAULT_HTTP_BASE_URL).replace(/\/+$/, "");
+	const endpoint = `${baseUrl}/chat/completions`;
+
+	return {
+		name: "http",
+		model,
+		async complete(prompt: string): Promise<string> {
+			log("http-chat", "Sending chat completion request", {
+				endpoint,
+				model,
+				promptLength: prompt.length,
+			});
+
+			const headers: Record<string, string> = { "Content-Type": "application/json" };
+			if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+			const startTime = Date.now();
+			let response: Response;
+			try {
+				response = await fetch(endpoint, {
+					method: "POST",
+					headers,
+					body: JSON.stringify({
+						model,
+						messages: [{ role: "user", content: prompt }],
+						temperature: 0,
+					}),
+					signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+				});
+			} catch (error) {
+				logError("http-chat", "Request failed", error);
+				throw new Error(
+					`Chat completion request to ${endpoint} failed: ${(error as Error).message}`,
+				);
+			}
+
+			const text = await response.text();
+			if (!response.ok) {
+				logError("http-chat", `HTTP ${response.status}`, { body: text.slice(0, 500) });
+				throw new Error(
+					`Chat completion request failed with HTTP ${response.status}: ${text.slice(0, 200)}`,
+				);
+			}
+
+			let payload: ChatCompletionResponse;
+			try {
+				payload = JSON.parse(text) as ChatCompletionResponse;
+			} catch {
+				throw new Error("Chat completion response is not JSON");
+			}
+
+			const content = payload.choices?.[0]?.message?.content;
+			if (typeof content !== "string") {
+				throw new Error(
+					`Chat completion response has no content${payload.error?.message ? `: ${payload.error.message}` : ""}`,
+				);
+			}
+
+			log("http-chat", "Chat completion received", {
+				duration: Date.now() - startTime,
+				resultLength: content.length,
+			});
+			return content;
+		},
+	};
+}
@@ -0,0 +1,81 @@
+/**
+ * Model Providers
+ *
+ * Resolves the LLM backend from tool parameters, falling back to
+ * environment variables:
+ * - WIREFRAME_PROVIDER: "claude-cli" (default) | "http" | "fixture"
+ * - WIREFRAME_MODEL: model name (claude-cli default: "sonnet"; required for http)
+ * - WIREFRAME_HTTP_BASE_URL / WIREFRAME_API_KEY: http endpoint and token
+ * - WIREFRAME_FIXTURE_PATH: fixture file or directory
+ * - WIREFRAME_RECORD_DIR: record every response for later replay
+ */
+
+import { log } from "../../utils/logger.js";
+import { createClaudeCliProvider } from "./claude-cli.js";
+import { createFixtureProvider, withRecording } from "./fixture.js";
+import { createHttpChatProvider } from "./http-chat.js";
+import type { ModelProvider, ProviderName } from "./types.js";
+
+export type { ModelProvider, ProviderName } from "./types.js";
+
+/** Provider names accepted by tools and WIREFRAME_PROVIDER */
+export const PROVIDER_NAMES: readonly ProviderName[] = ["claude-cli", "http", "fixture"];
+
+export interface ProviderOptions {
+	/** Provider name (default: WIREFRAME_PROVIDER, then "claude-cli") */
+	provider?: ProviderName;
+	/** Model name (default: WIREFRAME_MODEL, then the provider's default) */
+	model?: string;
+}
+
+function isProviderName(value: string): value is ProviderName {
+	return (PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Create the model provider selected by options or environment.
+ */
+export function createProvider(
+	options: ProviderOptions = {},
+	env: NodeJS.ProcessEnv = process.env,
+): ModelProvider {
+	const name = options.provider ?? env.WIREFRAME_PROVIDER ?? "claude-cli";
+	if (!isProviderName(name)) {
+		throw new Error(`Unknown model provider "${name}" (expected ${PROVIDER_NAMES.join(", ")})`);
+	}
+	const model = options.model ?? env.WIREFRAME_MODEL;
+
+	let provider: ModelProvider;
+	switch (name) {
+		case "claude-cli":
+			provider = createClaudeCliProvider(model);
+			break;
+		case "http":
+			if (!model) {
+				throw new Error(
+					"The http provider requires a model (set the model parameter or WIREFRAME_MODEL)",
+				);
+			}
+			provider = createHttpChatProvider({
+				model,
+				baseUrl: env.WIREFRAME_HTTP_BASE_URL,
+				apiKey: env.WIREFRAME_API_KEY,
+			});
+			break;
+		case "fixture": {
+			const fixturePath = env.WIREFRAME_FIXTURE_PATH;
+			if (!fixturePath) {
+				throw new Error("The fixture provider requires WIREFRAME_FIXTURE_PATH");
+			}
+			provider = createFixtureProvider(fixturePath);
+			break;
+		}
+	}
+
+	if (env.WIREFRAME_RECORD_DIR && name !== "fixture") {
+		provider = withRecording(provider, env.WIREFRAME_RECORD_DIR);
+	}
+
+	log("providers", "Model provider selected", { provider: provider.name, model: provider.model });
+	return provider;
+}
@@ -0,0 +1,22 @@
+/**
+ * Model Provider Types
+ *
+ * A provider turns a prompt into the model's raw text response. The model
+ * generator handles prompt building and JSON extraction, so providers stay
+ * transport-only.
+ */
+
+/** Built-in provider implementations */
+export type ProviderName = "claude-cli" | "http" | "fixture";
+
+/**
+ * LLM backend used to generate and relabel wireframe models.
+ */
+export interface ModelProvider {
+	/** Provider name (recorded in logs) */
+	readonly name: ProviderName;
+	/** Model name passed to the backend (recorded in logs) */
+	readonly model: string;
+	/** Send a prompt and return the raw text response */
+	complete(prompt: string): Promise<string>;
+}
@@ -3,12 +3,34 @@
  *
  * Uses Playwright to navigate to a URL and extract DOM data
  * for AI-powered wireframe analysis.
+ *
+ * Analyzer rules (see AnalyzerRules) apply here too: excluded subtrees are
+ * dropped, included elements bypass the size filter, generic class patterns
+ * extend the utility filter, and label rule matches are passed to the AI.
+ *
+ * Traversal follows the rendered tree like the browser analyzer: open shadow
+ * roots (with slotted content) and same-origin iframes, offset into page
+ * coordinates. Cross-origin iframes are recorded with their host as
+ * embedded frames.
+ *
+ * Fixed, sticky and overlay elements are recorded with their position and
+ * boxed where they sit with the page scrolled to the top. Cookie and consent
+ * banners are skipped unless an include rule keeps them.
+ *
+ * Videos, maps, form fields, data tables, logos, avatars and CSS background
+ * images (including large ::before/::after images) are collected
+ * separately (same rules as the browser analyzer's content hints) so the AI
+ * can place them as contentHints.
  */
 
-import { chromium, type Browser } from "playwright";
+import {
+	type AnalyzerRules,
+	type BoundingBox,
+	resolveAnalyzerRules,
+} from "@wireframe-mapper/shared";
 import type { DomData, DomElement } from "../types/dom-data.js";
-import type { BoundingBox } from "@wireframe-mapper/shared";
 import { log, logError } from "../utils/logger.js";
+import { type PageSessionOptions, withPage } from "./page-session.js";
 
 /** Minimum element size to include (50x50 = 2500px²) */
 const MIN_ELEMENT_AREA = 2500;
@@ -44,257 +66,577 @@ const UTILITY_CLASS_PATTERN_STRINGS = [
 	"^(items|justify|self|place)-",
 ];
 
-export interface GatherOptions {
-	/** Viewport width (default: 1280) */
-	width?: number;
-	/** Viewport height (default: 800) */
-	height?: number;
-	/** Wait for network idle before extracting (default: true) */
-	waitForNetworkIdle?: boolean;
+/** Max content elements passed to the AI */
+const MAX_CONTENT_ELEMENTS = 80;
+
+/** Embedded players, matched against iframe URLs (as a string for browser context) */
+const VIDEO_EMBED_PATTERN_STRING =
+	"youtube\\.com|youtube-nocookie\\.com|youtu\\.be|vimeo\\.com|wistia|loom\\.com|dailymotion\\.com";
+
+/** Embedded maps, matched against iframe URLs */
+const MAP_EMBED_PATTERN_STRING =
+	"google\\.[a-z.]+\\/maps|maps\\.google\\.|openstreetmap\\.org|mapbox\\.com|bing\\.com\\/maps";
+
+/** Avatar markers in class names, alt text or file names */
+const AVATAR_PATTERN_STRING = "avatar|profile[-_]?(pic|photo|image)|author[-_]?(image|photo)";
+
+/** Share of the viewport a fixed element must cover to count as an overlay */
+const OVERLAY_MIN_COVERAGE = 0.5;
+
+/** Cookie and consent banner markers in ids, class names and aria-labels */
+const COOKIE_BANNER_PATTERN_STRING =
+	"cookie|consent|gdpr|ccpa|onetrust|cookiebot|usercentrics|didomi|truste|quantcast|\\bcmp\\b";
+
+export interface GatherOptions extends PageSessionOptions {
+	/** User-defined analyzer rules and presets */
+	rules?: AnalyzerRules;
 }
 
 /**
  * Gather DOM data from a URL using Playwright.
  */
-export async function gatherDom(
-	url: string,
-	options: GatherOptions = {}
-): Promise<DomData> {
-	const { width = 1280, height = 800, waitForNetworkIdle = true } = options;
-
-	log("dom-gatherer", "gatherDom called", { url, width, height, waitForNetworkIdle });
-
-	let browser: Browser | null = null;
+export async function gatherDom(url: string, options: GatherOptions = {}): Promise<DomData> {
+	const { width = 1280, height = 800, waitForNetworkIdle = true, onLoad } = options;
+	const rules = resolveAnalyzerRules(options.rules);
+
+	log("dom-gatherer", "gatherDom called", {
+		url,
+		width,
+		height,
+		waitForNetworkIdle,
+		rules: options.rules,
+	});
 
 	try {
-		log("dom-gatherer", "Launching Chromium...");
-		browser = await chromium.launch({ headless: true });
-		log("dom-gatherer", "Browser launched");
+		return await withPage(url, { width, height, waitForNetworkIdle, onLoad }, async (page) => {
+			// Extract DOM data in a single page.evaluate() call
+			// This minimizes context usage by avoiding multiple round-trips
+			const domData = await page.evaluate(
+				({
+					minArea,
+					utilityPatterns,
+					labelRules,
+					includeSelectors,
+					excludeSelectors,
+					maxContent,
+					videoPattern,
+					mapPattern,
+					avatarPattern,
+					overlayCoverage,
+					cookieBannerPattern,
+				}) => {
+					const patterns = utilityPatterns.map((p) => new RegExp(p, "i"));
+					const labelMatchers = labelRules.map((rule) => ({
+						...rule,
+						regex: new RegExp(rule.pattern, "i"),
+					}));
+					// Reject invalid selectors up front (like the browser analyzer) rather
+					// than failing on the first matches() call
+					const selectorFields: Array<[string, string[]]> = [
+						["include", includeSelectors],
+						["exclude", excludeSelectors],
+					];
+					for (const [field, selectors] of selectorFields) {
+						for (const selector of selectors) {
+							try {
+								document.createDocumentFragment().querySelector(selector);
+							} catch {
+								throw new Error(`Invalid analyzer rule selector in ${field}: ${selector}`);
+							}
+						}
+					}
+					const include = includeSelectors.join(", ");
+					const exclude = excludeSelectors.join(", ");
+					const cookieRegex = new RegExp(cookieBannerPattern, "i");
+
+					// First label rule matching the element's class, id or attribute
+					function matchLabelRule(el: Element) {
+						return labelMatchers.find((rule) => {
+							const target = rule.target ?? "class";
+							const value =
+								target === "class"
+									? el.getAttribute("class")
+									: target === "id"
+										? el.id
+										: el.getAttribute(target.slice("attr:".length));
+							return value ? rule.regex.test(value) : false;
+						});
+					}
 
-		const page = await browser.newPage({
-			viewport: { width, height },
-		});
-		log("dom-gatherer", "Page created with viewport", { width, height });
+					// Filter meaningful class names (remove utility classes)
+					function filterClasses(classList: DOMTokenList): string[] {
+						return Array.from(classList).filter(
+							(cls) => !patterns.some((pattern) => pattern.test(cls)),
+						);
+					}
 
-		// Navigate to URL
-		log("dom-gatherer", `Navigating to ${url}...`);
-		await page.goto(url, {
-			waitUntil: waitForNetworkIdle ? "networkidle" : "domcontentloaded",
-			timeout: 30000,
-		});
-		log("dom-gatherer", "Navigation complete");
-
-		// Extract DOM data in a single page.evaluate() call
-		// This minimizes context usage by avoiding multiple round-trips
-		const domData = await page.evaluate(
-			({ minArea, utilityPatterns }) => {
-				const patterns = utilityPatterns.map((p) => new RegExp(p, "i"));
-
-				// Filter meaningful class names (remove utility classes)
-				function filterClasses(classList: DOMTokenList): string[] {
-					return Array.from(classList).filter(
-						(cls) => !patterns.some((pattern) => pattern.test(cls))
-					);
-				}
-
-				// Get bounding box in absolute page coordinates
-				function getBbox(el: Element): { x: number; y: number; width: number; height: number } {
-					const rect = el.getBoundingClientRect();
-					return {
-						x: rect.left + window.scrollX,
-						y: rect.top + window.scrollY,
-						width: rect.width,
-						height: rect.height,
-					};
-				}
-
-				// Get landmark type for semantic elements
-				function getLandmark(el: Element): string | undefined {
-					const tag = el.tagName.toLowerCase();
-					const role = el.getAttribute("role");
-
-					// ARIA role takes precedence
-					if (role === "banner") return "header";
-					if (role === "navigation") return "nav";
-					if (role === "main") return "main";
-					if (role === "contentinfo") return "footer";
-					if (role === "complementary") return "aside";
-
-					// Semantic HTML tags
-					if (tag === "header") return "header";
-					if (tag === "nav") return "nav";
-					if (tag === "main") return "main";
-					if (tag === "footer") return "footer";
-					if (tag === "aside") return "aside";
-					if (tag === "section") return "section";
-					if (tag === "article") return "article";
-
-					return undefined;
-				}
-
-				// Get first heading text inside element
-				function getHeadingText(el: Element): string | undefined {
-					const heading = el.querySelector("h1, h2, h3");
-					if (heading) {
-						const text = heading.textContent?.trim();
-						return text ? text.substring(0, 100) : undefined;
+					// Document of a same-origin iframe (null for other elements and cross-origin frames)
+					function getFrameDocument(el: Element): Document | null {
+						if (el.tagName !== "IFRAME") return null;
+						try {
+							return (el as HTMLIFrameElement).contentDocument;
+						} catch {
+							return null;
+						}
 					}
-					return undefined;
-				}
 
-				// Generate a unique selector for an element
-				function getSelector(el: Element): string {
-					if (el.id) return `#${el.id}`;
+					// Child elements in rendered order: shadow root (slots replaced by their
+					// assigned elements), same-origin iframe body, or light DOM
+					function getChildElements(el: Element): Element[] {
+						const frameDocument = getFrameDocument(el);
+						if (frameDocument) return frameDocument.body ? getChildElements(frameDocument.body) : [];
+
+						const children: Element[] = [];
+						for (const child of Array.from((el.shadowRoot ?? el).children)) {
+							if (child.tagName === "SLOT") {
+								const assigned = (child as HTMLSlotElement).assignedElements({ flatten: true });
+								children.push(...(assigned.length > 0 ? assigned : Array.from(child.children)));
+							} else {
+								children.push(child);
+							}
+						}
+						return children;
+					}
 
-					const tag = el.tagName.toLowerCase();
-					const parent = el.parentElement;
+					// querySelectorAll across the document, open shadow roots and same-origin iframes
+					function queryAll(selector: string): Element[] {
+						const scopes: Array<Document | ShadowRoot> = [document];
+						const found: Element[] = [];
+						for (let i = 0; i < scopes.length; i++) {
+							for (const el of Array.from(scopes[i].querySelectorAll("*"))) {
+								if (el.shadowRoot) scopes.push(el.shadowRoot);
+								const frameDocument = getFrameDocument(el);
+								if (frameDocument) scopes.push(frameDocument);
+							}
+							found.push(...Array.from(scopes[i].querySelectorAll(selector)));
+						}
+						return found;
+					}
 
-					if (!parent) return tag;
+					// Get bounding box in absolute page coordinates (offset by enclosing iframes).
+					// Fixed layers don't scroll, so they keep their scrolled-to-top position.
+					function getBbox(
+						el: Element,
+						fixedLayer = false,
+					): { x: number; y: number; width: number; height: number } {
+						const rect = el.getBoundingClientRect();
+						let x = rect.left + (fixedLayer ? 0 : window.scrollX);
+						let y = rect.top + (fixedLayer ? 0 : window.scrollY);
+						let view = el.ownerDocument.defaultView;
+						while (view && view !== window && view.frameElement) {
+							const frame = view.frameElement;
+							const frameRect = frame.getBoundingClientRect();
+							const frameStyle = window.getComputedStyle(frame);
+							x += frameRect.left + frame.clientLeft + parseFloat(frameStyle.paddingLeft);
+							y += frameRect.top + frame.clientTop + parseFloat(frameStyle.paddingTop);
+							view = frame.ownerDocument.defaultView;
+						}
+						return { x, y, width: rect.width, height: rect.height };
+					}
 
-					const siblings = Array.from(parent.children).filter(
-						(child) => child.tagName === el.tagName
-					);
+					// Classify floating elements: fixed, sticky, or overlay (dialogs and
+					// fixed elements covering most of the viewport)
+					function getPosition(el: Element, style: CSSStyleDeclaration): string | undefined {
+						const role = el.getAttribute("role");
+						const isDialog =
+							(el.tagName === "DIALOG" && el.hasAttribute("open")) ||
+							role === "dialog" ||
+							role === "alertdialog" ||
+							el.getAttribute("aria-modal") === "true";
+
+						if (style.position === "fixed") {
+							const rect = el.getBoundingClientRect();
+							const coverage =
+								(rect.width * rect.height) / (window.innerWidth * window.innerHeight);
+							return isDialog || coverage >= overlayCoverage ? "overlay" : "fixed";
+						}
+						if (isDialog) return "overlay";
+						if (style.position === "sticky") return "sticky";
+						return undefined;
+					}
 
-					if (siblings.length === 1) {
-						return `${getSelector(parent)} > ${tag}`;
+					// Floating element with a consent marker in its id, class or aria-label
+					function isCookieBanner(el: Element, position: string | undefined): boolean {
+						if (!position) return false;
+						const markers = [el.id, el.getAttribute("class"), el.getAttribute("aria-label")];
+						return markers.some((marker) => marker !== null && cookieRegex.test(marker));
 					}
 
-					const index = siblings.indexOf(el) + 1;
-					return `${getSelector(parent)} > ${tag}:nth-of-type(${index})`;
-				}
-
-				// Element data structure
-				interface ExtractedElement {
-					selector: string;
-					tagName: string;
-					bbox: { x: number; y: number; width: number; height: number };
-					role?: string;
-					landmark?: string;
-					headingLevel?: number;
-					textPreview?: string;
-					headingText?: string;
-					childCount: number;
-					depth: number;
-					display?: string;
-					flexDirection?: string;
-					meaningfulClasses: string[];
-				}
-
-				// Extract elements recursively
-				function extractElements(
-					el: Element,
-					depth: number,
-					elements: ExtractedElement[]
-				): void {
-					const bbox = getBbox(el);
-					const area = bbox.width * bbox.height;
-
-					// Skip small elements
-					if (area < minArea) return;
-
-					// Skip hidden elements
-					const style = window.getComputedStyle(el);
-					if (
-						style.display === "none" ||
-						style.visibility === "hidden" ||
-						style.opacity === "0"
-					) {
-						return;
+					// Get landmark type for semantic elements
+					function getLandmark(el: Element): string | undefined {
+						const tag = el.tagName.toLowerCase();
+						const role = el.getAttribute("role");
+
+						// ARIA role takes precedence
+						if (role === "banner") return "header";
+						if (role === "navigation") return "nav";
+						if (role === "main") return "main";
+						if (role === "contentinfo") return "footer";
+						if (role === "complementary") return "aside";
+
+						// Semantic HTML tags
+						if (tag === "header") return "header";
+						if (tag === "nav") return "nav";
+						if (tag === "main") return "main";
+						if (tag === "footer") return "footer";
+						if (tag === "aside") return "aside";
+						if (tag === "section") return "section";
+						if (tag === "article") return "article";
+
+						return undefined;
 					}
 
-					const tag = el.tagName.toLowerCase();
-					const htmlEl = el as HTMLElement;
-					const classList = htmlEl.classList || { length: 0, [Symbol.iterator]: () => [][Symbol.iterator]() };
-
-					// Extract element data
-					const element: ExtractedElement = {
-						selector: getSelector(el),
-						tagName: tag,
-						bbox,
-						childCount: el.children.length,
-						depth,
-						meaningfulClasses: classList.length > 0 ? filterClasses(classList) : [],
-					};
+					// Get first heading text inside element
+					function getHeadingText(el: Element): string | undefined {
+						const heading = el.querySelector("h1, h2, h3");
+						if (heading) {
+							const text = heading.textContent?.trim();
+							return text ? text.substring(0, 100) : undefined;
+						}
+						return undefined;
+					}
 
-					// Add optional properties
-					const role = el.getAttribute("role");
-					if (role) element.role = role;
+					// Generate a unique selector for an element. Inside shadow roots and
+					// same-origin iframes it's prefixed with the host or iframe selector and
+					// " >>> " (same format as the browser tool's selectors)
+					function getSelector(el: Element): string {
+						const scope = el.getRootNode() as Document | ShadowRoot;
+						const tag = el.tagName.toLowerCase();
+
+						if (el.id) {
+							const idSelector = `#${CSS.escape(el.id)}`;
+							if (scope.querySelectorAll(idSelector).length === 1) {
+								return `${getScopePrefix(el, scope)}${idSelector}`;
+							}
+						}
 
-					const landmark = getLandmark(el);
-					if (landmark) element.landmark = landmark;
+						// Top-level elements of a shadow root have the root as parent node
+						const siblings = el.parentNode
+							? Array.from((el.parentNode as ParentNode).children).filter(
+									(child) => child.tagName === el.tagName,
+								)
+							: [];
+						const part =
+							siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(el) + 1})` : tag;
+
+						const parent = el.parentElement;
+						if (!parent) return `${getScopePrefix(el, scope)}${part}`;
+						return `${getSelector(parent)} > ${part}`;
+					}
 
-					// Heading level
-					const headingMatch = tag.match(/^h([1-6])$/);
-					if (headingMatch) {
-						element.headingLevel = parseInt(headingMatch[1], 10);
+					// Selector of the shadow host or iframe holding an element's scope, plus
+					// the separator; empty at the top level
+					function getScopePrefix(el: Element, scope: Document | ShadowRoot): string {
+						if ("host" in scope) return `${getSelector(scope.host)} >>> `;
+						const frame = el.ownerDocument.defaultView?.frameElement;
+						return frame ? `${getSelector(frame)} >>> ` : "";
 					}
 
-					// Text preview
-					const textContent = el.textContent?.trim();
-					if (textContent) {
-						element.textPreview = textContent.substring(0, 100);
+					// Element data structure
+					interface ExtractedElement {
+						selector: string;
+						tagName: string;
+						bbox: { x: number; y: number; width: number; height: number };
+						role?: string;
+						landmark?: string;
+						headingLevel?: number;
+						textPreview?: string;
+						headingText?: string;
+						childCount: number;
+						depth: number;
+						display?: string;
+						flexDirection?: string;
+						meaningfulClasses: string[];
+						ruleLabel?: string;
+						ruleSemanticType?: string;
+						embeddedFrame?: string;
+						position?: string;
 					}
 
-					// Heading text inside
-					const headingText = getHeadingText(el);
-					if (headingText) element.headingText = headingText;
+					// Extract elements recursively
+					function extractElements(
+						el: Element,
+						depth: number,
+						elements: ExtractedElement[],
+						inFixedLayer = false,
+					): void {
+						// Skip excluded subtrees
+						if (exclude && el.matches(exclude)) return;
+
+						const style = window.getComputedStyle(el);
+						// Fixed elements of the top document (and everything inside them) don't scroll
+						const fixedLayer =
+							inFixedLayer || (el.ownerDocument === document && style.position === "fixed");
+						const bbox = getBbox(el, fixedLayer);
+						const area = bbox.width * bbox.height;
+						const forced = include !== "" && el.matches(include);
+
+						// Skip small elements (unless forced in by a rule)
+						if (area < minArea && !forced) return;
+
+						// Skip hidden elements
+						if (
+							style.display === "none" ||
+							style.visibility === "hidden" ||
+							style.opacity === "0"
+						) {
+							return;
+						}
+
+						// Skip cookie and consent banners (unless forced in by a rule)
+						const position = getPosition(el, style);
+						if (isCookieBanner(el, position) && !forced) return;
+
+						const tag = el.tagName.toLowerCase();
+						const htmlEl = el as HTMLElement;
+						const classList = htmlEl.classList || {
+							length: 0,
+							[Symbol.iterator]: () => [][Symbol.iterator](),
+						};
+
+						// Extract element data
+						const element: ExtractedElement = {
+							selector: getSelector(el),
+							tagName: tag,
+							bbox,
+							childCount: el.children.length,
+							depth,
+							meaningfulClasses: classList.length > 0 ? filterClasses(classList) : [],
+						};
+
+						// Add optional properties
+						const role = el.getAttribute("role");
+						if (role) element.role = role;
+
+						const labelRule = matchLabelRule(el);
+						if (labelRule) {
+							element.ruleLabel = labelRule.label;
+							if (labelRule.semanticType) element.ruleSemanticType = labelRule.semanticType;
+						}
 
-					// CSS display
-					const display = style.display;
-					if (display && display !== "block") element.display = display;
+						const landmark = getLandmark(el);
+						if (landmark) element.landmark = landmark;
 
-					// Flex direction
-					if (display === "flex" || display === "inline-flex") {
-						element.flexDirection = style.flexDirection;
+						// Heading level
+						const headingMatch = tag.match(/^h([1-6])$/);
+						if (headingMatch) {
+							element.headingLevel = parseInt(headingMatch[1], 10);
+						}
+
+						// Text preview
+						const textContent = el.textContent?.trim();
+						if (textContent) {
+							element.textPreview = textContent.substring(0, 100);
+						}
+
+						// Heading text inside
+						const headingText = getHeadingText(el);
+						if (headingText) element.headingText = headingText;
+
+						// Cross-origin iframe: contents aren't accessible
+						if (tag === "iframe" && !getFrameDocument(el)) {
+							const src = el.getAttribute("src") ?? "";
+							try {
+								element.embeddedFrame = new URL(src, document.baseURI).hostname || "unknown";
+							} catch {
+								element.embeddedFrame = "unknown";
+							}
+						}
+
+						if (position) element.position = position;
+
+						// CSS display
+						const display = style.display;
+						if (display && display !== "block") element.display = display;
+
+						// Flex direction
+						if (display === "flex" || display === "inline-flex") {
+							element.flexDirection = style.flexDirection;
+						}
+
+						elements.push(element);
+
+						// Recurse into children (limit depth to avoid noise)
+						if (depth < 5) {
+							for (const child of getChildElements(el)) {
+								extractElements(child, depth + 1, elements, fixedLayer);
+							}
+						}
+					}
+
+					// Content element data structure
+					interface ExtractedContent {
+						type: string;
+						bbox: { x: number; y: number; width: number; height: number };
+						label?: string;
+						background?: boolean;
 					}
 
-					elements.push(element);
+					// Detect content placeholders, mirroring the browser analyzer's content hints
+					function detectContent(): ExtractedContent[] {
+						const videoRegex = new RegExp(videoPattern, "i");
+						const mapRegex = new RegExp(mapPattern, "i");
+						const avatarRegex = new RegExp(avatarPattern, "i");
+						const nonFieldTypes = ["hidden", "submit", "button", "reset", "image", "checkbox", "radio"];
+						const mapWidgets = ".leaflet-container, .mapboxgl-map, .maplibregl-map, .gm-style";
+						const found: ExtractedContent[] = [];
+
+						function add(type: string, el: Element, label?: string): void {
+							if (found.length >= maxContent) return;
+							if (exclude && el.closest(exclude)) return;
+							const bbox = getBbox(el);
+							if (bbox.width < 12 || bbox.height < 12) return;
+							const style = window.getComputedStyle(el);
+							if (style.display === "none" || style.visibility === "hidden") return;
+							found.push(label ? { type, bbox, label: label.trim().slice(0, 20) } : { type, bbox });
+						}
+
+						function hasMarker(el: Element, regex: RegExp, attributes: string[]): boolean {
+							return attributes.some((name) => regex.test(el.getAttribute(name) ?? ""));
+						}
+
+						function isCircular(el: Element, size: number): boolean {
+							const radius = window.getComputedStyle(el).borderTopLeftRadius;
+							const value = parseFloat(radius);
+							if (Number.isNaN(value)) return false;
+							return radius.endsWith("%") ? value >= 40 : value >= size * 0.4;
+						}
+
+						for (const media of queryAll("video, iframe")) {
+							const src = media.getAttribute("src") ?? "";
+							if (media.tagName === "VIDEO" || videoRegex.test(src)) add("video", media);
+							else if (mapRegex.test(src)) add("map", media);
+						}
+
+						for (const map of queryAll(mapWidgets)) {
+							if (!map.parentElement?.closest(mapWidgets)) add("map", map);
+						}
+
+						for (const field of queryAll("input, textarea")) {
+							if (field.getAttribute("role") === "combobox") continue;
+							if (field.tagName === "INPUT" && nonFieldTypes.includes((field as HTMLInputElement).type)) continue;
+							add("input", field, field.getAttribute("placeholder") ?? undefined);
+						}
+
+						for (const field of queryAll("select, [role='combobox']")) {
+							const selected = field.tagName === "SELECT" ? (field as HTMLSelectElement).selectedOptions[0] : null;
+							add("select", field, selected?.textContent ?? field.getAttribute("placeholder") ?? undefined);
+						}
 
-					// Recurse into children (limit depth to avoid noise)
-					if (depth < 5) {
-						for (const child of Array.from(el.children)) {
-							extractElements(child, depth + 1, elements);
+						for (const table of queryAll("table, [role='table'], [role='grid']")) {
+							if (table.tagName === "TABLE" && (table as HTMLTableElement).rows.length < 2) continue;
+							add("table", table);
 						}
+
+						for (const img of queryAll("img, svg")) {
+							if (
+								hasMarker(img, /logo/i, ["class", "id", "alt", "src"]) ||
+								img.parentElement?.closest("[class*='logo' i], [id*='logo' i]")
+							) {
+								add("logo", img);
+								continue;
+							}
+
+							const rect = img.getBoundingClientRect();
+							const ratio = rect.width / rect.height;
+							if (rect.width > 160 || ratio < 0.8 || ratio > 1.25) continue;
+							const size = Math.min(rect.width, rect.height);
+							if (
+								hasMarker(img, avatarRegex, ["class", "alt", "src"]) ||
+								isCircular(img, size) ||
+								(img.parentElement !== null && isCircular(img.parentElement, size))
+							) {
+								add("avatar", img);
+							}
+						}
+
+						// CSS background images last, so they don't crowd out the rest: an element's own
+						// url() background, or a ::before/::after image covering a quarter of it
+						for (const el of queryAll("*")) {
+							if (found.length >= maxContent) break;
+							if (exclude && el.closest(exclude)) continue;
+							const bbox = getBbox(el);
+							if (bbox.width * bbox.height < minArea) continue;
+
+							const style = window.getComputedStyle(el);
+							if (style.display === "none" || style.visibility === "hidden") continue;
+							if (/url\(/i.test(style.backgroundImage)) {
+								found.push({ type: "image", bbox, background: true });
+								continue;
+							}
+
+							for (const pseudo of ["::before", "::after"]) {
+								const pseudoStyle = window.getComputedStyle(el, pseudo);
+								if (pseudoStyle.content === "none" || pseudoStyle.content === "normal") continue;
+								if (!/url\(/i.test(pseudoStyle.backgroundImage) && !/url\(/i.test(pseudoStyle.content)) continue;
+
+								const width = Math.min(parseFloat(pseudoStyle.width), bbox.width);
+								const height = Math.min(parseFloat(pseudoStyle.height), bbox.height);
+								if (!(width > 0 && height > 0) || width * height < bbox.width * bbox.height * 0.25) continue;
+
+								const positioned = pseudoStyle.position === "absolute" || pseudoStyle.position === "fixed";
+								const left = positioned ? parseFloat(pseudoStyle.left) || 0 : 0;
+								const top = positioned ? parseFloat(pseudoStyle.top) || 0 : 0;
+								found.push({
+									type: "image",
+									bbox: {
+										x: bbox.x + Math.max(0, Math.min(left, bbox.width - width)),
+										y: bbox.y + Math.max(0, Math.min(top, bbox.height - height)),
+										width,
+										height,
+									},
+									background: true,
+								});
+								break;
+							}
+						}
+
+						return found;
 					}
-				}
-
-				// Start extraction from body
-				const elements: ExtractedElement[] = [];
-				extractElements(document.body, 0, elements);
-
-				return {
-					url: window.location.href,
-					title: document.title,
-					viewport: {
-						width: window.innerWidth,
-						height: window.innerHeight,
-					},
-					fullPageHeight: Math.max(
-						document.body.scrollHeight,
-						document.documentElement.scrollHeight
-					),
-					elements,
-				};
-			},
-			{
-				minArea: MIN_ELEMENT_AREA,
-				utilityPatterns: UTILITY_CLASS_PATTERN_STRINGS,
-			}
-		);
-
-		log("dom-gatherer", "DOM extraction complete", {
-			elementCount: domData.elements.length,
-			fullPageHeight: domData.fullPageHeight,
+
+					// Start extraction from body
+					const elements: ExtractedElement[] = [];
+					extractElements(document.body, 0, elements);
+
+					return {
+						url: window.location.href,
+						title: document.title,
+						viewport: {
+							width: window.innerWidth,
+							height: window.innerHeight,
+						},
+						fullPageHeight: Math.max(
+							document.body.scrollHeight,
+							document.documentElement.scrollHeight,
+						),
+						elements,
+						contentElements: detectContent(),
+					};
+				},
+				{
+					minArea: MIN_ELEMENT_AREA,
+					utilityPatterns: [...UTILITY_CLASS_PATTERN_STRINGS, ...rules.genericClasses],
+					labelRules: rules.labels,
+					includeSelectors: rules.include,
+					excludeSelectors: rules.exclude,
+					maxContent: MAX_CONTENT_ELEMENTS,
+					videoPattern: VIDEO_EMBED_PATTERN_STRING,
+					mapPattern: MAP_EMBED_PATTERN_STRING,
+					avatarPattern: AVATAR_PATTERN_STRING,
+					overlayCoverage: OVERLAY_MIN_COVERAGE,
+					cookieBannerPattern: COOKIE_BANNER_PATTERN_STRING,
+				},
+			);
+
+			log("dom-gatherer", "DOM extraction complete", {
+				elementCount: domData.elements.length,
+				contentCount: domData.contentElements.length,
+				fullPageHeight: domData.fullPageHeight,
+			});
+			return domData as DomData;
 		});
-		return domData as DomData;
 	} catch (error) {
 		logError("dom-gatherer", "Failed to gather DOM", error);
 		throw error;
-	} finally {
-		if (browser) {
-			log("dom-gatherer", "Closing browser...");
-			await browser.close();
-			log("dom-gatherer", "Browser closed");
-		}
 	}
 }
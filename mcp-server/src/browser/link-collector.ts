@@ -0,0 +1,39 @@
+/**
+ * Link Collector
+ *
+ * Returns the absolute URLs of every `<a href>` on an open page. The site
+ * crawler runs it in the browser session that captures the page (see
+ * `onLoad` in page-session), so each page is loaded once. Filtering (same
+ * origin, include/exclude patterns) is left to the caller.
+ */
+
+import type { Page } from "playwright";
+import { log } from "../utils/logger.js";
+
+export interface CollectedLinks {
+	/** URL after redirects */
+	finalUrl: string;
+	/** Document title */
+	title: string;
+	/** Absolute link targets in document order (duplicates removed) */
+	links: string[];
+}
+
+/**
+ * List the links on a loaded page.
+ */
+export async function readLinks(page: Page): Promise<CollectedLinks> {
+	const links = await page.evaluate(() =>
+		Array.from(
+			document.querySelectorAll("a[href]"),
+			(anchor) => (anchor as HTMLAnchorElement).href,
+		),
+	);
+	const result = {
+		finalUrl: page.url(),
+		title: await page.title(),
+		links: Array.from(new Set(links)),
+	};
+	log("link-collector", `Found ${result.links.length} links`, { url: result.finalUrl });
+	return result;
+}
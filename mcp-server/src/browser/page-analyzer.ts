@@ -0,0 +1,66 @@
+/**
+ * Page Analyzer
+ *
+ * Runs the browser tool's heuristic analyzer (`src/analyzer.ts`) inside a
+ * Playwright page and returns its WireframeModel directly - no AI involved.
+ *
+ * The analyzer is bundled into an IIFE string at build time (see build.js)
+ * and injected with `page.addScriptTag`, so both tools share one
+ * implementation of the DOM heuristics.
+ */
+
+import type { AnalyzerConfig, WireframeModel } from "@wireframe-mapper/shared";
+import { log, logError } from "../utils/logger.js";
+import { type PageSessionOptions, withPage } from "./page-session.js";
+
+/** IIFE bundle of src/analyzer.ts exposing `window.WireframeAnalyzer` (injected by build.js) */
+declare const __ANALYZER_BUNDLE__: string;
+
+/** Global registered by the injected analyzer bundle */
+interface AnalyzerGlobal {
+	WireframeAnalyzer: {
+		analyzeDom(root: Document, config: Partial<AnalyzerConfig>): WireframeModel;
+	};
+}
+
+export interface AnalyzePageOptions extends PageSessionOptions {
+	/** Analyzer overrides (defaults are the browser tool's), including `rules` */
+	config?: Partial<AnalyzerConfig>;
+}
+
+/**
+ * Navigate to a URL and build a WireframeModel with the heuristic analyzer.
+ */
+export async function analyzePage(
+	url: string,
+	options: AnalyzePageOptions = {},
+): Promise<WireframeModel> {
+	const { config = {}, ...sessionOptions } = options;
+
+	log("page-analyzer", "analyzePage called", { url, ...sessionOptions, config });
+
+	try {
+		return await withPage(url, sessionOptions, async (page) => {
+			await page.addScriptTag({ content: __ANALYZER_BUNDLE__ });
+			log("page-analyzer", "Analyzer injected");
+
+			const model = await page.evaluate(
+				(analyzerConfig) =>
+					(window as unknown as AnalyzerGlobal).WireframeAnalyzer.analyzeDom(
+						document,
+						analyzerConfig,
+					),
+				config,
+			);
+
+			log("page-analyzer", "Heuristic analysis complete", {
+				nodeCount: model.nodes.length,
+				fullPageHeight: model.fullPageHeight,
+			});
+			return model;
+		});
+	} catch (error) {
+		logError("page-analyzer", "Failed to analyze page", error);
+		throw error;
+	}
+}
@@ -0,0 +1,70 @@
+/**
+ * Page Session
+ *
+ * Launches headless Chromium, opens a page at the requested viewport,
+ * navigates to a URL and hands the page to a callback. The browser is
+ * always closed afterwards, even when the callback throws.
+ *
+ * Pages bypass Content-Security-Policy, so the heuristic analyzer bundle
+ * can be injected as an inline script on sites with a strict CSP.
+ *
+ * `onLoad` lets a caller read the same loaded page before the session's own
+ * work (the site crawler collects links this way instead of loading every
+ * page twice).
+ */
+
+import { type Browser, chromium, type Page } from "playwright";
+import { log } from "../utils/logger.js";
+
+export interface PageSessionOptions {
+	/** Viewport width (default: 1280) */
+	width?: number;
+	/** Viewport height (default: 800) */
+	height?: number;
+	/** Wait for network idle before running the callback (default: true) */
+	waitForNetworkIdle?: boolean;
+	/** Runs on the loaded page before the callback */
+	onLoad?: (page: Page) => Promise<void>;
+}
+
+/**
+ * Open `url` in a fresh headless browser and run `fn` against the page.
+ */
+export async function withPage<T>(
+	url: string,
+	options: PageSessionOptions,
+	fn: (page: Page) => Promise<T>,
+): Promise<T> {
+	const { width = 1280, height = 800, waitForNetworkIdle = true, onLoad } = options;
+
+	let browser: Browser | null = null;
+
+	try {
+		log("page-session", "Launching Chromium...");
+		browser = await chromium.launch({ headless: true });
+		log("page-session", "Browser launched");
+
+		const page = await browser.newPage({
+			viewport: { width, height },
+			// Inline script injection (page-analyzer) is blocked by strict CSPs otherwise
+			bypassCSP: true,
+		});
+		log("page-session", "Page created with viewport", { width, height });
+
+		log("page-session", `Navigating to ${url}...`);
+		await page.goto(url, {
+			waitUntil: waitForNetworkIdle ? "networkidle" : "domcontentloaded",
+			timeout: 30000,
+		});
+		log("page-session", "Navigation complete");
+
+		if (onLoad) await onLoad(page);
+		return await fn(page);
+	} finally {
+		if (browser) {
+			log("page-session", "Closing browser...");
+			await browser.close();
+			log("page-session", "Browser closed");
+		}
+	}
+}
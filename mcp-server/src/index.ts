@@ -2,14 +2,26 @@
  * Wireframe Mapper MCP Server
  *
  * MCP server for AI-driven wireframe generation.
- * Uses Playwright for DOM extraction, Claude CLI for semantic understanding,
+ * Uses Playwright for DOM extraction, Claude CLI for semantic understanding
+ * (or the heuristic analyzer when no AI is available),
  * and @napi-rs/canvas (Skia-based) for rendering.
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
+import {
+	ANALYZER_PRESET_NAMES,
+	SEMANTIC_TYPES,
+	type SemanticType,
+	THEME_NAMES,
+	type ThemeName,
+} from "@wireframe-mapper/shared";
 import { wireframePage } from "./tools/wireframe-page.js";
+import { wireframeBreakpoints } from "./tools/wireframe-breakpoints.js";
+import { wireframeExport } from "./tools/wireframe-export.js";
+import { type DiffSource, wireframeDiff } from "./tools/wireframe-diff.js";
+import { wireframeSite } from "./tools/wireframe-site.js";
 import { log, logError, logSeparator, getLogPath } from "./utils/logger.js";
 
 logSeparator("MCP SERVER STARTUP");
@@ -28,10 +40,125 @@ const server = new McpServer({
 
 log("index", "MCP server instance created");
 
+/** Analyzer rules parameter, shared by every tool that captures pages */
+const rulesParam = z
+	.object({
+		presets: z
+			.array(z.string())
+			.optional()
+			.describe(`Rule packs to apply: ${ANALYZER_PRESET_NAMES.join(", ")}`),
+		labels: z
+			.array(
+				z.object({
+					pattern: z.string().describe("Case-insensitive regular expression"),
+					target: z
+						.union([
+							z.enum(["class", "id"]),
+							z.custom<`attr:${string}`>(
+								(value) => typeof value === "string" && /^attr:.+/.test(value)
+							),
+						])
+						.optional()
+						.describe("What the pattern is tested against: 'class' (default), 'id' or 'attr:<name>'"),
+					label: z.string(),
+					semanticType: z
+						.enum(SEMANTIC_TYPES as [SemanticType, ...SemanticType[]])
+						.optional(),
+				})
+			)
+			.optional()
+			.describe("Map elements matching a pattern to a label (and semantic type)"),
+		genericClasses: z
+			.array(z.string())
+			.optional()
+			.describe("Extra regular expressions for utility/layout classes to ignore"),
+		skipTags: z.array(z.string()).optional().describe("Extra tags never turned into blocks"),
+		landmarkTags: z.array(z.string()).optional().describe("Extra tags treated as landmarks"),
+		include: z
+			.array(z.string())
+			.optional()
+			.describe("CSS selectors of elements that always become blocks (plain CSS: model selectors containing ' >>> ' are not accepted)"),
+		exclude: z
+			.array(z.string())
+			.optional()
+			.describe("CSS selectors of elements to drop with their subtree, e.g. '#chat-widget' (plain CSS: model selectors containing ' >>> ' are not accepted)"),
+	})
+	.optional()
+	.describe(
+		"Analyzer rules on top of the built-in heuristics: framework presets, label patterns, and forced include/exclude selectors. Applies to every analyzer mode"
+	);
+
+const themeNameParam = z.enum(THEME_NAMES as [ThemeName, ...ThemeName[]]);
+const hexColor = z.string().regex(/^#[0-9a-f]{6}$/i, "Expected a #rrggbb color");
+
+/** Render theme parameter: a built-in theme name or a custom theme object */
+const themeParam = z
+	.union([
+		themeNameParam,
+		z.object({
+			base: themeNameParam.optional().describe("Theme the overrides apply to (default: pastel)"),
+			name: z.string().optional(),
+			backgroundColor: z.string().optional(),
+			frameColor: z.string().optional().describe("Area around pages in breakpoint composites"),
+			semanticColors: z
+				.record(z.enum(SEMANTIC_TYPES as [SemanticType, ...SemanticType[]]), hexColor)
+				.optional()
+				.describe("Block fill per semantic type"),
+			depthShade: z
+				.number()
+				.optional()
+				.describe("Fill darkening per nesting level (negative lightens)"),
+			borderColor: z.string().optional(),
+			borderWidths: z.tuple([z.number(), z.number(), z.number()]).optional(),
+			cornerRadius: z.number().min(0).optional(),
+			dashPattern: z.array(z.number().min(0)).optional(),
+			roughness: z.number().min(0).max(10).optional().describe("Stroke wobble in pixels; above 0 draws sketch strokes without hatching"),
+			fontFamily: z.string().optional(),
+			labelColor: z.string().optional(),
+			badge: z
+				.object({ background: z.string(), text: z.string(), radius: z.number().min(0) })
+				.partial()
+				.optional(),
+			placeholder: z
+				.object({
+					stroke: z.string(),
+					buttonFill: z.string(),
+					buttonStroke: z.string(),
+					buttonText: z.string(),
+					textLine: z.string(),
+				})
+				.partial()
+				.optional(),
+		}),
+	])
+	.optional()
+	.describe(
+		`Render theme: ${THEME_NAMES.join(", ")} (default: pastel), or a custom theme object overriding a base theme`
+	);
+
+/** Sketch mode parameter: on/off, or on with a fixed seed and stroke settings */
+const sketchParam = z
+	.union([
+		z.boolean(),
+		z.object({
+			seed: z.number().int().optional().describe("Same seed, same strokes (default: 1)"),
+			roughness: z.number().min(0).max(10).optional().describe("Stroke wobble in pixels (default: the theme's roughness, or 1.5)"),
+			hatchGap: z
+				.number()
+				.min(0)
+				.optional()
+				.describe("Distance between hatch lines in pixels (default: 10; 0 disables hatching)"),
+		}),
+	])
+	.optional()
+	.describe(
+		"Hand-drawn sketch style: wobbly strokes, hatched fills, handwriting font. Deterministic for a given seed (default: off)"
+	);
+
 // Register wireframe_page tool
 server.tool(
 	"wireframe_page",
-	"Generate a wireframe PNG from a live website using AI semantic understanding. Uses Playwright for DOM extraction, Claude for intelligent section identification, and renders to a clean PNG with semantic color coding.",
+	"Generate a wireframe PNG or SVG from a live website using AI semantic understanding. Uses Playwright for DOM extraction, Claude for intelligent section identification (or the built-in heuristic analyzer with analyzer='heuristic'), and renders to a clean PNG or SVG with semantic color coding.",
 	{
 		url: z.string().url().describe("URL to wireframe"),
 		viewport_width: z
@@ -42,12 +169,36 @@ server.tool(
 			.number()
 			.optional()
 			.describe("Viewport height in pixels (default: 800)"),
+		breakpoints: z
+			.array(z.number().int().min(240).max(3840))
+			.min(1)
+			.optional()
+			.describe(
+				"Capture at several viewport widths (e.g., [375, 768, 1280]). Produces a side-by-side composite image plus a JSON file with one model per breakpoint and sections linked across breakpoints. Overrides viewport_width."
+			),
 		instructions: z
 			.string()
 			.optional()
 			.describe(
 				"Special instructions for AI (e.g., 'focus on the hero section', 'highlight CTAs')"
 			),
+		analyzer: z
+			.enum(["heuristic", "ai", "hybrid"])
+			.optional()
+			.describe(
+				"Model source: 'ai' (Claude builds the model), 'heuristic' (built-in DOM analyzer, no AI needed), or 'hybrid' (heuristic structure, AI labels). Default: ai"
+			),
+		provider: z
+			.enum(["claude-cli", "http", "fixture"])
+			.optional()
+			.describe(
+				"LLM backend for 'ai'/'hybrid' modes: 'claude-cli', 'http' (OpenAI-compatible chat completions), or 'fixture' (replay recorded responses). Default: WIREFRAME_PROVIDER or claude-cli"
+			),
+		model: z
+			.string()
+			.optional()
+			.describe("LLM model name (default: WIREFRAME_MODEL or the provider's default, e.g. 'sonnet')"),
+		rules: rulesParam,
 		show_labels: z
 			.boolean()
 			.optional()
@@ -56,6 +207,54 @@ server.tool(
 			.boolean()
 			.optional()
 			.describe("Show content placeholders for images/buttons/text (default: true)"),
+		show_legend: z
+			.boolean()
+			.optional()
+			.describe("Draw a color legend explaining the semantic types below the image (default: false; not drawn on breakpoint composites)"),
+		theme: themeParam,
+		sketch: sketchParam,
+		show_fold: z
+			.boolean()
+			.optional()
+			.describe("Draw a dashed fold line at the bottom of the first viewport (default: false)"),
+		show_floating: z
+			.boolean()
+			.optional()
+			.describe("Draw fixed, sticky and overlay elements at their scrolled-to-top position with a drop shadow and tag; false leaves them out (default: true)"),
+		area: z
+			.enum(["page", "fold", "slices"])
+			.optional()
+			.describe(
+				"Part of the page to render: 'page' (full page), 'fold' (first viewport only), or 'slices' (one image per viewport height, saved as <name>-1.png, <name>-2.png, ...). Default: page"
+			),
+		y_range: z
+			.object({
+				y: z.number().min(0).describe("Top of the range in page pixels"),
+				height: z.number().positive().describe("Height of the range in pixels"),
+			})
+			.optional()
+			.describe("Render only this vertical part of the page (overrides area)"),
+		subtree: z
+			.object({
+				node_id: z.string().optional().describe("Id of the section to render"),
+				label: z
+					.string()
+					.optional()
+					.describe("Render the first section whose label contains this text (case-insensitive)"),
+				padding: z
+					.number()
+					.min(0)
+					.optional()
+					.describe("Space around the section in pixels (default: 0)"),
+			})
+			.optional()
+			.describe(
+				"Render only one section and its descendants (e.g. the pricing section), cropped to its box. Also saves the section's model as <name>.json. Ignored with breakpoints."
+			),
+		output_format: z
+			.enum(["png", "svg"])
+			.optional()
+			.describe("Output image format: 'png' or 'svg' (default: png)"),
 		output_path: z
 			.string()
 			.optional()
@@ -65,9 +264,23 @@ server.tool(
 		url,
 		viewport_width,
 		viewport_height,
+		breakpoints,
 		instructions,
+		analyzer,
+		provider,
+		model,
+		rules,
 		show_labels,
 		show_content_hints,
+		show_legend,
+		theme,
+		sketch,
+		show_fold,
+		show_floating,
+		area,
+		y_range,
+		subtree,
+		output_format,
 		output_path,
 	}) => {
 		logSeparator("TOOL INVOCATION: wireframe_page");
@@ -75,24 +288,75 @@ server.tool(
 			url,
 			viewport_width,
 			viewport_height,
+			breakpoints,
 			instructions,
+			analyzer,
+			provider,
+			model,
+			rules,
 			show_labels,
 			show_content_hints,
+			show_legend,
+			theme,
+			sketch,
+			show_fold,
+			show_floating,
+			area,
+			y_range,
+			subtree,
+			output_format,
 			output_path,
 		});
 
 		const startTime = Date.now();
 		try {
-			log("index", "Calling wireframePage...");
-			const result = await wireframePage({
+			const options = {
 				url,
 				viewportWidth: viewport_width,
 				viewportHeight: viewport_height,
 				instructions,
+				analyzer,
+				provider,
+				model,
+				rules,
 				showLabels: show_labels,
 				showContentHints: show_content_hints,
+				showLegend: show_legend,
+				theme,
+				sketch,
+				showFold: show_fold,
+				showFloating: show_floating,
+				area,
+				range: y_range,
+				subtree: subtree && {
+					nodeId: subtree.node_id,
+					label: subtree.label,
+					padding: subtree.padding,
+				},
+				format: output_format,
 				outputPath: output_path,
-			});
+			};
+
+			if (breakpoints) {
+				log("index", "Calling wireframeBreakpoints...", { breakpoints });
+				const result = await wireframeBreakpoints({ ...options, breakpoints });
+				log("index", `Tool completed successfully in ${Date.now() - startTime}ms`, {
+					imagePath: result.imagePath,
+					modelPath: result.modelPath,
+				});
+
+				return {
+					content: [
+						{
+							type: "text" as const,
+							text: `${result.summary}\n\nSaved to: ${result.imagePath}\nModels: ${result.modelPath}\n\nBreakpoints:\n${result.sections.join("\n")}`,
+						},
+					],
+				};
+			}
+
+			log("index", "Calling wireframePage...");
+			const result = await wireframePage(options);
 
 			const duration = Date.now() - startTime;
 			log("index", `Tool completed successfully in ${duration}ms`, {
@@ -100,11 +364,16 @@ server.tool(
 				sectionsCount: result.sections.length,
 			});
 
+			const savedTo =
+				result.imagePaths.length > 1
+					? `Saved ${result.imagePaths.length} slices:\n${result.imagePaths.join("\n")}`
+					: `Saved to: ${result.imagePath}`;
+			const modelLine = result.modelPath ? `\nModel: ${result.modelPath}` : "";
 			return {
 				content: [
 					{
 						type: "text" as const,
-						text: `${result.summary}\n\nSaved to: ${result.imagePath}\n\nSections:\n${result.sections.join("\n")}`,
+						text: `${result.summary}\n\n${savedTo}${modelLine}\n\nSections:\n${result.sections.join("\n")}`,
 					},
 				],
 			};
@@ -127,6 +396,370 @@ server.tool(
 	}
 );
 
+// Register wireframe_export tool
+server.tool(
+	"wireframe_export",
+	"Export a live website's layout as an editable design file instead of an image: an Excalidraw scene (.excalidraw) or Figma plugin-importable JSON with frames nested like the page sections.",
+	{
+		url: z.string().url().describe("URL to wireframe"),
+		format: z
+			.enum(["excalidraw", "figma"])
+			.describe("Design file format: 'excalidraw' or 'figma'"),
+		viewport_width: z
+			.number()
+			.optional()
+			.describe("Viewport width in pixels (default: 1280)"),
+		viewport_height: z
+			.number()
+			.optional()
+			.describe("Viewport height in pixels (default: 800)"),
+		instructions: z
+			.string()
+			.optional()
+			.describe("Special instructions for AI (e.g., 'focus on the hero section')"),
+		analyzer: z
+			.enum(["heuristic", "ai", "hybrid"])
+			.optional()
+			.describe(
+				"Model source: 'ai' (Claude builds the model), 'heuristic' (built-in DOM analyzer, no AI needed), or 'hybrid' (heuristic structure, AI labels). Default: ai"
+			),
+		provider: z
+			.enum(["claude-cli", "http", "fixture"])
+			.optional()
+			.describe(
+				"LLM backend for 'ai'/'hybrid' modes: 'claude-cli', 'http' (OpenAI-compatible chat completions), or 'fixture' (replay recorded responses). Default: WIREFRAME_PROVIDER or claude-cli"
+			),
+		model: z
+			.string()
+			.optional()
+			.describe("LLM model name (default: WIREFRAME_MODEL or the provider's default, e.g. 'sonnet')"),
+		rules: rulesParam,
+		output_path: z
+			.string()
+			.optional()
+			.describe("Output file path (default: auto-generated in .wireframe/)"),
+	},
+	async ({
+		url,
+		format,
+		viewport_width,
+		viewport_height,
+		instructions,
+		analyzer,
+		provider,
+		model,
+		rules,
+		output_path,
+	}) => {
+		logSeparator("TOOL INVOCATION: wireframe_export");
+		log("index", "Tool called with params", {
+			url,
+			format,
+			viewport_width,
+			viewport_height,
+			instructions,
+			analyzer,
+			provider,
+			model,
+			rules,
+			output_path,
+		});
+
+		const startTime = Date.now();
+		try {
+			const result = await wireframeExport({
+				url,
+				format,
+				viewportWidth: viewport_width,
+				viewportHeight: viewport_height,
+				instructions,
+				analyzer,
+				provider,
+				model,
+				rules,
+				outputPath: output_path,
+			});
+
+			log("index", `Tool completed successfully in ${Date.now() - startTime}ms`, {
+				filePath: result.filePath,
+			});
+
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: `${result.summary}\n\nSaved to: ${result.filePath}`,
+					},
+				],
+			};
+		} catch (error) {
+			logError("index", `Tool failed after ${Date.now() - startTime}ms`, error);
+
+			const message =
+				error instanceof Error ? error.message : "Unknown error occurred";
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: `Failed to export wireframe: ${message}`,
+					},
+				],
+				isError: true,
+			};
+		}
+	}
+);
+
+// Register wireframe_diff tool
+server.tool(
+	"wireframe_diff",
+	"Compare two page layouts (before vs after a redesign). Each side is a live URL or a saved WireframeModel JSON file. Nodes are matched by label and geometry and classified as added, removed, moved, resized or relabeled; writes a color-coded diff image plus a JSON change list.",
+	{
+		before_url: z.string().url().optional().describe("URL of the 'before' page"),
+		before_path: z
+			.string()
+			.optional()
+			.describe("Saved WireframeModel JSON for the 'before' layout (instead of before_url)"),
+		after_url: z.string().url().optional().describe("URL of the 'after' page"),
+		after_path: z
+			.string()
+			.optional()
+			.describe("Saved WireframeModel JSON for the 'after' layout (instead of after_url)"),
+		viewport_width: z
+			.number()
+			.optional()
+			.describe("Viewport width in pixels for URL captures (default: 1280)"),
+		viewport_height: z
+			.number()
+			.optional()
+			.describe("Viewport height in pixels for URL captures (default: 800)"),
+		analyzer: z
+			.enum(["heuristic", "ai", "hybrid"])
+			.optional()
+			.describe("Model source for URL captures (default: ai)"),
+		provider: z
+			.enum(["claude-cli", "http", "fixture"])
+			.optional()
+			.describe("LLM backend for 'ai'/'hybrid' captures (default: WIREFRAME_PROVIDER or claude-cli)"),
+		model: z.string().optional().describe("LLM model name"),
+		rules: rulesParam,
+		tolerance: z
+			.number()
+			.optional()
+			.describe("Ignore position/size changes up to this many pixels (default: 8)"),
+		output_format: z
+			.enum(["png", "svg"])
+			.optional()
+			.describe("Output image format: 'png' or 'svg' (default: png)"),
+		output_path: z
+			.string()
+			.optional()
+			.describe("Output image path (default: auto-generated in .wireframe/)"),
+	},
+	async (params) => {
+		logSeparator("TOOL INVOCATION: wireframe_diff");
+		log("index", "Tool called with params", params);
+
+		const startTime = Date.now();
+		try {
+			const source = (side: "before" | "after", url?: string, path?: string): DiffSource => {
+				if (url && path) throw new Error(`Pass either ${side}_url or ${side}_path, not both`);
+				if (url) return { url };
+				if (path) return { modelPath: path };
+				throw new Error(`Missing ${side}_url or ${side}_path`);
+			};
+
+			const result = await wireframeDiff({
+				before: source("before", params.before_url, params.before_path),
+				after: source("after", params.after_url, params.after_path),
+				viewportWidth: params.viewport_width,
+				viewportHeight: params.viewport_height,
+				analyzer: params.analyzer,
+				provider: params.provider,
+				model: params.model,
+				rules: params.rules,
+				tolerance: params.tolerance,
+				format: params.output_format,
+				outputPath: params.output_path,
+			});
+
+			log("index", `Tool completed successfully in ${Date.now() - startTime}ms`, {
+				imagePath: result.imagePath,
+				diffPath: result.diffPath,
+			});
+
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: `${result.summary}\n\nSaved to: ${result.imagePath}\nDiff: ${result.diffPath}\n\nChanges:\n${result.changes.join("\n") || "(none)"}`,
+					},
+				],
+			};
+		} catch (error) {
+			logError("index", `Tool failed after ${Date.now() - startTime}ms`, error);
+
+			const message =
+				error instanceof Error ? error.message : "Unknown error occurred";
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: `Failed to diff wireframes: ${message}`,
+					},
+				],
+				isError: true,
+			};
+		}
+	}
+);
+
+// Register wireframe_site tool
+server.tool(
+	"wireframe_site",
+	"Crawl a website from a start URL, following same-origin links up to a depth and page limit, and wireframe every page. Writes one image + model JSON per page, an index.json with the link graph between pages, and an index.html contact sheet.",
+	{
+		url: z.string().url().describe("Start URL"),
+		max_depth: z
+			.number()
+			.int()
+			.min(0)
+			.max(10)
+			.optional()
+			.describe("Maximum link distance from the start URL (default: 2)"),
+		max_pages: z
+			.number()
+			.int()
+			.min(1)
+			.max(200)
+			.optional()
+			.describe("Maximum number of pages to wireframe (default: 20)"),
+		include: z
+			.array(z.string())
+			.optional()
+			.describe(
+				"Only crawl URLs matching one of these patterns. '*' matches anything; patterns match the path + query (e.g., '/blog/*') or the full URL when they start with a scheme"
+			),
+		exclude: z
+			.array(z.string())
+			.optional()
+			.describe("Never crawl URLs matching any of these patterns (e.g., '/tag/*', '*?page=*')"),
+		viewport_width: z
+			.number()
+			.optional()
+			.describe("Viewport width in pixels (default: 1280)"),
+		viewport_height: z
+			.number()
+			.optional()
+			.describe("Viewport height in pixels (default: 800)"),
+		instructions: z
+			.string()
+			.optional()
+			.describe("Special instructions for AI, applied to every page"),
+		analyzer: z
+			.enum(["heuristic", "ai", "hybrid"])
+			.optional()
+			.describe(
+				"Model source: 'ai' (Claude builds the model), 'heuristic' (built-in DOM analyzer, no AI needed, fastest for large crawls), or 'hybrid' (heuristic structure, AI labels). Default: ai"
+			),
+		provider: z
+			.enum(["claude-cli", "http", "fixture"])
+			.optional()
+			.describe("LLM backend for 'ai'/'hybrid' modes (default: WIREFRAME_PROVIDER or claude-cli)"),
+		model: z.string().optional().describe("LLM model name"),
+		rules: rulesParam,
+		show_labels: z
+			.boolean()
+			.optional()
+			.describe("Show section labels (default: true)"),
+		show_content_hints: z
+			.boolean()
+			.optional()
+			.describe("Show content placeholders for images/buttons/text (default: true)"),
+		show_legend: z
+			.boolean()
+			.optional()
+			.describe("Draw a color legend explaining the semantic types below the image on every page image (default: false)"),
+		theme: themeParam,
+		sketch: sketchParam,
+		show_fold: z
+			.boolean()
+			.optional()
+			.describe("Draw a dashed fold line at the bottom of the first viewport on every page image (default: false)"),
+		show_floating: z
+			.boolean()
+			.optional()
+			.describe("Draw fixed, sticky and overlay elements with a drop shadow and tag on every page image; false leaves them out (default: true)"),
+		output_format: z
+			.enum(["png", "svg"])
+			.optional()
+			.describe("Page image format: 'png' or 'svg' (default: png)"),
+		output_dir: z
+			.string()
+			.optional()
+			.describe("Output directory (default: auto-generated in .wireframe/)"),
+	},
+	async (params) => {
+		logSeparator("TOOL INVOCATION: wireframe_site");
+		log("index", "Tool called with params", params);
+
+		const startTime = Date.now();
+		try {
+			const result = await wireframeSite({
+				url: params.url,
+				maxDepth: params.max_depth,
+				maxPages: params.max_pages,
+				include: params.include,
+				exclude: params.exclude,
+				viewportWidth: params.viewport_width,
+				viewportHeight: params.viewport_height,
+				instructions: params.instructions,
+				analyzer: params.analyzer,
+				provider: params.provider,
+				model: params.model,
+				rules: params.rules,
+				showLabels: params.show_labels,
+				showContentHints: params.show_content_hints,
+				showLegend: params.show_legend,
+				theme: params.theme,
+				sketch: params.sketch,
+				showFold: params.show_fold,
+				showFloating: params.show_floating,
+				format: params.output_format,
+				outputDir: params.output_dir,
+			});
+
+			log("index", `Tool completed successfully in ${Date.now() - startTime}ms`, {
+				indexPath: result.indexPath,
+				contactSheetPath: result.contactSheetPath,
+			});
+
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: `${result.summary}\n\nContact sheet: ${result.contactSheetPath}\nIndex: ${result.indexPath}\n\nPages:\n${result.pages.join("\n")}`,
+					},
+				],
+			};
+		} catch (error) {
+			logError("index", `Tool failed after ${Date.now() - startTime}ms`, error);
+
+			const message =
+				error instanceof Error ? error.message : "Unknown error occurred";
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: `Failed to crawl site: ${message}`,
+					},
+				],
+				isError: true,
+			};
+		}
+	}
+);
+
 // Start server
 async function main() {
 	log("index", "Creating StdioServerTransport...");
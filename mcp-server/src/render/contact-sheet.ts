@@ -0,0 +1,179 @@
+/**
+ * Contact Sheet Renderer
+ *
+ * Renders a crawled site index as a self-contained HTML page: a link graph
+ * (pages laid out in columns by crawl depth) followed by a grid of page
+ * wireframes with their outgoing and incoming links.
+ *
+ * Images are referenced relative to the HTML file, so the output directory
+ * can be zipped and shared as is.
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { basename, dirname } from "node:path";
+import { escapeXml } from "@wireframe-mapper/shared";
+import type { SiteIndex, SitePage } from "../types/site-index.js";
+
+/** Link graph node size and spacing */
+const GRAPH_NODE_WIDTH = 200;
+const GRAPH_NODE_HEIGHT = 32;
+const GRAPH_COLUMN_GAP = 80;
+const GRAPH_ROW_GAP = 16;
+const GRAPH_PADDING = 20;
+
+const STYLES = `
+body { margin: 0; padding: 24px; font-family: system-ui, sans-serif; background: #f5f5f5; color: #333; }
+h1 { margin: 0 0 4px; font-size: 20px; }
+.meta { margin: 0 0 24px; color: #666; font-size: 13px; }
+.graph { overflow-x: auto; margin-bottom: 32px; background: #fff; border: 1px solid #ddd; }
+.graph a rect { fill: #fff; stroke: #666; }
+.graph a:hover rect { fill: #e3f2fd; }
+.graph .error rect { stroke: #c62828; stroke-dasharray: 4 3; }
+.graph text { font-size: 12px; fill: #333; }
+.graph line { stroke: #90a4ae; }
+.grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(280px, 1fr)); gap: 20px; }
+.card { background: #fff; border: 1px solid #ddd; padding: 12px; }
+.card:target { outline: 3px solid #1565c0; }
+.card h2 { margin: 0 0 4px; font-size: 14px; }
+.card .url { display: block; margin-bottom: 8px; font-size: 12px; color: #1565c0; word-break: break-all; }
+.thumb { display: block; height: 360px; overflow: hidden; border: 1px solid #eee; background: #fafafa; }
+.thumb img { width: 100%; }
+.card p { margin: 6px 0 0; font-size: 12px; color: #666; }
+.card .error { color: #c62828; }
+`;
+
+/**
+ * Short display name for a page: its title, or its path.
+ */
+function pageName(page: SitePage): string {
+	if (page.title) return page.title;
+	const { pathname, search } = new URL(page.url);
+	return pathname + search;
+}
+
+function truncate(text: string, max: number): string {
+	return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * SVG link graph: one column per crawl depth, edges as arrows.
+ */
+function renderGraph(index: SiteIndex): string {
+	const columns = new Map<number, SitePage[]>();
+	for (const page of index.pages) {
+		const column = columns.get(page.depth) ?? [];
+		column.push(page);
+		columns.set(page.depth, column);
+	}
+
+	const positions = new Map<string, { x: number; y: number }>();
+	let width = 0;
+	let height = 0;
+	for (const [depth, pages] of columns) {
+		const x = GRAPH_PADDING + depth * (GRAPH_NODE_WIDTH + GRAPH_COLUMN_GAP);
+		pages.forEach((page, row) => {
+			const y = GRAPH_PADDING + row * (GRAPH_NODE_HEIGHT + GRAPH_ROW_GAP);
+			positions.set(page.id, { x, y });
+			width = Math.max(width, x + GRAPH_NODE_WIDTH + GRAPH_PADDING);
+			height = Math.max(height, y + GRAPH_NODE_HEIGHT + GRAPH_PADDING);
+		});
+	}
+
+	const edges = index.edges.map(({ from, to }) => {
+		const source = positions.get(from);
+		const target = positions.get(to);
+		if (!source || !target) return "";
+		// Forward edges leave from the right edge; back and same-column edges from the left
+		const forward = target.x > source.x;
+		const x1 = forward ? source.x + GRAPH_NODE_WIDTH : source.x;
+		const x2 = forward ? target.x : target.x + (target.x < source.x ? GRAPH_NODE_WIDTH : 0);
+		return `<line x1="${x1}" y1="${source.y + GRAPH_NODE_HEIGHT / 2}" x2="${x2}" y2="${target.y + GRAPH_NODE_HEIGHT / 2}" marker-end="url(#arrow)"/>`;
+	});
+
+	const nodes = index.pages.map((page) => {
+		const { x, y } = positions.get(page.id) ?? { x: 0, y: 0 };
+		return (
+			`<a href="#${page.id}"${page.error ? ` class="error"` : ""}>` +
+			`<title>${escapeXml(page.url)}</title>` +
+			`<rect x="${x}" y="${y}" width="${GRAPH_NODE_WIDTH}" height="${GRAPH_NODE_HEIGHT}" rx="4"/>` +
+			`<text x="${x + 10}" y="${y + GRAPH_NODE_HEIGHT / 2}" dominant-baseline="central">${escapeXml(truncate(pageName(page), 28))}</text>` +
+			`</a>`
+		);
+	});
+
+	return (
+		`<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">` +
+		`<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse"><path d="M0 0L10 5L0 10z" fill="#90a4ae"/></marker></defs>` +
+		`<g>${edges.join("")}</g><g>${nodes.join("")}</g></svg>`
+	);
+}
+
+/**
+ * Comma-separated in-page links to other cards.
+ */
+function pageLinks(ids: string[], pagesById: Map<string, SitePage>): string {
+	if (ids.length === 0) return "none";
+	return ids
+		.map((id) => {
+			const page = pagesById.get(id);
+			return page ? `<a href="#${id}">${escapeXml(truncate(pageName(page), 40))}</a>` : "";
+		})
+		.join(", ");
+}
+
+function renderCard(page: SitePage, index: SiteIndex, pagesById: Map<string, SitePage>): string {
+	const outgoing = index.edges.filter((edge) => edge.from === page.id).map((edge) => edge.to);
+	const incoming = index.edges.filter((edge) => edge.to === page.id).map((edge) => edge.from);
+	const image = page.imagePath
+		? `<a class="thumb" href="${escapeXml(basename(page.imagePath))}"><img src="${escapeXml(basename(page.imagePath))}" alt="Wireframe of ${escapeXml(page.url)}" loading="lazy"></a>`
+		: "";
+	const details = page.error
+		? `<p class="error">${escapeXml(page.error)}</p>`
+		: `<p>${page.sectionCount} sections · ${page.width}x${page.height}px · depth ${page.depth}</p>`;
+
+	return `<section class="card" id="${page.id}">
+<h2>${escapeXml(pageName(page))}</h2>
+<a class="url" href="${escapeXml(page.url)}">${escapeXml(page.url)}</a>
+${image}
+${details}
+<p>Links to: ${pageLinks(outgoing, pagesById)}</p>
+<p>Linked from: ${pageLinks(incoming, pagesById)}</p>
+</section>`;
+}
+
+/**
+ * Render the contact sheet HTML for a site index.
+ */
+export function renderContactSheet(index: SiteIndex): string {
+	const pagesById = new Map(index.pages.map((page) => [page.id, page]));
+	const failed = index.pages.filter((page) => page.error).length;
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Wireframes: ${escapeXml(index.startUrl)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>Wireframes: ${escapeXml(index.startUrl)}</h1>
+<p class="meta">${index.pages.length} pages${failed > 0 ? ` (${failed} failed)` : ""} · ${index.edges.length} links · depth ≤ ${index.maxDepth} · ${index.skipped} pages not crawled · ${escapeXml(index.createdAt)}</p>
+<div class="graph">${renderGraph(index)}</div>
+<div class="grid">
+${index.pages.map((page) => renderCard(page, index, pagesById)).join("\n")}
+</div>
+</body>
+</html>
+`;
+}
+
+/**
+ * Write the contact sheet HTML to a file.
+ */
+export async function renderContactSheetToFile(
+	index: SiteIndex,
+	outputPath: string,
+): Promise<void> {
+	await mkdir(dirname(outputPath), { recursive: true });
+	await writeFile(outputPath, renderContactSheet(index), "utf-8");
+}
@@ -0,0 +1,85 @@
+/**
+ * SVG Renderer (Server-Side)
+ *
+ * Writes a WireframeModel as an SVG document using the shared render core.
+ * Uses the same defaults and Skia text metrics as the PNG renderer so both
+ * formats show identical content.
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import {
+	type BreakpointCapture,
+	type ModelDiff,
+	type RendererConfig,
+	renderCompositeSvg,
+	renderDiffSvg,
+	renderWireframeSvg,
+	type WireframeModel,
+} from "@wireframe-mapper/shared";
+import { createCanvasTextMeasurer, DEFAULT_RENDERER_CONFIG } from "./canvas-renderer.js";
+
+/**
+ * Render wireframe to an SVG string.
+ */
+export function renderToSvg(model: WireframeModel, config: Partial<RendererConfig> = {}): string {
+	return renderWireframeSvg(
+		model,
+		{ ...DEFAULT_RENDERER_CONFIG, ...config },
+		createCanvasTextMeasurer(),
+	);
+}
+
+/**
+ * Render wireframe to an SVG file.
+ */
+export async function renderToSvgFile(
+	model: WireframeModel,
+	outputPath: string,
+	config: Partial<RendererConfig> = {},
+): Promise<void> {
+	const svg = renderToSvg(model, config);
+
+	// Ensure output directory exists
+	await mkdir(dirname(outputPath), { recursive: true });
+
+	await writeFile(outputPath, svg, "utf-8");
+}
+
+/**
+ * Render multi-breakpoint captures side by side to an SVG file.
+ */
+export async function renderCompositeToSvgFile(
+	captures: BreakpointCapture[],
+	outputPath: string,
+	config: Partial<RendererConfig> = {},
+): Promise<void> {
+	const svg = renderCompositeSvg(
+		captures,
+		{ ...DEFAULT_RENDERER_CONFIG, ...config },
+		createCanvasTextMeasurer(),
+	);
+
+	await mkdir(dirname(outputPath), { recursive: true });
+	await writeFile(outputPath, svg, "utf-8");
+}
+
+/**
+ * Render a structural diff to an SVG file.
+ */
+export async function renderDiffToSvgFile(
+	after: WireframeModel,
+	diff: ModelDiff,
+	outputPath: string,
+	config: Partial<RendererConfig> = {},
+): Promise<void> {
+	const svg = renderDiffSvg(
+		after,
+		diff,
+		{ ...DEFAULT_RENDERER_CONFIG, ...config },
+		createCanvasTextMeasurer(),
+	);
+
+	await mkdir(dirname(outputPath), { recursive: true });
+	await writeFile(outputPath, svg, "utf-8");
+}
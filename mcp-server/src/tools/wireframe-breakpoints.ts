@@ -0,0 +1,105 @@
+/**
+ * Wireframe Breakpoints Tool
+ *
+ * Captures a URL at several viewport widths and writes:
+ * - A side-by-side composite image (PNG or SVG), narrowest first
+ * - A JSON file with one WireframeModel per breakpoint and the sections
+ *   linked across breakpoints (see `linkBreakpoints`)
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { type BreakpointCapture, buildBreakpointSet } from "@wireframe-mapper/shared";
+import { renderCompositeToFile } from "../render/canvas-renderer.js";
+import { renderCompositeToSvgFile } from "../render/svg-renderer.js";
+import { log } from "../utils/logger.js";
+import {
+	captureModel,
+	type WireframePageOptions,
+	type WireframePageResult,
+} from "./wireframe-page.js";
+
+export interface WireframeBreakpointsOptions extends WireframePageOptions {
+	/** Viewport widths to capture (e.g. [375, 768, 1280]) */
+	breakpoints: number[];
+}
+
+export interface WireframeBreakpointsResult extends WireframePageResult {
+	/** Path to the JSON file with per-breakpoint models and links */
+	modelPath: string;
+}
+
+/**
+ * JSON path written next to the composite image.
+ */
+function modelPathFor(imagePath: string): string {
+	return `${imagePath.replace(/\.(png|svg)$/i, "")}.breakpoints.json`;
+}
+
+/**
+ * Capture a URL at every breakpoint and render a side-by-side composite.
+ */
+export async function wireframeBreakpoints(
+	options: WireframeBreakpointsOptions,
+): Promise<WireframeBreakpointsResult> {
+	const {
+		showLabels = true,
+		showContentHints = true,
+		theme,
+		sketch,
+		showFold = false,
+		showFloating = true,
+		format = "png",
+	} = options;
+	const widths = Array.from(new Set(options.breakpoints)).sort((a, b) => a - b);
+	const startTime = Date.now();
+
+	// 1-2. Capture each breakpoint (sequential: one browser at a time)
+	const captures: BreakpointCapture[] = [];
+	for (const width of widths) {
+		log("wireframe-breakpoints", `Capturing breakpoint ${width}px...`);
+		const model = await captureModel({ ...options, viewportWidth: width });
+		captures.push({ width, model });
+	}
+
+	const set = buildBreakpointSet(captures);
+	log(
+		"wireframe-breakpoints",
+		`Linked ${set.links.length} sections across ${widths.length} breakpoints`,
+	);
+
+	// 3. Render composite
+	const imagePath =
+		options.outputPath || join(process.cwd(), ".wireframe", `wireframe-${Date.now()}.${format}`);
+	const renderConfig = { showLabels, showContentHints, theme, sketch, showFold, showFloating };
+	if (format === "svg") {
+		await renderCompositeToSvgFile(set.captures, imagePath, renderConfig);
+	} else {
+		await renderCompositeToFile(set.captures, imagePath, renderConfig);
+	}
+
+	// 4. Write models + links
+	const modelPath = modelPathFor(imagePath);
+	await mkdir(dirname(modelPath), { recursive: true });
+	await writeFile(modelPath, JSON.stringify(set, null, 2), "utf-8");
+	log("wireframe-breakpoints", `Done in ${Date.now() - startTime}ms`, { imagePath, modelPath });
+
+	const sections = set.captures.map(
+		({ width, model }) =>
+			`${width}px: ${model.nodes.length} sections (${model.fullPageHeight}px tall)`,
+	);
+	const partial = set.links.filter((link) => Object.keys(link.nodeIds).length < widths.length);
+	if (partial.length > 0) {
+		sections.push(
+			`Sections missing at some breakpoints: ${partial.map((link) => link.label || link.key).join(", ")}`,
+		);
+	}
+
+	return {
+		imagePath,
+		imagePaths: [imagePath],
+		modelPath,
+		summary: `Generated ${widths.length} breakpoint wireframes (${widths.join("/")}px) with ${set.links.length} linked sections`,
+		sections,
+	};
+}
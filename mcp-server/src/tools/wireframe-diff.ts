@@ -0,0 +1,131 @@
+/**
+ * Wireframe Diff Tool
+ *
+ * Compares two layouts ("before vs after") given as live URLs or saved
+ * WireframeModel JSON files, and writes:
+ * - A color-coded diff image (after layout with change outlines)
+ * - `<output>.diff.json` listing every node's status and changes
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import {
+	describeNodeDiff,
+	diffModels,
+	formatSchemaIssues,
+	validateWireframeModel,
+	type WireframeModel,
+} from "@wireframe-mapper/shared";
+import { renderDiffToFile } from "../render/canvas-renderer.js";
+import { renderDiffToSvgFile } from "../render/svg-renderer.js";
+import { log } from "../utils/logger.js";
+import { type CaptureOptions, captureModel, type OutputFormat } from "./wireframe-page.js";
+
+/**
+ * One side of the comparison: a URL to capture or a saved model file.
+ */
+export type DiffSource = { url: string } | { modelPath: string };
+
+export interface WireframeDiffOptions extends Omit<CaptureOptions, "url"> {
+	before: DiffSource;
+	after: DiffSource;
+	/** Position/size changes at or below this many pixels are ignored (default: 8) */
+	tolerance?: number;
+	/** Show labels (default: true) */
+	showLabels?: boolean;
+	/** Output image format (default: "png") */
+	format?: OutputFormat;
+	/** Output file path (default: auto-generated in .wireframe/) */
+	outputPath?: string;
+}
+
+export interface WireframeDiffResult {
+	/** Path to the diff image */
+	imagePath: string;
+	/** Path to the diff JSON */
+	diffPath: string;
+	summary: string;
+	/** One line per changed node */
+	changes: string[];
+}
+
+/**
+ * Load and validate a saved WireframeModel file.
+ */
+async function loadModel(modelPath: string): Promise<WireframeModel> {
+	const raw = JSON.parse(await readFile(modelPath, "utf-8"));
+	const result = validateWireframeModel(raw);
+	if (!result.model) {
+		throw new Error(
+			`${modelPath} is not a valid WireframeModel:\n${formatSchemaIssues(result.errors)}`,
+		);
+	}
+	if (result.errors.length > 0) {
+		log(
+			"wireframe-diff",
+			`Loaded ${modelPath} with ${result.errors.length} schema errors`,
+			formatSchemaIssues(result.errors),
+		);
+	}
+	return result.model;
+}
+
+function resolveSource(source: DiffSource, options: WireframeDiffOptions): Promise<WireframeModel> {
+	return "url" in source
+		? captureModel({ ...options, url: source.url })
+		: loadModel(source.modelPath);
+}
+
+/**
+ * Diff two layouts and render the result.
+ */
+export async function wireframeDiff(options: WireframeDiffOptions): Promise<WireframeDiffResult> {
+	const { showLabels = true, format = "png", tolerance } = options;
+
+	log("wireframe-diff", "Resolving before/after models...", {
+		before: options.before,
+		after: options.after,
+	});
+	const before = await resolveSource(options.before, options);
+	const after = await resolveSource(options.after, options);
+
+	const diff = diffModels(before, after, { tolerance });
+	log("wireframe-diff", "Diff computed", diff.counts);
+
+	const imagePath =
+		options.outputPath ||
+		join(process.cwd(), ".wireframe", `wireframe-diff-${Date.now()}.${format}`);
+	const renderConfig = { showLabels, showContentHints: false };
+	if (format === "svg") {
+		await renderDiffToSvgFile(after, diff, imagePath, renderConfig);
+	} else {
+		await renderDiffToFile(after, diff, imagePath, renderConfig);
+	}
+
+	// Compact JSON: ids and boxes instead of whole subtrees
+	const diffPath = `${imagePath.replace(/\.(png|svg)$/i, "")}.diff.json`;
+	const json = {
+		before: before.pageUrl,
+		after: after.pageUrl,
+		counts: diff.counts,
+		entries: diff.entries.map((entry) => ({
+			status: entry.status,
+			changes: entry.changes,
+			label: (entry.after ?? entry.before)?.label,
+			beforeId: entry.before?.id,
+			afterId: entry.after?.id,
+			beforeBbox: entry.before?.bbox,
+			afterBbox: entry.after?.bbox,
+		})),
+	};
+	await mkdir(dirname(diffPath), { recursive: true });
+	await writeFile(diffPath, JSON.stringify(json, null, 2), "utf-8");
+
+	const { added, removed, changed, unchanged } = diff.counts;
+	return {
+		imagePath,
+		diffPath,
+		summary: `Diff: ${added} added, ${removed} removed, ${changed} changed, ${unchanged} unchanged`,
+		changes: diff.entries.filter((entry) => entry.status !== "unchanged").map(describeNodeDiff),
+	};
+}
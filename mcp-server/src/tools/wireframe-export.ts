@@ -0,0 +1,62 @@
+/**
+ * Wireframe Export Tool
+ *
+ * Captures a WireframeModel from a URL and converts it into an editable
+ * design file instead of a flat image:
+ * - "excalidraw": `.excalidraw` scene (rectangles, labels, grouped children)
+ * - "figma": Figma plugin-importable JSON (frames nested by children)
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { toExcalidrawScene, toFigmaDocument } from "@wireframe-mapper/shared";
+import { log } from "../utils/logger.js";
+import { type CaptureOptions, captureModel } from "./wireframe-page.js";
+
+/** Editable design file format */
+export type DesignFormat = "excalidraw" | "figma";
+
+/** File extension per design format */
+const FORMAT_EXTENSIONS: Record<DesignFormat, string> = {
+	excalidraw: "excalidraw",
+	figma: "figma.json",
+};
+
+export interface WireframeExportOptions extends CaptureOptions {
+	/** Design file format */
+	format: DesignFormat;
+	/** Output file path (default: auto-generated in .wireframe/) */
+	outputPath?: string;
+}
+
+export interface WireframeExportResult {
+	/** Path to the generated design file */
+	filePath: string;
+	/** Summary of the export */
+	summary: string;
+}
+
+/**
+ * Capture a URL and export it as an editable design file.
+ */
+export async function wireframeExport(
+	options: WireframeExportOptions,
+): Promise<WireframeExportResult> {
+	const { format } = options;
+	const model = await captureModel(options);
+
+	const document = format === "excalidraw" ? toExcalidrawScene(model) : toFigmaDocument(model);
+
+	const filePath =
+		options.outputPath ||
+		join(process.cwd(), ".wireframe", `wireframe-${Date.now()}.${FORMAT_EXTENSIONS[format]}`);
+
+	log("wireframe-export", `Writing ${format} export...`, { filePath });
+	await mkdir(dirname(filePath), { recursive: true });
+	await writeFile(filePath, JSON.stringify(document, null, 2), "utf-8");
+
+	return {
+		filePath,
+		summary: `Exported ${model.nodes.length} sections as ${format} (${model.viewport.width}x${model.fullPageHeight}px)`,
+	};
+}
@@ -3,36 +3,114 @@
  *
  * Orchestrates the wireframe generation pipeline:
  * 1. Gather DOM data via Playwright
- * 2. Generate WireframeModel via Claude CLI
- * 3. Render to PNG via @napi-rs/canvas
+ * 2. Generate WireframeModel via an LLM provider (Claude CLI by default)
+ *    (or run the heuristic analyzer in the page, optionally relabeled by AI)
+ * 3. Render to PNG via @napi-rs/canvas (or SVG via the shared vector renderer),
+ *    optionally only one section cropped to its box (plus its model as JSON)
  */
 
-import { join } from "path";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "path";
+import {
+	type AnalyzerRules,
+	extractSubtree,
+	findNodeById,
+	findNodesByLabel,
+	getAboveFoldRange,
+	getViewportSlices,
+	type PageRange,
+	type RendererConfig,
+	type WireframeModel,
+} from "@wireframe-mapper/shared";
 import { gatherDom } from "../browser/dom-gatherer.js";
-import { generateModel } from "../ai/model-generator.js";
+import { analyzePage } from "../browser/page-analyzer.js";
+import type { PageSessionOptions } from "../browser/page-session.js";
+import { generateModel, relabelModel } from "../ai/model-generator.js";
+import { createProvider, type ProviderName } from "../ai/providers/index.js";
 import { renderToFile } from "../render/canvas-renderer.js";
+import { renderToSvgFile } from "../render/svg-renderer.js";
 import { log, logError } from "../utils/logger.js";
 
-export interface WireframePageOptions {
+/** Image format written by the tool */
+export type OutputFormat = "png" | "svg";
+
+/**
+ * How the WireframeModel is built:
+ * - "ai": Claude builds the model from raw DOM data
+ * - "heuristic": the browser tool's analyzer runs in the page (no AI, works offline)
+ * - "hybrid": heuristic structure, labels and semantic types refined by Claude
+ */
+export type AnalyzerMode = "heuristic" | "ai" | "hybrid";
+
+export interface CaptureOptions {
 	/** URL to wireframe */
 	url: string;
 	/** Viewport width (default: 1280) */
 	viewportWidth?: number;
 	/** Viewport height (default: 800) */
 	viewportHeight?: number;
-	/** Special instructions for AI */
+	/** Special instructions for AI (ignored in heuristic mode) */
 	instructions?: string;
+	/** Model source (default: "ai") */
+	analyzer?: AnalyzerMode;
+	/** LLM provider (default: WIREFRAME_PROVIDER, then "claude-cli") */
+	provider?: ProviderName;
+	/** LLM model name (default: WIREFRAME_MODEL, then the provider's default) */
+	model?: string;
+	/** User-defined analyzer rules and presets (used by every analyzer mode) */
+	rules?: AnalyzerRules;
+	/** Runs on the loaded page before capture, in the same browser session */
+	onLoad?: PageSessionOptions["onLoad"];
+}
+
+export interface WireframePageOptions extends CaptureOptions {
 	/** Show labels (default: true) */
 	showLabels?: boolean;
 	/** Show content placeholders (default: true) */
 	showContentHints?: boolean;
+	/** Draw the color legend below the image (default: false) */
+	showLegend?: boolean;
+	/** Render theme name or custom theme (default: "pastel") */
+	theme?: RendererConfig["theme"];
+	/** Hand-drawn sketch mode, optionally with a seed (default: off) */
+	sketch?: RendererConfig["sketch"];
+	/** Draw the fold line at the bottom of the first viewport (default: false) */
+	showFold?: boolean;
+	/** Draw fixed, sticky and overlay elements; false leaves them out (default: true) */
+	showFloating?: boolean;
+	/** Part of the page to render (default: "page"); "slices" writes one image per viewport height */
+	area?: RenderArea;
+	/** Render only this vertical part of the page (overrides `area`) */
+	range?: PageRange;
+	/** Render only one section and its descendants, cropped to its box */
+	subtree?: SubtreeSelector;
+	/** Output image format (default: "png") */
+	format?: OutputFormat;
 	/** Output file path (default: auto-generated in .wireframe/) */
 	outputPath?: string;
 }
 
+/** Part of the page a render covers */
+export type RenderArea = "page" | "fold" | "slices";
+
+/**
+ * Which section to render on its own: by node id, or the first section
+ * (in document order) whose label contains `label`, case-insensitively.
+ */
+export interface SubtreeSelector {
+	nodeId?: string;
+	label?: string;
+	/** Space around the section in pixels (default: 0) */
+	padding?: number;
+}
+
 export interface WireframePageResult {
-	/** Path to the generated PNG file */
+	/** Path to the generated image file (the first slice when slicing) */
 	imagePath: string;
+	/** Every generated image file (one per slice) */
+	imagePaths: string[];
+	/** Path to the section's model JSON (subtree renders only) */
+	modelPath?: string;
 	/** Summary of the wireframe */
 	summary: string;
 	/** List of section labels */
@@ -45,48 +123,175 @@ function logStep(message: string): void {
 }
 
 /**
- * Generate a wireframe from a URL.
+ * Capture a WireframeModel from a URL (steps 1-2 of the pipeline).
+ * Shared by every tool that needs a model before rendering or exporting.
  */
-export async function wireframePage(
-	options: WireframePageOptions
-): Promise<WireframePageResult> {
+export async function captureModel(
+	options: CaptureOptions
+): Promise<WireframeModel> {
 	const {
 		url,
 		viewportWidth = 1280,
 		viewportHeight = 800,
 		instructions,
-		showLabels = true,
-		showContentHints = true,
+		analyzer = "ai",
+		rules,
+		onLoad,
 	} = options;
 
-	logStep(`Starting wireframe for: ${url}`);
+	logStep(`Starting wireframe for: ${url} (analyzer: ${analyzer})`);
 	const startTime = Date.now();
 
+	if (analyzer === "heuristic") {
+		// 1. Run the heuristic analyzer inside the page (no AI)
+		logStep("Step 1/4: Launching Playwright (heuristic analyzer)...");
+		const model = await analyzePage(url, {
+			width: viewportWidth,
+			height: viewportHeight,
+			onLoad,
+			config: { rules },
+		});
+		logStep(`Step 1/4: Done - found ${model.nodes.length} sections (${Date.now() - startTime}ms)`);
+		if (instructions) logStep("Instructions ignored in heuristic mode");
+		return model;
+	}
+
+	// Resolve the provider up front so configuration errors surface before browsing
+	const provider = createProvider({ provider: options.provider, model: options.model });
+
+	if (analyzer === "hybrid") {
+		// 1. Run the heuristic analyzer inside the page
+		logStep("Step 1/4: Launching Playwright (heuristic analyzer)...");
+		const heuristicModel = await analyzePage(url, {
+			width: viewportWidth,
+			height: viewportHeight,
+			onLoad,
+			config: { rules },
+		});
+		logStep(`Step 1/4: Done - found ${heuristicModel.nodes.length} sections (${Date.now() - startTime}ms)`);
+
+		// 2. Relabel and reclassify via the LLM, keeping the structure
+		logStep(`Step 2/4: Calling ${provider.name} (${provider.model}) to relabel...`);
+		const model = await relabelModel(heuristicModel, instructions, provider);
+		logStep(`Step 2/4: Done - relabeled ${model.nodes.length} sections (${Date.now() - startTime}ms)`);
+		return model;
+	}
+
 	// 1. Gather DOM data via Playwright
 	logStep("Step 1/4: Launching Playwright...");
 	const domData = await gatherDom(url, {
 		width: viewportWidth,
 		height: viewportHeight,
+		onLoad,
+		rules,
 	});
 	logStep(`Step 1/4: Done - extracted ${domData.elements.length} elements (${Date.now() - startTime}ms)`);
 
-	// 2. Generate model via Claude CLI (uses Max subscription)
-	logStep("Step 2/4: Calling Claude CLI...");
-	const model = await generateModel(domData, instructions);
+	// 2. Generate model via the LLM provider
+	logStep(`Step 2/4: Calling ${provider.name} (${provider.model})...`);
+	const model = await generateModel(domData, instructions, provider);
 	logStep(`Step 2/4: Done - generated ${model.nodes.length} sections (${Date.now() - startTime}ms)`);
 
+	return model;
+}
+
+/**
+ * Cut the selected section out of the model.
+ * Throws if no section matches, listing the available labels.
+ */
+function selectSubtree(model: WireframeModel, selector: SubtreeSelector): WireframeModel {
+	const { nodeId, label, padding = 0 } = selector;
+	if (!nodeId && !label) throw new Error("Subtree needs a node id or a label");
+
+	const node = nodeId
+		? findNodeById(model, nodeId)
+		: (findNodesByLabel(model, label ?? "")[0] ?? null);
+	if (!node) {
+		const wanted = nodeId ? `id "${nodeId}"` : `label "${label}"`;
+		// An empty pattern matches every node
+		const labels = findNodesByLabel(model, "")
+			.map((candidate) => candidate.label)
+			.filter(Boolean);
+		throw new Error(`No section matches ${wanted} (sections: ${labels.join(", ") || "none"})`);
+	}
+	logStep(`Rendering only "${node.label}" (${node.id})`);
+	return extractSubtree(model, node.id, padding) as WireframeModel;
+}
+
+/**
+ * Page ranges to render, one image each (undefined = full page).
+ * An explicit range wins over the area.
+ */
+function getRenderRanges(
+	model: WireframeModel,
+	range: PageRange | undefined,
+	area: RenderArea
+): Array<PageRange | undefined> {
+	if (range) return [range];
+	if (area === "fold") return [getAboveFoldRange(model)];
+	if (area === "slices") return getViewportSlices(model);
+	return [undefined];
+}
+
+/**
+ * Generate a wireframe from a URL.
+ */
+export async function wireframePage(
+	options: WireframePageOptions
+): Promise<WireframePageResult> {
+	const {
+		showLabels = true,
+		showContentHints = true,
+		showLegend = false,
+		theme,
+		sketch,
+		showFold = false,
+		showFloating = true,
+		area = "page",
+		format = "png",
+	} = options;
+
+	const startTime = Date.now();
+	const capturedModel = await captureModel(options);
+	const model = options.subtree ? selectSubtree(capturedModel, options.subtree) : capturedModel;
+
 	// 3. Determine output path
 	const outputPath =
 		options.outputPath ||
-		join(process.cwd(), ".wireframe", `wireframe-${Date.now()}.png`);
+		join(process.cwd(), ".wireframe", `wireframe-${Date.now()}.${format}`);
 
-	// 4. Render to PNG with @napi-rs/canvas
-	logStep("Step 3/4: Rendering to PNG...");
-	await renderToFile(model, outputPath, {
-		showLabels,
-		showContentHints,
-	});
-	logStep(`Step 3/4: Done - saved to ${outputPath} (${Date.now() - startTime}ms)`);
+	// 4. Render to PNG with @napi-rs/canvas, or to SVG (one file per slice)
+	logStep(`Step 3/4: Rendering to ${format.toUpperCase()}...`);
+	const ranges = getRenderRanges(model, options.range, area);
+	const imagePaths = ranges.map((_, index) =>
+		ranges.length > 1 ? outputPath.replace(/(\.\w+)?$/, `-${index + 1}$1`) : outputPath
+	);
+	for (const [index, range] of ranges.entries()) {
+		const renderConfig = {
+			showLabels,
+			showContentHints,
+			showLegend,
+			theme,
+			sketch,
+			showFold,
+			showFloating,
+			range,
+		};
+		if (format === "svg") {
+			await renderToSvgFile(model, imagePaths[index], renderConfig);
+		} else {
+			await renderToFile(model, imagePaths[index], renderConfig);
+		}
+	}
+	logStep(`Step 3/4: Done - saved to ${imagePaths.join(", ")} (${Date.now() - startTime}ms)`);
+
+	// The section's model, so it can be reopened or exported on its own
+	let modelPath: string | undefined;
+	if (options.subtree) {
+		modelPath = `${outputPath.replace(/\.(png|svg)$/i, "")}.json`;
+		await mkdir(dirname(modelPath), { recursive: true });
+		await writeFile(modelPath, JSON.stringify(model, null, 2), "utf-8");
+	}
 
 	// 5. Collect section labels
 	const sections: string[] = [];
@@ -105,7 +310,9 @@ export async function wireframePage(
 
 	// 6. Return minimal result (keeps context clean)
 	return {
-		imagePath: outputPath,
+		imagePath: imagePaths[0],
+		imagePaths,
+		modelPath,
 		summary: `Generated wireframe with ${model.nodes.length} sections (${model.viewport.width}x${model.fullPageHeight}px)`,
 		sections,
 	};
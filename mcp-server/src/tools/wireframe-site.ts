@@ -0,0 +1,318 @@
+/**
+ * Wireframe Site Tool
+ *
+ * Crawls a site breadth-first from a start URL, following same-origin links
+ * up to a depth and page limit, and wireframes every page. Writes into one
+ * output directory:
+ * - `page-NNN.png|svg` + `page-NNN.json` (WireframeModel) per page
+ * - `index.json`: every page plus the link graph between crawled pages
+ * - `index.html`: contact sheet with the link graph and page thumbnails
+ *
+ * A page that fails to load or capture is recorded with its error and the
+ * crawl carries on.
+ * A page that redirects to one already captured, or (below the
+ * start page) off the crawl's origin or patterns, is dropped.
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { Page } from "playwright";
+import { readLinks } from "../browser/link-collector.js";
+import { renderToFile } from "../render/canvas-renderer.js";
+import { renderContactSheetToFile } from "../render/contact-sheet.js";
+import { renderToSvgFile } from "../render/svg-renderer.js";
+import type { SiteEdge, SiteIndex, SitePage } from "../types/site-index.js";
+import { log, logError } from "../utils/logger.js";
+import { captureModel, type WireframePageOptions } from "./wireframe-page.js";
+
+/** Default link distance from the start URL */
+export const DEFAULT_MAX_DEPTH = 2;
+
+/** Default number of pages to wireframe */
+export const DEFAULT_MAX_PAGES = 20;
+
+/** Links to files that aren't HTML pages */
+const ASSET_EXTENSIONS =
+	/\.(pdf|zip|gz|rar|7z|jpe?g|png|gif|webp|avif|svg|ico|mp4|webm|mov|mp3|wav|docx?|xlsx?|pptx?|csv|xml|json|txt)$/i;
+
+export interface WireframeSiteOptions
+	extends Omit<WireframePageOptions, "outputPath" | "area" | "range" | "subtree" | "onLoad"> {
+	/** Maximum link distance from the start URL (default: 2) */
+	maxDepth?: number;
+	/** Maximum number of pages to wireframe (default: 20) */
+	maxPages?: number;
+	/** Only crawl URLs matching one of these patterns (the start URL is always crawled) */
+	include?: string[];
+	/** Never crawl URLs matching any of these patterns */
+	exclude?: string[];
+	/** Output directory (default: auto-generated in .wireframe/) */
+	outputDir?: string;
+}
+
+export interface WireframeSiteResult {
+	/** Path to index.json */
+	indexPath: string;
+	/** Path to the HTML contact sheet */
+	contactSheetPath: string;
+	summary: string;
+	/** One line per page */
+	pages: string[];
+}
+
+/**
+ * Compile a URL pattern. `*` matches any run of characters; patterns
+ * starting with a scheme match the full URL, others the path + query.
+ * Example: "/blog/*", "*?page=*", "https://example.com/docs/*".
+ */
+function compilePattern(pattern: string): (url: URL) => boolean {
+	const source = pattern
+		.split("*")
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join(".*");
+	const regex = new RegExp(`^${source}$`, "i");
+	const matchFullUrl = /^[a-z]+:\/\//i.test(pattern);
+	return (url) => regex.test(matchFullUrl ? url.href : url.pathname + url.search);
+}
+
+/**
+ * Canonical form used to deduplicate pages: no fragment, no trailing slash
+ * (except the root path).
+ */
+export function normalizePageUrl(href: string): string | null {
+	let url: URL;
+	try {
+		url = new URL(href);
+	} catch {
+		return null;
+	}
+	if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+	url.hash = "";
+	if (url.pathname.length > 1 && url.pathname.endsWith("/")) {
+		url.pathname = url.pathname.replace(/\/+$/, "");
+	}
+	return url.href;
+}
+
+/**
+ * Wireframe a single crawled page into the output directory.
+ * `onLoad` runs on the loaded page before the model is captured.
+ */
+async function capturePage(
+	page: SitePage,
+	options: WireframeSiteOptions,
+	outputDir: string,
+	onLoad: (loaded: Page) => Promise<void>,
+): Promise<void> {
+	const {
+		showLabels = true,
+		showContentHints = true,
+		showLegend = false,
+		theme,
+		sketch,
+		showFold = false,
+		showFloating = true,
+		format = "png",
+	} = options;
+	const model = await captureModel({ ...options, url: page.url, onLoad });
+
+	const imagePath = join(outputDir, `${page.id}.${format}`);
+	const renderConfig = {
+		showLabels,
+		showContentHints,
+		showLegend,
+		theme,
+		sketch,
+		showFold,
+		showFloating,
+	};
+	if (format === "svg") {
+		await renderToSvgFile(model, imagePath, renderConfig);
+	} else {
+		await renderToFile(model, imagePath, renderConfig);
+	}
+
+	const modelPath = join(outputDir, `${page.id}.json`);
+	await writeFile(modelPath, JSON.stringify(model, null, 2), "utf-8");
+
+	page.imagePath = imagePath;
+	page.modelPath = modelPath;
+	page.sectionCount = model.nodes.length;
+	page.width = model.viewport.width;
+	page.height = model.fullPageHeight;
+}
+
+/**
+ * Crawl a site and wireframe every page found.
+ */
+export async function wireframeSite(options: WireframeSiteOptions): Promise<WireframeSiteResult> {
+	const {
+		maxDepth = DEFAULT_MAX_DEPTH,
+		maxPages = DEFAULT_MAX_PAGES,
+		include = [],
+		exclude = [],
+	} = options;
+	const startUrl = normalizePageUrl(options.url);
+	if (!startUrl) throw new Error(`Not an http(s) URL: ${options.url}`);
+
+	const includes = include.map(compilePattern);
+	const excludes = exclude.map(compilePattern);
+	let origin = new URL(startUrl).origin;
+
+	const isCrawlable = (href: string): boolean => {
+		const url = new URL(href);
+		if (url.origin !== origin || ASSET_EXTENSIONS.test(url.pathname)) return false;
+		if (excludes.some((matches) => matches(url))) return false;
+		return includes.length === 0 || includes.some((matches) => matches(url));
+	};
+
+	const outputDir = options.outputDir || join(process.cwd(), ".wireframe", `site-${Date.now()}`);
+	await mkdir(outputDir, { recursive: true });
+	const startTime = Date.now();
+	log("wireframe-site", "Starting crawl", {
+		startUrl,
+		maxDepth,
+		maxPages,
+		include,
+		exclude,
+		outputDir,
+	});
+
+	const pages: SitePage[] = [];
+	/** Normalized URL (requested or redirected) → page id */
+	const pageIds = new Map<string, string>();
+	/** Page id → normalized same-origin link targets */
+	const outgoing = new Map<string, string[]>();
+	const queued = new Set([startUrl]);
+	const queue: Array<{ url: string; depth: number }> = [{ url: startUrl, depth: 0 }];
+
+	while (queue.length > 0 && pages.length < maxPages) {
+		const { url, depth } = queue.shift() as { url: string; depth: number };
+		// Already captured as the target of an earlier redirect
+		if (pageIds.has(url)) continue;
+
+		const page: SitePage = {
+			id: `page-${String(pages.length + 1).padStart(3, "0")}`,
+			url,
+			title: "",
+			depth,
+			sectionCount: 0,
+			width: 0,
+			height: 0,
+		};
+		pages.push(page);
+		pageIds.set(url, page.id);
+		log("wireframe-site", `[${pages.length}/${maxPages}] ${url} (depth ${depth})`);
+
+		/** Set when the page redirects somewhere it shouldn't be captured */
+		let skipReason: string | null = null;
+
+		// Discover links on the page the capture loads, before the model is
+		// built, so the crawl continues even if wireframing fails
+		const discoverLinks = async (loaded: Page): Promise<void> => {
+			const collected = await readLinks(loaded);
+			page.title = collected.title;
+			const finalUrl = normalizePageUrl(collected.finalUrl) ?? url;
+			if (finalUrl !== url) {
+				// Follow a redirect of the start page (e.g. http → https, www → apex)
+				if (depth === 0) origin = new URL(finalUrl).origin;
+
+				const capturedId = pageIds.get(finalUrl);
+				if (capturedId) {
+					// Links to the redirecting URL lead to the page already captured
+					pageIds.set(url, capturedId);
+					skipReason = `redirects to ${finalUrl}, already captured as ${capturedId}`;
+				} else if (depth > 0 && !isCrawlable(finalUrl)) {
+					pageIds.delete(url);
+					skipReason = `redirects to ${finalUrl}, outside the crawl`;
+				}
+				// Stop the capture; the catch below drops the page
+				if (skipReason) throw new Error(skipReason);
+
+				pageIds.set(finalUrl, page.id);
+				queued.add(finalUrl);
+			}
+
+			const targets = Array.from(
+				new Set(
+					collected.links.map(normalizePageUrl).filter((href): href is string => href !== null),
+				),
+			).filter(isCrawlable);
+			outgoing.set(page.id, targets);
+
+			if (depth < maxDepth) {
+				for (const target of targets) {
+					if (queued.has(target)) continue;
+					queued.add(target);
+					queue.push({ url: target, depth: depth + 1 });
+				}
+			}
+		};
+
+		try {
+			await capturePage(page, options, outputDir, discoverLinks);
+		} catch (error) {
+			if (skipReason) {
+				pages.pop();
+				log("wireframe-site", `Skipped ${url}: ${skipReason}`);
+				continue;
+			}
+			page.error = error instanceof Error ? error.message : String(error);
+			logError("wireframe-site", `Failed to wireframe ${url}`, error);
+		}
+	}
+
+	// Link graph between crawled pages
+	const edges: SiteEdge[] = [];
+	const notCrawled = new Set<string>();
+	for (const [from, targets] of outgoing) {
+		const seen = new Set<string>();
+		for (const target of targets) {
+			const to = pageIds.get(target);
+			if (!to) {
+				notCrawled.add(target);
+				continue;
+			}
+			if (to === from || seen.has(to)) continue;
+			seen.add(to);
+			edges.push({ from, to });
+		}
+	}
+
+	const index: SiteIndex = {
+		startUrl,
+		createdAt: new Date().toISOString(),
+		maxDepth,
+		maxPages,
+		pages,
+		edges,
+		skipped: notCrawled.size,
+	};
+	const indexPath = join(outputDir, "index.json");
+	await writeFile(indexPath, JSON.stringify(index, null, 2), "utf-8");
+	const contactSheetPath = join(outputDir, "index.html");
+	await renderContactSheetToFile(index, contactSheetPath);
+
+	const failed = pages.filter((page) => page.error).length;
+	log("wireframe-site", `Done in ${Date.now() - startTime}ms`, {
+		pages: pages.length,
+		failed,
+		edges: edges.length,
+		skipped: index.skipped,
+	});
+
+	return {
+		indexPath,
+		contactSheetPath,
+		summary:
+			`Wireframed ${pages.length - failed} of ${pages.length} pages (${edges.length} links between them)` +
+			(failed > 0 ? `, ${failed} failed` : "") +
+			(index.skipped > 0
+				? `; ${index.skipped} linked pages not crawled (depth/page limit, off-site redirects)`
+				: ""),
+		pages: pages.map(
+			(page) =>
+				`${"  ".repeat(page.depth)}${page.id} ${page.url}` +
+				(page.error ? ` - FAILED: ${page.error}` : ` - ${page.sectionCount} sections`),
+		),
+	};
+}
@@ -5,7 +5,12 @@
  * This data is sent to Claude for semantic analysis.
  */
 
-import type { BoundingBox } from "@wireframe-mapper/shared";
+import type {
+	BoundingBox,
+	ContentType,
+	NodePosition,
+	SemanticType,
+} from "@wireframe-mapper/shared";
 
 /**
  * Complete DOM data extracted from a page.
@@ -24,6 +29,21 @@ export interface DomData {
 	fullPageHeight: number;
 	/** Extracted DOM elements */
 	elements: DomElement[];
+	/** Detected content (videos, maps, fields, tables, logos, avatars, CSS background images) for contentHints */
+	contentElements: DomContentElement[];
+}
+
+/**
+ * A content element to be placed as a contentHint of the node containing it.
+ */
+export interface DomContentElement {
+	type: ContentType;
+	/** Bounding box in absolute page coordinates */
+	bbox: BoundingBox;
+	/** Placeholder text (inputs) or selected option (selects) */
+	label?: string;
+	/** Image painted by CSS (background-image, ::before/::after) */
+	background?: boolean;
 }
 
 /**
@@ -56,4 +76,12 @@ export interface DomElement {
 	flexDirection?: string;
 	/** Meaningful class names (utility classes filtered out) */
 	meaningfulClasses: string[];
+	/** Label from the first matching user label rule */
+	ruleLabel?: string;
+	/** Semantic type from that rule, if it sets one */
+	ruleSemanticType?: SemanticType;
+	/** Host of a cross-origin iframe, whose contents can't be read */
+	embeddedFrame?: string;
+	/** Floating classification (fixed, sticky or overlay), if any */
+	position?: NodePosition;
 }
@@ -0,0 +1,57 @@
+/**
+ * Site Index Types
+ *
+ * Data structures written by the `wireframe_site` crawl: one entry per
+ * crawled page plus the link graph between them. Serialized as
+ * `index.json` next to the page images and the HTML contact sheet.
+ */
+
+/**
+ * One crawled page.
+ */
+export interface SitePage {
+	/** Stable id, also the file name stem (e.g. "page-001") */
+	id: string;
+	/** Normalized URL */
+	url: string;
+	/** Document title (empty when the page failed to load) */
+	title: string;
+	/** Link distance from the start URL */
+	depth: number;
+	/** Wireframe image (missing when capture failed) */
+	imagePath?: string;
+	/** Saved WireframeModel JSON (missing when capture failed) */
+	modelPath?: string;
+	/** Top-level section count */
+	sectionCount: number;
+	/** Viewport width and full page height of the capture */
+	width: number;
+	height: number;
+	/** Error message when link collection or capture failed */
+	error?: string;
+}
+
+/**
+ * Directed link between two crawled pages.
+ */
+export interface SiteEdge {
+	/** Source page id */
+	from: string;
+	/** Target page id */
+	to: string;
+}
+
+/**
+ * Complete crawl result.
+ */
+export interface SiteIndex {
+	startUrl: string;
+	/** ISO timestamp */
+	createdAt: string;
+	maxDepth: number;
+	maxPages: number;
+	pages: SitePage[];
+	edges: SiteEdge[];
+	/** Same-origin links that were skipped because of the depth or page limit */
+	skipped: number;
+}
@@ -0,0 +1,168 @@
+/**
+ * Analyzer Rule Presets
+ *
+ * Named AnalyzerRules packs for popular frameworks and themes, and the
+ * merge step that expands a rules config into one flat rule set:
+ * - ANALYZER_PRESETS: Rules per framework (Bootstrap, Tailwind UI, WordPress)
+ * - resolveAnalyzerRules: Expand presets, merge, and validate patterns
+ *   and selectors
+ *
+ * @module shared/analyzer-rules
+ */
+
+import type { AnalyzerRules } from "./types.js";
+
+/** Built-in rule packs, by name */
+export const ANALYZER_PRESETS: Record<string, AnalyzerRules> = {
+	bootstrap: {
+		labels: [
+			{ pattern: "(^|\\s)navbar(\\s|$)", label: "Navigation", semanticType: "navigation" },
+			{ pattern: "(^|\\s)(jumbotron|carousel)(\\s|$)", label: "Hero", semanticType: "hero" },
+			{ pattern: "(^|\\s)card-(deck|group)(\\s|$)", label: "Cards" },
+			{ pattern: "(^|\\s)card(\\s|$)", label: "Card", semanticType: "card" },
+			{ pattern: "(^|\\s)modal(\\s|$)", label: "Modal" },
+			{ pattern: "(^|\\s)(list-group|accordion)(\\s|$)", label: "List" },
+			{ pattern: "(^|\\s)offcanvas(\\s|$)", label: "Sidebar" },
+		],
+		genericClasses: [
+			"^container(-fluid|-(sm|md|lg|xl|xxl))?$",
+			"^row(-cols-.*)?$",
+			"^col(-(sm|md|lg|xl|xxl))?(-\\d+|-auto)?$",
+			"^(offset|order)-",
+			"^(d|flex|align-items|align-self|justify-content|g|gx|gy|gap)-",
+			"^[mp][trblxy]?-(sm-|md-|lg-|xl-|xxl-)?(\\d|auto)$",
+			"^(w|h|mw|mh|vw|vh)-\\d+$",
+			"^(text|bg|border|rounded|shadow|position)(-|$)",
+		],
+	},
+	"tailwind-ui": {
+		labels: [
+			{
+				pattern: "^(hero|header-section)$",
+				target: "attr:data-section",
+				label: "Hero",
+				semanticType: "hero",
+			},
+			{ pattern: "pricing", target: "attr:aria-labelledby", label: "Pricing" },
+			{ pattern: "feature", target: "attr:aria-labelledby", label: "Features" },
+			{ pattern: "testimonial", target: "attr:aria-labelledby", label: "Testimonials" },
+			{ pattern: "faq", target: "attr:aria-labelledby", label: "FAQ" },
+			{
+				pattern: "footer",
+				target: "attr:aria-labelledby",
+				label: "Footer",
+				semanticType: "footer",
+			},
+		],
+		genericClasses: [
+			"^(sm|md|lg|xl|2xl|hover|focus|dark|group-hover):",
+			"^-?(m|p)[trblxyse]?-",
+			"^(flex|grid|inline-flex|inline-grid|contents|isolate)$",
+			"^(flex|grid|col|row|gap|space|divide|items|justify|content|self|place|order)-",
+			"^(w|h|min-w|min-h|max-w|max-h|size)-",
+			"^(top|right|bottom|left|inset|z)-",
+			"^(absolute|relative|fixed|sticky|static|hidden|block|inline|inline-block)$",
+			"^(text|font|leading|tracking|bg|from|via|to|border|ring|rounded|shadow|opacity)-",
+			"^(overflow|object|aspect|backdrop|blur|transition|duration|ease|transform)-",
+		],
+	},
+	wordpress: {
+		labels: [
+			{
+				pattern: "(^|\\s)(site-header|wp-block-template-part-header)(\\s|$)",
+				label: "Header",
+				semanticType: "header",
+			},
+			{
+				pattern: "(^|\\s)(main-navigation|wp-block-navigation)(\\s|$)",
+				label: "Navigation",
+				semanticType: "navigation",
+			},
+			{
+				pattern: "(^|\\s)(site-footer|wp-block-template-part-footer)(\\s|$)",
+				label: "Footer",
+				semanticType: "footer",
+			},
+			{ pattern: "(^|\\s)wp-block-cover(\\s|$)", label: "Hero", semanticType: "hero" },
+			{ pattern: "(^|\\s)wp-block-media-text(\\s|$)", label: "Media & Text" },
+			{ pattern: "(^|\\s)wp-block-gallery(\\s|$)", label: "Gallery" },
+			{ pattern: "(^|\\s)wp-block-buttons(\\s|$)", label: "CTA", semanticType: "cta" },
+			{ pattern: "(^|\\s)wp-block-query(\\s|$)", label: "Posts" },
+			{ pattern: "(^|\\s)(widget-area|sidebar)(\\s|$)", label: "Sidebar" },
+			{ pattern: "(^|\\s)(comments-area|wp-block-comments)(\\s|$)", label: "Comments" },
+			{ pattern: "(^|\\s)(entry-content|post-content)(\\s|$)", label: "Article" },
+		],
+		genericClasses: [
+			"^wp-site-blocks$",
+			"^wp-block-group(__inner-container)?$",
+			"^wp-block-columns?$",
+			"^(is-layout|is-content-justification|is-nowrap|is-vertical)-?",
+			"^(has-|alignwide$|alignfull$|wp-container-|wp-elements-)",
+			"^(site|site-content|content-area|ast-container|elementor-container|elementor-column-wrap)$",
+		],
+		exclude: ["#wpadminbar", ".skip-link", "#cookie-notice"],
+	},
+};
+
+/** Rules after presets are expanded: every list present, no `presets` */
+export type ResolvedAnalyzerRules = Required<Omit<AnalyzerRules, "presets">>;
+
+/** Names accepted in `AnalyzerRules.presets` */
+export const ANALYZER_PRESET_NAMES = Object.keys(ANALYZER_PRESETS);
+
+function checkPattern(pattern: string, field: string): void {
+	try {
+		new RegExp(pattern, "i");
+	} catch {
+		throw new Error(`Invalid analyzer rule pattern in ${field}: ${pattern}`);
+	}
+}
+
+/**
+ * Reject selectors no CSS engine accepts. Full syntax checks need a DOM, so
+ * the analyzer and the DOM gatherer check the rest in the page.
+ */
+function checkSelector(selector: string, field: string): void {
+	if (!selector.trim()) throw new Error(`Empty analyzer rule selector in ${field}`);
+	// Model selectors join shadow root and frame scopes with " >>> "
+	if (selector.includes(">>>")) {
+		throw new Error(
+			`Invalid analyzer rule selector in ${field}: ${selector} (" >>> " model selectors aren't CSS; use the part after the last " >>> ")`,
+		);
+	}
+}
+
+/**
+ * Expand presets and merge them with the given rules into one rule set.
+ * The caller's own label rules come first so they win over preset ones.
+ * Throws on an unknown preset, an invalid pattern, or an empty or
+ * " >>> " selector.
+ */
+export function resolveAnalyzerRules(rules: AnalyzerRules = {}): ResolvedAnalyzerRules {
+	const packs: AnalyzerRules[] = [rules];
+	for (const name of rules.presets ?? []) {
+		const preset = ANALYZER_PRESETS[name];
+		if (!preset) {
+			throw new Error(
+				`Unknown analyzer preset "${name}" (available: ${ANALYZER_PRESET_NAMES.join(", ")})`,
+			);
+		}
+		packs.push(preset);
+	}
+
+	const resolved: ResolvedAnalyzerRules = {
+		labels: packs.flatMap((pack) => pack.labels ?? []),
+		genericClasses: packs.flatMap((pack) => pack.genericClasses ?? []),
+		skipTags: packs.flatMap((pack) => pack.skipTags ?? []).map((tag) => tag.toLowerCase()),
+		landmarkTags: packs.flatMap((pack) => pack.landmarkTags ?? []).map((tag) => tag.toLowerCase()),
+		include: packs.flatMap((pack) => pack.include ?? []),
+		exclude: packs.flatMap((pack) => pack.exclude ?? []),
+	};
+
+	for (const rule of resolved.labels) checkPattern(rule.pattern, "labels");
+	for (const pattern of resolved.genericClasses) checkPattern(pattern, "genericClasses");
+	for (const selector of resolved.include) checkSelector(selector, "include");
+	for (const selector of resolved.exclude) checkSelector(selector, "exclude");
+
+	return resolved;
+}
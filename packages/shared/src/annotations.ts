@@ -0,0 +1,558 @@
+/**
+ * Annotations
+ *
+ * Presentation layer drawn on top of the wireframe: numbered pins, arrows,
+ * sticky notes and free text (see `Annotation` in shared/types). Points
+ * attached to a node follow it when the block moves, and the annotation is
+ * skipped when the node is hidden or removed.
+ *
+ * Pins, and arrows with text, are numbered in list order; the notes legend
+ * lists their text below the page in exports.
+ *
+ * @module shared/annotations
+ */
+
+import type { WireframeContext2D } from "./draw-context.js";
+import { findNodeAt, findNodeById } from "./model.js";
+import { type Sketch, sketchLine, sketchRectPath, sketchRectStroke } from "./sketch.js";
+import type { WireframeTheme } from "./theme.js";
+import type {
+	Annotation,
+	AnnotationPoint,
+	BoundingBox,
+	PageRange,
+	WireframeModel,
+} from "./types.js";
+
+/** Pin, arrow and free text color (theme-independent, so annotations stand out) */
+export const ANNOTATION_COLOR = "#d81b60";
+
+/** Sticky note colors */
+const NOTE_FILL = "#fff59d";
+const NOTE_BORDER = "#f9a825";
+const NOTE_TEXT_COLOR = "#3e2723";
+
+/** Sticky note layout: width, inner padding, line height, max lines */
+const NOTE_WIDTH = 180;
+const NOTE_PADDING = 8;
+const NOTE_LINE_HEIGHT = 16;
+const NOTE_MAX_LINES = 8;
+
+const PIN_RADIUS = 11;
+/** Number marker at the tail of arrows with text */
+const ARROW_MARKER_RADIUS = 9;
+const ARROW_HEAD_SIZE = 12;
+const TEXT_LINE_HEIGHT = 18;
+/** How close (in pixels) a click must be to an arrow to hit it */
+const ARROW_HIT_DISTANCE = 6;
+
+/** Notes legend layout: outer padding, title height, row height */
+const NOTES_PADDING = 16;
+const NOTES_TITLE_HEIGHT = 22;
+const NOTES_ROW_HEIGHT = 22;
+
+type Point = { x: number; y: number };
+
+/**
+ * One row of the notes legend.
+ */
+export interface NumberedNote {
+	number: number;
+	text: string;
+}
+
+/**
+ * Page coordinates of an annotation point, or null if its node is gone.
+ */
+export function resolveAnnotationPoint(
+	model: WireframeModel,
+	point: AnnotationPoint,
+): Point | null {
+	if (!point.nodeId) return { x: point.x, y: point.y };
+	const node = findNodeById(model, point.nodeId);
+	return node ? { x: node.bbox.x + point.x, y: node.bbox.y + point.y } : null;
+}
+
+/**
+ * Annotation point for a page position, attached to the node under it
+ * (absolute when it's on the bare page).
+ */
+export function anchorAnnotationPoint(
+	model: WireframeModel,
+	x: number,
+	y: number,
+): AnnotationPoint {
+	const node = findNodeAt(model, x, y);
+	return node ? { x: x - node.bbox.x, y: y - node.bbox.y, nodeId: node.id } : { x, y };
+}
+
+/**
+ * Move an annotation by (dx, dy), re-attaching its points to the nodes
+ * they land on. Points whose node is gone are left as they are.
+ */
+export function moveAnnotation(
+	model: WireframeModel,
+	annotation: Annotation,
+	dx: number,
+	dy: number,
+): void {
+	const move = (point: AnnotationPoint): AnnotationPoint => {
+		const resolved = resolveAnnotationPoint(model, point);
+		return resolved ? anchorAnnotationPoint(model, resolved.x + dx, resolved.y + dy) : point;
+	};
+	annotation.at = move(annotation.at);
+	if (annotation.to) annotation.to = move(annotation.to);
+}
+
+/**
+ * Drop annotations attached to nodes that no longer exist (after a delete).
+ */
+export function pruneAnnotations(model: WireframeModel): void {
+	if (!model.annotations) return;
+	model.annotations = model.annotations.filter(
+		(annotation) =>
+			resolveAnnotationPoint(model, annotation.at) &&
+			(!annotation.to || resolveAnnotationPoint(model, annotation.to)),
+	);
+}
+
+/**
+ * Legend number per annotation id: pins, and arrows with text, in order.
+ */
+export function getAnnotationNumbers(annotations: Annotation[]): Map<string, number> {
+	const numbers = new Map<string, number>();
+	for (const annotation of annotations) {
+		if (annotation.type === "pin" || (annotation.type === "arrow" && annotation.text)) {
+			numbers.set(annotation.id, numbers.size + 1);
+		}
+	}
+	return numbers;
+}
+
+/**
+ * Numbered notes with text, for the notes legend. With `range`, only
+ * annotations positioned inside it are listed (numbers stay page-wide).
+ */
+export function getNumberedNotes(model: WireframeModel, range?: PageRange): NumberedNote[] {
+	const annotations = model.annotations ?? [];
+	const numbers = getAnnotationNumbers(annotations);
+	const notes: NumberedNote[] = [];
+	for (const annotation of annotations) {
+		const number = numbers.get(annotation.id);
+		const at = resolveAnnotationPoint(model, annotation.at);
+		if (!number || !annotation.text || !at) continue;
+		if (range && (at.y < range.y || at.y >= range.y + range.height)) continue;
+		notes.push({ number, text: annotation.text });
+	}
+	return notes;
+}
+
+/**
+ * Shorten text with "..." to fit `maxWidth` (at the current font).
+ */
+function fitText(ctx: WireframeContext2D, text: string, maxWidth: number): string {
+	if (ctx.measureText(text).width <= maxWidth) return text;
+	let fitted = text;
+	while (fitted.length > 1 && ctx.measureText(`${fitted}...`).width > maxWidth) {
+		fitted = fitted.slice(0, -1);
+	}
+	return `${fitted}...`;
+}
+
+/**
+ * Word-wrap text to `maxWidth` (at the current font), keeping line breaks.
+ * Text beyond `maxLines` is cut with "...".
+ */
+function wrapText(
+	ctx: WireframeContext2D,
+	text: string,
+	maxWidth: number,
+	maxLines: number,
+): string[] {
+	const lines: string[] = [];
+	for (const paragraph of text.split("\n")) {
+		let line = "";
+		for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+			const candidate = line ? `${line} ${word}` : word;
+			if (line && ctx.measureText(candidate).width > maxWidth) {
+				lines.push(line);
+				line = word;
+			} else {
+				line = candidate;
+			}
+		}
+		lines.push(line);
+	}
+
+	const kept = lines.slice(0, maxLines);
+	if (lines.length > maxLines) kept[maxLines - 1] += "...";
+	return kept.map((line) => fitText(ctx, line, maxWidth));
+}
+
+/**
+ * Resolved geometry of one annotation.
+ */
+interface AnnotationShape {
+	bounds: BoundingBox;
+	at: Point;
+	/** Arrow head (arrows only) */
+	to: Point | null;
+	/** Text lines of notes and free text */
+	lines: string[];
+}
+
+function noteFont(fontFamily: string): string {
+	return `12px ${fontFamily}`;
+}
+
+function textFont(fontFamily: string): string {
+	return `bold 14px ${fontFamily}`;
+}
+
+/**
+ * Lay out an annotation. Null when one of its nodes is gone.
+ * Sets the context font to measure text.
+ */
+function layoutAnnotation(
+	ctx: WireframeContext2D,
+	model: WireframeModel,
+	annotation: Annotation,
+	fontFamily: string,
+): AnnotationShape | null {
+	const at = resolveAnnotationPoint(model, annotation.at);
+	if (!at) return null;
+
+	switch (annotation.type) {
+		case "pin":
+			return {
+				bounds: {
+					x: at.x - PIN_RADIUS,
+					y: at.y - PIN_RADIUS,
+					width: PIN_RADIUS * 2,
+					height: PIN_RADIUS * 2,
+				},
+				at,
+				to: null,
+				lines: [],
+			};
+		case "arrow": {
+			const to = annotation.to ? resolveAnnotationPoint(model, annotation.to) : null;
+			if (!to) return null;
+			const pad = ARROW_HEAD_SIZE;
+			const x = Math.min(at.x, to.x) - pad;
+			const y = Math.min(at.y, to.y) - pad;
+			return {
+				bounds: {
+					x,
+					y,
+					width: Math.abs(to.x - at.x) + pad * 2,
+					height: Math.abs(to.y - at.y) + pad * 2,
+				},
+				at,
+				to,
+				lines: [],
+			};
+		}
+		case "note": {
+			ctx.font = noteFont(fontFamily);
+			const lines = wrapText(ctx, annotation.text, NOTE_WIDTH - NOTE_PADDING * 2, NOTE_MAX_LINES);
+			return {
+				bounds: {
+					x: at.x,
+					y: at.y,
+					width: NOTE_WIDTH,
+					height: NOTE_PADDING * 2 + lines.length * NOTE_LINE_HEIGHT,
+				},
+				at,
+				to: null,
+				lines,
+			};
+		}
+		case "text": {
+			ctx.font = textFont(fontFamily);
+			const lines = annotation.text.split("\n");
+			const width = Math.max(...lines.map((line) => ctx.measureText(line).width));
+			return {
+				bounds: { x: at.x, y: at.y, width, height: lines.length * TEXT_LINE_HEIGHT },
+				at,
+				to: null,
+				lines,
+			};
+		}
+	}
+}
+
+/**
+ * Box around a drawn annotation (null when one of its nodes is gone).
+ * `ctx` is only used to measure text.
+ */
+export function getAnnotationBounds(
+	ctx: WireframeContext2D,
+	model: WireframeModel,
+	annotation: Annotation,
+	fontFamily: string,
+): BoundingBox | null {
+	return layoutAnnotation(ctx, model, annotation, fontFamily)?.bounds ?? null;
+}
+
+function distanceToSegment(point: Point, a: Point, b: Point): number {
+	const dx = b.x - a.x;
+	const dy = b.y - a.y;
+	const lengthSquared = dx * dx + dy * dy;
+	const t = lengthSquared
+		? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+		: 0;
+	return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+/**
+ * Find the top-most annotation under a point (the last one drawn).
+ * `ctx` is only used to measure text.
+ */
+export function findAnnotationAt(
+	ctx: WireframeContext2D,
+	model: WireframeModel,
+	x: number,
+	y: number,
+	fontFamily: string,
+): Annotation | null {
+	const annotations = model.annotations ?? [];
+	for (let i = annotations.length - 1; i >= 0; i--) {
+		const shape = layoutAnnotation(ctx, model, annotations[i], fontFamily);
+		if (!shape) continue;
+
+		const point = { x, y };
+		if (shape.to) {
+			if (distanceToSegment(point, shape.at, shape.to) <= ARROW_HIT_DISTANCE) return annotations[i];
+			continue;
+		}
+		const { bounds } = shape;
+		if (
+			x >= bounds.x &&
+			x <= bounds.x + bounds.width &&
+			y >= bounds.y &&
+			y <= bounds.y + bounds.height
+		) {
+			return annotations[i];
+		}
+	}
+	return null;
+}
+
+/**
+ * Draw a numbered disc (pins, arrow tails, legend rows).
+ */
+function drawNumberMarker(
+	ctx: WireframeContext2D,
+	x: number,
+	y: number,
+	radius: number,
+	number: number,
+	fontFamily: string,
+): void {
+	ctx.fillStyle = ANNOTATION_COLOR;
+	ctx.strokeStyle = "#ffffff";
+	ctx.lineWidth = 2;
+	ctx.beginPath();
+	ctx.arc(x, y, radius, 0, Math.PI * 2);
+	ctx.fill();
+	ctx.stroke();
+
+	ctx.fillStyle = "#ffffff";
+	ctx.font = `bold ${Math.round(radius * 1.1)}px ${fontFamily}`;
+	ctx.textAlign = "center";
+	ctx.textBaseline = "middle";
+	ctx.fillText(String(number), x, y + 0.5);
+	ctx.textAlign = "left"; // Reset
+}
+
+function drawArrow(ctx: WireframeContext2D, from: Point, to: Point, sketch: Sketch | null): void {
+	const angle = Math.atan2(to.y - from.y, to.x - from.x);
+	// Stop the shaft at the head's base so the tip stays sharp
+	const baseX = to.x - Math.cos(angle) * ARROW_HEAD_SIZE * 0.8;
+	const baseY = to.y - Math.sin(angle) * ARROW_HEAD_SIZE * 0.8;
+
+	ctx.strokeStyle = ANNOTATION_COLOR;
+	ctx.lineWidth = 2.5;
+	ctx.setLineDash([]);
+	if (sketch) {
+		sketchLine(ctx, sketch, from.x, from.y, baseX, baseY);
+	} else {
+		ctx.beginPath();
+		ctx.moveTo(from.x, from.y);
+		ctx.lineTo(baseX, baseY);
+		ctx.stroke();
+	}
+
+	const spread = Math.PI / 7;
+	ctx.fillStyle = ANNOTATION_COLOR;
+	ctx.beginPath();
+	ctx.moveTo(to.x, to.y);
+	ctx.lineTo(
+		to.x - Math.cos(angle - spread) * ARROW_HEAD_SIZE,
+		to.y - Math.sin(angle - spread) * ARROW_HEAD_SIZE,
+	);
+	ctx.lineTo(
+		to.x - Math.cos(angle + spread) * ARROW_HEAD_SIZE,
+		to.y - Math.sin(angle + spread) * ARROW_HEAD_SIZE,
+	);
+	ctx.closePath();
+	ctx.fill();
+}
+
+function drawNote(
+	ctx: WireframeContext2D,
+	shape: AnnotationShape,
+	fontFamily: string,
+	sketch: Sketch | null,
+): void {
+	const { x, y, width, height } = shape.bounds;
+	ctx.fillStyle = NOTE_FILL;
+	ctx.strokeStyle = NOTE_BORDER;
+	ctx.lineWidth = 1.5;
+	ctx.setLineDash([]);
+	if (sketch) {
+		sketchRectPath(ctx, sketch, x, y, width, height);
+		ctx.fill();
+		sketchRectStroke(ctx, sketch, x, y, width, height);
+	} else {
+		ctx.beginPath();
+		ctx.moveTo(x, y);
+		ctx.lineTo(x + width, y);
+		ctx.lineTo(x + width, y + height);
+		ctx.lineTo(x, y + height);
+		ctx.closePath();
+		ctx.fill();
+		ctx.stroke();
+	}
+
+	ctx.fillStyle = NOTE_TEXT_COLOR;
+	ctx.font = noteFont(fontFamily);
+	ctx.textAlign = "left";
+	ctx.textBaseline = "middle";
+	shape.lines.forEach((line, index) => {
+		ctx.fillText(line, x + NOTE_PADDING, y + NOTE_PADDING + (index + 0.5) * NOTE_LINE_HEIGHT);
+	});
+}
+
+/**
+ * Draw the model's annotations in page coordinates. Annotations attached
+ * to missing (e.g. hidden) nodes are skipped.
+ */
+export function drawAnnotations(
+	ctx: WireframeContext2D,
+	model: WireframeModel,
+	fontFamily: string,
+	sketch: Sketch | null,
+): void {
+	const annotations = model.annotations ?? [];
+	if (annotations.length === 0) return;
+	const numbers = getAnnotationNumbers(annotations);
+
+	ctx.beginGroup?.({ class: "wf-annotations" });
+	for (const annotation of annotations) {
+		const shape = layoutAnnotation(ctx, model, annotation, fontFamily);
+		if (!shape) continue;
+
+		ctx.beginGroup?.({
+			class: "wf-annotation",
+			"data-annotation-id": annotation.id,
+			"data-type": annotation.type,
+		});
+		const number = numbers.get(annotation.id);
+		switch (annotation.type) {
+			case "pin":
+				drawNumberMarker(ctx, shape.at.x, shape.at.y, PIN_RADIUS, number ?? 0, fontFamily);
+				break;
+			case "arrow":
+				drawArrow(ctx, shape.at, shape.to as Point, sketch);
+				if (number) {
+					drawNumberMarker(ctx, shape.at.x, shape.at.y, ARROW_MARKER_RADIUS, number, fontFamily);
+				}
+				break;
+			case "note":
+				drawNote(ctx, shape, fontFamily, sketch);
+				break;
+			case "text":
+				ctx.fillStyle = ANNOTATION_COLOR;
+				ctx.font = textFont(fontFamily);
+				ctx.textAlign = "left";
+				ctx.textBaseline = "middle";
+				shape.lines.forEach((line, index) => {
+					ctx.fillText(line, shape.at.x, shape.at.y + (index + 0.5) * TEXT_LINE_HEIGHT);
+				});
+				break;
+		}
+		ctx.endGroup?.();
+	}
+	ctx.endGroup?.();
+}
+
+/**
+ * Height of the notes legend for `count` notes (0 when there are none).
+ */
+export function getNotesLegendHeight(count: number): number {
+	if (count === 0) return 0;
+	return NOTES_PADDING * 2 + NOTES_TITLE_HEIGHT + count * NOTES_ROW_HEIGHT;
+}
+
+/**
+ * Draw the notes legend (number + text per row) in a band starting at `y`,
+ * as tall as getNotesLegendHeight.
+ */
+export function drawNotesLegend(
+	ctx: WireframeContext2D,
+	notes: NumberedNote[],
+	y: number,
+	width: number,
+	theme: WireframeTheme,
+): void {
+	if (notes.length === 0) return;
+	const { fontFamily } = theme;
+
+	ctx.beginGroup?.({ class: "wf-notes" });
+
+	ctx.fillStyle = theme.backgroundColor;
+	ctx.fillRect(0, y, width, getNotesLegendHeight(notes.length));
+
+	// Separator from the page (or the color legend)
+	ctx.strokeStyle = theme.placeholder.textLine;
+	ctx.lineWidth = 1;
+	ctx.setLineDash([]);
+	ctx.beginPath();
+	ctx.moveTo(0, y + 0.5);
+	ctx.lineTo(width, y + 0.5);
+	ctx.stroke();
+
+	ctx.fillStyle = theme.labelColor;
+	ctx.textBaseline = "top";
+	ctx.textAlign = "left";
+	ctx.font = `bold 13px ${fontFamily}`;
+	ctx.fillText("Notes", NOTES_PADDING, y + NOTES_PADDING);
+
+	const markerRadius = 8;
+	notes.forEach((note, index) => {
+		const centerY =
+			y + NOTES_PADDING + NOTES_TITLE_HEIGHT + index * NOTES_ROW_HEIGHT + markerRadius;
+		drawNumberMarker(
+			ctx,
+			NOTES_PADDING + markerRadius,
+			centerY,
+			markerRadius,
+			note.number,
+			fontFamily,
+		);
+
+		const textX = NOTES_PADDING + markerRadius * 2 + 8;
+		ctx.fillStyle = theme.labelColor;
+		ctx.font = `12px ${fontFamily}`;
+		ctx.textBaseline = "middle";
+		ctx.fillText(
+			fitText(ctx, note.text.replace(/\s+/g, " "), width - textX - NOTES_PADDING),
+			textX,
+			centerY,
+		);
+	});
+
+	ctx.endGroup?.();
+}
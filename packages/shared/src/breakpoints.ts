@@ -0,0 +1,208 @@
+/**
+ * Breakpoints
+ *
+ * Multi-breakpoint captures: one WireframeModel per viewport width, with
+ * matching sections linked across breakpoints, plus a side-by-side
+ * composite drawn with the shared render core.
+ *
+ * Sections are matched by source element selector when every capture
+ * records selectors, so generic labels ("Section", "Card") pair up by DOM
+ * element. Otherwise, and for nodes without a selector, they're matched by
+ * normalized label ("Services Grid (4)" and "Services grid (2)" match),
+ * falling back to tag + semantic type for unlabeled nodes. Repeated keys
+ * are paired in document order.
+ *
+ * @module shared/breakpoints
+ */
+
+import type { DrawGroupAttributes, WireframeContext2D } from "./draw-context.js";
+import { drawWireframe, getRenderTheme } from "./render-core.js";
+import type {
+	BadgeInfo,
+	RendererConfig,
+	SemanticType,
+	WireframeModel,
+	WireframeNode,
+} from "./types.js";
+
+/** Breakpoint widths used when none are given */
+export const DEFAULT_BREAKPOINTS = [375, 768, 1280];
+
+/** Horizontal gap between composite columns */
+const COMPOSITE_GAP = 40;
+
+/** Height of the caption strip above each column */
+const COMPOSITE_CAPTION_HEIGHT = 36;
+
+/**
+ * One breakpoint's capture.
+ */
+export interface BreakpointCapture {
+	/** Viewport width the page was captured at */
+	width: number;
+	model: WireframeModel;
+}
+
+/**
+ * A section matched across breakpoints.
+ */
+export interface BreakpointLink {
+	/** Matching key (selector, normalized label, or tag/type for unlabeled nodes) */
+	key: string;
+	/** Label from the first breakpoint where the section appears */
+	label: string;
+	semanticType: SemanticType;
+	/** Node id per breakpoint width; missing widths mean the section isn't there */
+	nodeIds: Record<number, string>;
+}
+
+/**
+ * Complete multi-breakpoint result (written as JSON by the MCP server).
+ */
+export interface BreakpointSet {
+	captures: BreakpointCapture[];
+	links: BreakpointLink[];
+}
+
+/**
+ * Position of one capture in the composite image.
+ */
+export interface CompositeColumn {
+	width: number;
+	x: number;
+	y: number;
+}
+
+export interface CompositeLayout {
+	width: number;
+	height: number;
+	columns: CompositeColumn[];
+}
+
+/**
+ * Matching key for a node: its selector when selectors are used, else the
+ * normalized label without counts and punctuation.
+ */
+function linkKey(node: WireframeNode, useSelectors: boolean): string {
+	if (useSelectors && node.selector) return node.selector;
+	const label = node.label
+		.toLowerCase()
+		.replace(/\(\s*[\d\w-]*\s*\)/g, "")
+		.replace(/[^a-z0-9]+/g, " ")
+		.trim();
+	return label || `<${node.tagName}>/${node.semanticType}`;
+}
+
+function walk(nodes: WireframeNode[], visit: (node: WireframeNode) => void): void {
+	for (const node of nodes) {
+		visit(node);
+		walk(node.children, visit);
+	}
+}
+
+function hasSelectors(model: WireframeModel): boolean {
+	let found = false;
+	walk(model.nodes, (node) => {
+		if (node.selector) found = true;
+	});
+	return found;
+}
+
+/**
+ * Link matching sections across breakpoint captures.
+ * Only sections found in at least two breakpoints are returned.
+ */
+export function linkBreakpoints(captures: BreakpointCapture[]): BreakpointLink[] {
+	const links = new Map<string, BreakpointLink>();
+	const useSelectors = captures.every((capture) => hasSelectors(capture.model));
+
+	for (const capture of captures) {
+		const occurrences = new Map<string, number>();
+		walk(capture.model.nodes, (node) => {
+			const baseKey = linkKey(node, useSelectors);
+			const occurrence = (occurrences.get(baseKey) ?? 0) + 1;
+			occurrences.set(baseKey, occurrence);
+			const key = occurrence > 1 ? `${baseKey}#${occurrence}` : baseKey;
+
+			let link = links.get(key);
+			if (!link) {
+				link = { key, label: node.label, semanticType: node.semanticType, nodeIds: {} };
+				links.set(key, link);
+			}
+			link.nodeIds[capture.width] = node.id;
+		});
+	}
+
+	return Array.from(links.values()).filter((link) => Object.keys(link.nodeIds).length > 1);
+}
+
+/**
+ * Capture results plus cross-breakpoint links, sorted by width.
+ */
+export function buildBreakpointSet(captures: BreakpointCapture[]): BreakpointSet {
+	const sorted = [...captures].sort((a, b) => a.width - b.width);
+	return { captures: sorted, links: linkBreakpoints(sorted) };
+}
+
+/**
+ * Compute the side-by-side layout: one column per capture, top-aligned,
+ * under a caption strip.
+ */
+export function layoutComposite(captures: BreakpointCapture[]): CompositeLayout {
+	const columns: CompositeColumn[] = [];
+	let x = COMPOSITE_GAP;
+	let height = 0;
+
+	for (const capture of captures) {
+		columns.push({ width: capture.model.viewport.width, x, y: COMPOSITE_CAPTION_HEIGHT });
+		x += capture.model.viewport.width + COMPOSITE_GAP;
+		height = Math.max(height, capture.model.fullPageHeight);
+	}
+
+	return { width: x, height: COMPOSITE_CAPTION_HEIGHT + height + COMPOSITE_GAP, columns };
+}
+
+/**
+ * Draw every capture side by side with a width caption above each.
+ * Returns badges per capture, offset into composite coordinates.
+ */
+export function drawComposite(
+	ctx: WireframeContext2D,
+	captures: BreakpointCapture[],
+	config: RendererConfig,
+): BadgeInfo[][] {
+	const layout = layoutComposite(captures);
+	const theme = getRenderTheme(config);
+
+	ctx.fillStyle = theme.frameColor;
+	ctx.fillRect(0, 0, layout.width, layout.height);
+
+	return captures.map((capture, index) => {
+		const column = layout.columns[index];
+		const group: DrawGroupAttributes = {
+			class: "wf-breakpoint",
+			"data-width": String(capture.width),
+		};
+		ctx.beginGroup?.(group);
+
+		ctx.fillStyle = theme.labelColor;
+		ctx.font = `bold 14px ${theme.fontFamily}`;
+		ctx.textAlign = "left";
+		ctx.textBaseline = "middle";
+		ctx.fillText(`${capture.width}px`, column.x, COMPOSITE_CAPTION_HEIGHT / 2);
+
+		ctx.save();
+		ctx.translate(column.x, column.y);
+		// Columns are laid out at full page height, so no legend band or range
+		const badges = drawWireframe(ctx, capture.model, {
+			...config,
+			showLegend: false,
+			showNotes: false,
+			range: undefined,
+		});
+		ctx.restore();
+
+		ctx.endGroup?.();
+		return badges.map((badge) => ({ ...badge, x: badge.x + column.x, y: badge.y + column.y }));
+	});
+}
@@ -0,0 +1,380 @@
+/**
+ * Structural Diff
+ *
+ * Compares two WireframeModels ("before" and "after") and classifies every
+ * node as added, removed, moved, resized, relabeled or unchanged. Also draws
+ * a color-coded diff image with the shared render core.
+ *
+ * Matching runs in passes, most specific first:
+ * 1. Same source element selector (when both nodes have one)
+ * 2. Same normalized label (ties broken by closest geometry)
+ * 3. Same tag + semantic type with overlapping boxes (IoU)
+ * Whatever is left is removed (before only) or added (after only).
+ *
+ * @module shared/diff
+ */
+
+import type { WireframeContext2D } from "./draw-context.js";
+import { drawWireframe, getRenderTheme } from "./render-core.js";
+import { LABEL_FONT_FAMILY } from "./theme.js";
+import type { BoundingBox, RendererConfig, WireframeModel, WireframeNode } from "./types.js";
+
+/** Kind of change detected on a matched node */
+export type DiffChange = "moved" | "resized" | "relabeled";
+
+/** Overall classification of a node */
+export type DiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+/**
+ * Diff result for one node (or matched pair of nodes).
+ */
+export interface NodeDiff {
+	status: DiffStatus;
+	/** Specific changes (only for "changed") */
+	changes: DiffChange[];
+	/** Node in the before model (missing when added) */
+	before?: WireframeNode;
+	/** Node in the after model (missing when removed) */
+	after?: WireframeNode;
+}
+
+/**
+ * Complete diff between two models.
+ */
+export interface ModelDiff {
+	entries: NodeDiff[];
+	counts: Record<DiffStatus | DiffChange, number>;
+	/** Size of the diff image (covers both pages) */
+	width: number;
+	height: number;
+}
+
+export interface DiffOptions {
+	/** Position/size changes at or below this many pixels are ignored (default: 8) */
+	tolerance?: number;
+	/** Minimum box overlap (IoU) to match unlabeled nodes by geometry (default: 0.5) */
+	minOverlap?: number;
+}
+
+/** Colors used in diff images */
+export const DIFF_COLORS: Record<Exclude<DiffStatus, "unchanged"> | DiffChange, string> = {
+	added: "#2e7d32", // Green
+	removed: "#c62828", // Red
+	changed: "#1565c0", // Blue
+	moved: "#1565c0", // Blue
+	resized: "#ef6c00", // Orange
+	relabeled: "#6a1b9a", // Purple
+};
+
+function flatten(nodes: WireframeNode[], out: WireframeNode[] = []): WireframeNode[] {
+	for (const node of nodes) {
+		out.push(node);
+		flatten(node.children, out);
+	}
+	return out;
+}
+
+function normalizeLabel(label: string): string {
+	return label
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, " ")
+		.trim();
+}
+
+function intersectionOverUnion(a: BoundingBox, b: BoundingBox): number {
+	const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+	const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+	if (width <= 0 || height <= 0) return 0;
+	const intersection = width * height;
+	return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+function centerDistance(a: BoundingBox, b: BoundingBox): number {
+	return Math.hypot(
+		a.x + a.width / 2 - (b.x + b.width / 2),
+		a.y + a.height / 2 - (b.y + b.height / 2),
+	);
+}
+
+/**
+ * Classify the changes between two matched nodes.
+ */
+function compareNodes(
+	before: WireframeNode,
+	after: WireframeNode,
+	tolerance: number,
+): DiffChange[] {
+	const changes: DiffChange[] = [];
+	if (
+		Math.abs(before.bbox.x - after.bbox.x) > tolerance ||
+		Math.abs(before.bbox.y - after.bbox.y) > tolerance
+	) {
+		changes.push("moved");
+	}
+	if (
+		Math.abs(before.bbox.width - after.bbox.width) > tolerance ||
+		Math.abs(before.bbox.height - after.bbox.height) > tolerance
+	) {
+		changes.push("resized");
+	}
+	if (before.label.trim() !== after.label.trim()) changes.push("relabeled");
+	return changes;
+}
+
+/**
+ * Compute a structural diff between two models.
+ */
+export function diffModels(
+	before: WireframeModel,
+	after: WireframeModel,
+	options: DiffOptions = {},
+): ModelDiff {
+	const { tolerance = 8, minOverlap = 0.5 } = options;
+	const beforeNodes = flatten(before.nodes);
+	const afterNodes = flatten(after.nodes);
+	const unmatchedAfter = new Set(afterNodes);
+	const pairs = new Map<WireframeNode, WireframeNode>();
+
+	// Pass 1: same source element
+	const afterBySelector = new Map<string, WireframeNode>();
+	for (const node of afterNodes) {
+		if (node.selector && !afterBySelector.has(node.selector)) {
+			afterBySelector.set(node.selector, node);
+		}
+	}
+	for (const node of beforeNodes) {
+		const match = node.selector ? afterBySelector.get(node.selector) : undefined;
+		if (match && unmatchedAfter.has(match)) {
+			pairs.set(node, match);
+			unmatchedAfter.delete(match);
+		}
+	}
+
+	// Pass 2: same label, closest geometry wins
+	for (const node of beforeNodes) {
+		if (pairs.has(node)) continue;
+		const label = normalizeLabel(node.label);
+		if (!label) continue;
+
+		let best: WireframeNode | undefined;
+		for (const candidate of unmatchedAfter) {
+			if (normalizeLabel(candidate.label) !== label) continue;
+			if (
+				!best ||
+				centerDistance(node.bbox, candidate.bbox) < centerDistance(node.bbox, best.bbox)
+			) {
+				best = candidate;
+			}
+		}
+		if (best) {
+			pairs.set(node, best);
+			unmatchedAfter.delete(best);
+		}
+	}
+
+	// Pass 3: same tag + type, best overlap
+	for (const node of beforeNodes) {
+		if (pairs.has(node)) continue;
+
+		let best: WireframeNode | undefined;
+		let bestOverlap = minOverlap;
+		for (const candidate of unmatchedAfter) {
+			if (candidate.tagName !== node.tagName || candidate.semanticType !== node.semanticType)
+				continue;
+			const overlap = intersectionOverUnion(node.bbox, candidate.bbox);
+			if (overlap >= bestOverlap) {
+				best = candidate;
+				bestOverlap = overlap;
+			}
+		}
+		if (best) {
+			pairs.set(node, best);
+			unmatchedAfter.delete(best);
+		}
+	}
+
+	const entries: NodeDiff[] = [];
+	for (const node of beforeNodes) {
+		const match = pairs.get(node);
+		if (!match) {
+			entries.push({ status: "removed", changes: [], before: node });
+			continue;
+		}
+		const changes = compareNodes(node, match, tolerance);
+		entries.push({
+			status: changes.length > 0 ? "changed" : "unchanged",
+			changes,
+			before: node,
+			after: match,
+		});
+	}
+	for (const node of afterNodes) {
+		if (unmatchedAfter.has(node)) entries.push({ status: "added", changes: [], after: node });
+	}
+
+	const counts: ModelDiff["counts"] = {
+		added: 0,
+		removed: 0,
+		changed: 0,
+		unchanged: 0,
+		moved: 0,
+		resized: 0,
+		relabeled: 0,
+	};
+	for (const entry of entries) {
+		counts[entry.status]++;
+		for (const change of entry.changes) counts[change]++;
+	}
+
+	return {
+		entries,
+		counts,
+		width: Math.max(before.viewport.width, after.viewport.width),
+		height: Math.max(before.fullPageHeight, after.fullPageHeight),
+	};
+}
+
+/**
+ * One-line description of a diff entry, e.g. `~ Hero: moved (0, +120), relabeled`.
+ */
+export function describeNodeDiff(entry: NodeDiff): string {
+	const name = (node?: WireframeNode) => (node ? node.label || `<${node.tagName}>` : "");
+	const signed = (value: number) => `${value >= 0 ? "+" : ""}${Math.round(value)}`;
+
+	switch (entry.status) {
+		case "added":
+			return `+ ${name(entry.after)}`;
+		case "removed":
+			return `- ${name(entry.before)}`;
+		case "unchanged":
+			return `  ${name(entry.after)}`;
+		case "changed": {
+			const { before, after } = entry as Required<NodeDiff>;
+			const details = entry.changes.map((change) => {
+				if (change === "moved") {
+					return `moved (${signed(after.bbox.x - before.bbox.x)}, ${signed(after.bbox.y - before.bbox.y)})`;
+				}
+				if (change === "resized") {
+					return `resized (${Math.round(before.bbox.width)}x${Math.round(before.bbox.height)} → ${Math.round(after.bbox.width)}x${Math.round(after.bbox.height)})`;
+				}
+				return `relabeled (was "${before.label}")`;
+			});
+			return `~ ${name(after)}: ${details.join(", ")}`;
+		}
+	}
+}
+
+function strokeBox(
+	ctx: WireframeContext2D,
+	bbox: BoundingBox,
+	color: string,
+	lineWidth: number,
+	dash: number[] = [],
+): void {
+	ctx.strokeStyle = color;
+	ctx.lineWidth = lineWidth;
+	ctx.setLineDash(dash);
+	ctx.beginPath();
+	ctx.moveTo(bbox.x, bbox.y);
+	ctx.lineTo(bbox.x + bbox.width, bbox.y);
+	ctx.lineTo(bbox.x + bbox.width, bbox.y + bbox.height);
+	ctx.lineTo(bbox.x, bbox.y + bbox.height);
+	ctx.closePath();
+	ctx.stroke();
+	ctx.setLineDash([]);
+}
+
+/**
+ * Draw the legend box in the top-right corner.
+ */
+function drawLegend(ctx: WireframeContext2D, diff: ModelDiff): void {
+	const items: Array<[string, string]> = [
+		[DIFF_COLORS.added, `Added (${diff.counts.added})`],
+		[DIFF_COLORS.removed, `Removed (${diff.counts.removed})`],
+		[DIFF_COLORS.moved, `Moved (${diff.counts.moved})`],
+		[DIFF_COLORS.resized, `Resized (${diff.counts.resized})`],
+		[DIFF_COLORS.relabeled, `Relabeled (${diff.counts.relabeled})`],
+	];
+	const rowHeight = 20;
+	const width = 150;
+	const x = diff.width - width - 12;
+	const y = 12;
+
+	ctx.beginGroup?.({ class: "wf-diff-legend" });
+	ctx.globalAlpha = 0.92;
+	ctx.fillStyle = "#ffffff";
+	ctx.fillRect(x, y, width, items.length * rowHeight + 12);
+	ctx.globalAlpha = 1;
+
+	ctx.font = `12px ${LABEL_FONT_FAMILY}`;
+	ctx.textAlign = "left";
+	ctx.textBaseline = "middle";
+	items.forEach(([color, text], index) => {
+		const rowY = y + 6 + index * rowHeight + rowHeight / 2;
+		ctx.fillStyle = color;
+		ctx.fillRect(x + 10, rowY - 5, 10, 10);
+		ctx.fillStyle = "#333333";
+		ctx.fillText(text, x + 28, rowY);
+	});
+	ctx.endGroup?.();
+}
+
+/**
+ * Draw a color-coded diff: the after model (faded) with change outlines.
+ * Removed nodes are shown dashed at their old position; moved nodes get a
+ * dashed ghost of their old box and a line to the new one.
+ */
+export function drawDiff(
+	ctx: WireframeContext2D,
+	after: WireframeModel,
+	diff: ModelDiff,
+	config: RendererConfig,
+): void {
+	ctx.fillStyle = getRenderTheme(config).backgroundColor;
+	ctx.fillRect(0, 0, diff.width, diff.height);
+
+	ctx.globalAlpha = 0.45;
+	drawWireframe(ctx, after, { ...config, showLegend: false, showNotes: false, range: undefined });
+	ctx.globalAlpha = 1;
+
+	for (const entry of diff.entries) {
+		if (entry.status === "unchanged") continue;
+		const node = entry.after ?? entry.before;
+		ctx.beginGroup?.({
+			class: `wf-diff wf-diff-${entry.status}`,
+			"data-node-id": node?.id ?? "",
+			"data-changes": entry.changes.join(" "),
+		});
+
+		if (entry.status === "added" && entry.after) {
+			strokeBox(ctx, entry.after.bbox, DIFF_COLORS.added, 3);
+		} else if (entry.status === "removed" && entry.before) {
+			strokeBox(ctx, entry.before.bbox, DIFF_COLORS.removed, 3, [8, 4]);
+		} else if (entry.before && entry.after) {
+			const { before, after: current } = entry;
+			if (entry.changes.includes("moved")) {
+				strokeBox(ctx, before.bbox, DIFF_COLORS.moved, 1, [4, 4]);
+				ctx.strokeStyle = DIFF_COLORS.moved;
+				ctx.lineWidth = 1;
+				ctx.beginPath();
+				ctx.moveTo(before.bbox.x + before.bbox.width / 2, before.bbox.y + before.bbox.height / 2);
+				ctx.lineTo(
+					current.bbox.x + current.bbox.width / 2,
+					current.bbox.y + current.bbox.height / 2,
+				);
+				ctx.stroke();
+			}
+			// Most significant change picks the outline color
+			const color = entry.changes.includes("resized")
+				? DIFF_COLORS.resized
+				: entry.changes.includes("moved")
+					? DIFF_COLORS.moved
+					: DIFF_COLORS.relabeled;
+			strokeBox(ctx, current.bbox, color, 3);
+		}
+
+		ctx.endGroup?.();
+	}
+
+	drawLegend(ctx, diff);
+}
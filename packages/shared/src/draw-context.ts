@@ -0,0 +1,64 @@
+/**
+ * Drawing Context Interface
+ *
+ * The minimal subset of the Canvas 2D API used by the shared render core.
+ * Both the browser's `CanvasRenderingContext2D` and @napi-rs/canvas's
+ * `SKRSContext2D` satisfy it structurally, and `SvgContext` implements it
+ * to produce vector output from the same drawing code.
+ *
+ * @module shared/draw-context
+ */
+
+/**
+ * Attributes attached to a logical group (used by vector backends only).
+ */
+export type DrawGroupAttributes = Record<string, string>;
+
+/**
+ * Minimal 2D drawing context.
+ */
+export interface WireframeContext2D {
+	/** Fill paint (renderers only assign CSS color strings) */
+	fillStyle: string | object;
+	/** Stroke paint (renderers only assign CSS color strings) */
+	strokeStyle: string | object;
+	lineWidth: number;
+	lineCap: "butt" | "round" | "square";
+	font: string;
+	textAlign: "center" | "end" | "left" | "right" | "start";
+	textBaseline: "alphabetic" | "bottom" | "hanging" | "ideographic" | "middle" | "top";
+	globalAlpha: number;
+
+	save(): void;
+	restore(): void;
+	translate(x: number, y: number): void;
+
+	beginPath(): void;
+	closePath(): void;
+	moveTo(x: number, y: number): void;
+	lineTo(x: number, y: number): void;
+	quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void;
+	arc(
+		x: number,
+		y: number,
+		radius: number,
+		startAngle: number,
+		endAngle: number,
+		counterclockwise?: boolean,
+	): void;
+	fill(): void;
+	stroke(): void;
+	setLineDash(segments: number[]): void;
+
+	fillRect(x: number, y: number, width: number, height: number): void;
+	fillText(text: string, x: number, y: number): void;
+	measureText(text: string): { width: number };
+
+	/**
+	 * Open a logical group (e.g. one wireframe node). Optional: raster
+	 * contexts ignore grouping, vector contexts emit `<g>` elements.
+	 */
+	beginGroup?(attributes: DrawGroupAttributes): void;
+	/** Close the most recently opened group */
+	endGroup?(): void;
+}
@@ -0,0 +1,477 @@
+/**
+ * Excalidraw Exporter
+ *
+ * Converts a WireframeModel into an `.excalidraw` scene so the layout can be
+ * opened and edited in Excalidraw instead of being redrawn by hand.
+ *
+ * Mapping:
+ * - Each node → rectangle (semantic fill, dashed stroke for nested non-landmarks)
+ * - Node label → text element in the top-left corner
+ * - Content hints → crossed boxes, pills, text lines and circles
+ * - Children → grouped with their parent via nested `groupIds`, so a whole
+ *   section moves as one unit
+ *
+ * Output is deterministic: ids and seeds derive from node ids, not randomness.
+ *
+ * @module shared/excalidraw
+ */
+
+import { getBorderWidth, getFillRgb, rgbToHex } from "./palette.js";
+import type { ContentHint, WireframeModel, WireframeNode } from "./types.js";
+
+const STROKE_COLOR = "#333333";
+const HINT_STROKE_COLOR = "#999999";
+const LABEL_FONT_SIZE = 14;
+
+/** Excalidraw font family id for "Helvetica" (normal) */
+const FONT_FAMILY_NORMAL = 2;
+
+/**
+ * Minimal subset of the Excalidraw element schema we emit.
+ */
+export interface ExcalidrawElement {
+	id: string;
+	type: "rectangle" | "ellipse" | "line" | "text";
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	angle: number;
+	strokeColor: string;
+	backgroundColor: string;
+	fillStyle: "solid" | "hachure";
+	strokeWidth: number;
+	strokeStyle: "solid" | "dashed";
+	roughness: number;
+	opacity: number;
+	groupIds: string[];
+	frameId: null;
+	roundness: { type: number } | null;
+	seed: number;
+	version: number;
+	versionNonce: number;
+	isDeleted: boolean;
+	boundElements: null;
+	updated: number;
+	link: null;
+	locked: boolean;
+	/** Line points relative to (x, y) */
+	points?: Array<[number, number]>;
+	/** Text element fields */
+	text?: string;
+	originalText?: string;
+	fontSize?: number;
+	fontFamily?: number;
+	textAlign?: "left" | "center";
+	verticalAlign?: "top" | "middle";
+	containerId?: null;
+	lineHeight?: number;
+	autoResize?: boolean;
+}
+
+/**
+ * Excalidraw scene file (`.excalidraw`).
+ */
+export interface ExcalidrawScene {
+	type: "excalidraw";
+	version: 2;
+	source: string;
+	elements: ExcalidrawElement[];
+	appState: {
+		viewBackgroundColor: string;
+		gridSize: null;
+	};
+	files: Record<string, never>;
+}
+
+/**
+ * Deterministic 31-bit hash for element seeds.
+ */
+function hashString(value: string): number {
+	let hash = 0;
+	for (let i = 0; i < value.length; i++) {
+		hash = (hash * 31 + value.charCodeAt(i)) | 0;
+	}
+	return Math.abs(hash) || 1;
+}
+
+/**
+ * Create an element with Excalidraw defaults filled in.
+ */
+function createElement(
+	id: string,
+	type: ExcalidrawElement["type"],
+	bounds: { x: number; y: number; width: number; height: number },
+	groupIds: string[],
+	overrides: Partial<ExcalidrawElement> = {},
+): ExcalidrawElement {
+	const seed = hashString(id);
+	return {
+		id,
+		type,
+		x: bounds.x,
+		y: bounds.y,
+		width: bounds.width,
+		height: bounds.height,
+		angle: 0,
+		strokeColor: STROKE_COLOR,
+		backgroundColor: "transparent",
+		fillStyle: "solid",
+		strokeWidth: 1,
+		strokeStyle: "solid",
+		roughness: 0,
+		opacity: 100,
+		groupIds,
+		frameId: null,
+		roundness: null,
+		seed,
+		version: 1,
+		versionNonce: hashString(`${id}:nonce`),
+		isDeleted: false,
+		boundElements: null,
+		updated: 1,
+		link: null,
+		locked: false,
+		...overrides,
+	};
+}
+
+/**
+ * Create a free-standing text element.
+ */
+function createText(
+	id: string,
+	text: string,
+	x: number,
+	y: number,
+	fontSize: number,
+	groupIds: string[],
+	overrides: Partial<ExcalidrawElement> = {},
+): ExcalidrawElement {
+	// Excalidraw recomputes text dimensions on load; this is a close estimate
+	const width = text.length * fontSize * 0.55;
+	const height = fontSize * 1.25;
+	return createElement(id, "text", { x, y, width, height }, groupIds, {
+		text,
+		originalText: text,
+		fontSize,
+		fontFamily: FONT_FAMILY_NORMAL,
+		textAlign: "left",
+		verticalAlign: "top",
+		containerId: null,
+		lineHeight: 1.25,
+		autoResize: true,
+		...overrides,
+	});
+}
+
+/**
+ * Create a straight line element between two absolute points.
+ */
+function createLine(
+	id: string,
+	x1: number,
+	y1: number,
+	x2: number,
+	y2: number,
+	groupIds: string[],
+	overrides: Partial<ExcalidrawElement> = {},
+): ExcalidrawElement {
+	return createElement(
+		id,
+		"line",
+		{ x: x1, y: y1, width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) },
+		groupIds,
+		{
+			points: [
+				[0, 0],
+				[x2 - x1, y2 - y1],
+			],
+			strokeColor: HINT_STROKE_COLOR,
+			...overrides,
+		},
+	);
+}
+
+/**
+ * Convert a content hint into one or more Excalidraw elements.
+ */
+function convertContentHint(
+	hint: ContentHint,
+	id: string,
+	groupIds: string[],
+): ExcalidrawElement[] {
+	const { x, y, width, height } = hint.bbox;
+
+	switch (hint.type) {
+		case "image": {
+			// CSS background images are fainter, like in the render core
+			const strokeColor = hint.background ? "#cccccc" : HINT_STROKE_COLOR;
+			return [
+				createElement(id, "rectangle", hint.bbox, groupIds, {
+					strokeColor,
+					roundness: { type: 3 },
+				}),
+				createLine(`${id}-d1`, x, y, x + width, y + height, groupIds, { strokeColor }),
+				createLine(`${id}-d2`, x + width, y, x, y + height, groupIds, { strokeColor }),
+			];
+		}
+		case "button": {
+			const elements = [
+				createElement(id, "rectangle", hint.bbox, groupIds, {
+					strokeColor: "#666666",
+					backgroundColor: "#e0e0e0",
+					roundness: { type: 3 },
+				}),
+			];
+			if (hint.label) {
+				const fontSize = Math.max(10, Math.min(14, height - 8));
+				elements.push(
+					createText(
+						`${id}-label`,
+						hint.label,
+						x + 8,
+						y + (height - fontSize * 1.25) / 2,
+						fontSize,
+						groupIds,
+					),
+				);
+			}
+			return elements;
+		}
+		case "text": {
+			const lines: ExcalidrawElement[] = [];
+			const maxLines = Math.min(4, Math.floor((height - 8) / 12));
+			for (let i = 0; i < maxLines; i++) {
+				const lineY = y + 8 + i * 12;
+				const lineWidth = i === maxLines - 1 ? (width - 8) * 0.6 : width - 8;
+				lines.push(
+					createLine(`${id}-l${i}`, x + 4, lineY, x + 4 + lineWidth, lineY, groupIds, {
+						strokeColor: "#cccccc",
+						strokeWidth: 2,
+					}),
+				);
+			}
+			return lines;
+		}
+		case "icon":
+			return [
+				createElement(id, "ellipse", hint.bbox, groupIds, { strokeColor: HINT_STROKE_COLOR }),
+			];
+		case "video": {
+			const size = Math.min(40, Math.min(width, height) * 0.3);
+			const cx = x + width / 2;
+			const cy = y + height / 2;
+			return [
+				createElement(id, "rectangle", hint.bbox, groupIds, {
+					strokeColor: HINT_STROKE_COLOR,
+					roundness: { type: 3 },
+				}),
+				createElement(
+					`${id}-play`,
+					"line",
+					{ x: cx - size * 0.4, y: cy - size / 2, width: size, height: size },
+					groupIds,
+					{
+						points: [
+							[0, 0],
+							[0, size],
+							[size, size / 2],
+							[0, 0],
+						],
+						strokeColor: HINT_STROKE_COLOR,
+						backgroundColor: HINT_STROKE_COLOR,
+					},
+				),
+			];
+		}
+		case "map": {
+			const size = Math.min(28, Math.min(width, height) * 0.24);
+			return [
+				createElement(id, "rectangle", hint.bbox, groupIds, {
+					strokeColor: HINT_STROKE_COLOR,
+					roundness: { type: 3 },
+				}),
+				createLine(`${id}-road`, x, y + height * 0.7, x + width, y + height * 0.4, groupIds, {
+					strokeColor: "#cccccc",
+				}),
+				createElement(
+					`${id}-pin`,
+					"ellipse",
+					{ x: x + (width - size) / 2, y: y + height / 2 - size, width: size, height: size },
+					groupIds,
+					{ strokeColor: HINT_STROKE_COLOR },
+				),
+				createLine(
+					`${id}-pin-point`,
+					x + width / 2,
+					y + height / 2,
+					x + width / 2,
+					y + height / 2 + size * 0.7,
+					groupIds,
+				),
+			];
+		}
+		case "input":
+		case "select": {
+			const elements = [
+				createElement(id, "rectangle", hint.bbox, groupIds, {
+					strokeColor: HINT_STROKE_COLOR,
+					backgroundColor: "#ffffff",
+				}),
+			];
+			const fontSize = Math.max(10, Math.min(14, height - 8));
+			if (hint.type === "select") {
+				elements.push(
+					createText(
+						`${id}-chevron`,
+						"▾",
+						x + width - 18,
+						y + (height - fontSize * 1.25) / 2,
+						fontSize,
+						groupIds,
+					),
+				);
+			} else {
+				elements.push(
+					createLine(`${id}-caret`, x + 8, y + height * 0.25, x + 8, y + height * 0.75, groupIds),
+				);
+			}
+			if (hint.label) {
+				elements.push(
+					createText(
+						`${id}-label`,
+						hint.label,
+						x + 14,
+						y + (height - fontSize * 1.25) / 2,
+						fontSize,
+						groupIds,
+						{ strokeColor: HINT_STROKE_COLOR },
+					),
+				);
+			}
+			return elements;
+		}
+		case "table": {
+			const rows = Math.max(2, Math.min(6, Math.floor(height / 24)));
+			const columns = Math.max(2, Math.min(4, Math.floor(width / 80)));
+			const elements = [
+				createElement(id, "rectangle", hint.bbox, groupIds, { strokeColor: HINT_STROKE_COLOR }),
+			];
+			for (let row = 1; row < rows; row++) {
+				const rowY = y + (row * height) / rows;
+				elements.push(createLine(`${id}-r${row}`, x, rowY, x + width, rowY, groupIds));
+			}
+			for (let column = 1; column < columns; column++) {
+				const columnX = x + (column * width) / columns;
+				elements.push(createLine(`${id}-c${column}`, columnX, y, columnX, y + height, groupIds));
+			}
+			return elements;
+		}
+		case "logo": {
+			const fontSize = Math.max(8, Math.min(12, height * 0.5));
+			return [
+				createElement(id, "rectangle", hint.bbox, groupIds, {
+					strokeColor: HINT_STROKE_COLOR,
+					roundness: { type: 3 },
+				}),
+				createText(
+					`${id}-label`,
+					"LOGO",
+					x + 4,
+					y + (height - fontSize * 1.25) / 2,
+					fontSize,
+					groupIds,
+					{ strokeColor: HINT_STROKE_COLOR },
+				),
+			];
+		}
+		case "avatar": {
+			const radius = Math.min(width, height) / 2;
+			const cx = x + width / 2;
+			const cy = y + height / 2;
+			return [
+				createElement(id, "ellipse", hint.bbox, groupIds, { strokeColor: HINT_STROKE_COLOR }),
+				createElement(
+					`${id}-head`,
+					"ellipse",
+					{
+						x: cx - radius * 0.3,
+						y: cy - radius * 0.5,
+						width: radius * 0.6,
+						height: radius * 0.6,
+					},
+					groupIds,
+					{ strokeColor: HINT_STROKE_COLOR },
+				),
+			];
+		}
+	}
+}
+
+/**
+ * Recursively convert a node and its descendants.
+ * @param parentGroups - Group ids of all ancestors, innermost first
+ */
+function convertNode(
+	node: WireframeNode,
+	parentGroups: string[],
+	elements: ExcalidrawElement[],
+): void {
+	const groupId = `group-${node.id}`;
+	const groupIds = [groupId, ...parentGroups];
+	const fill = rgbToHex(getFillRgb(node.semanticType, node.depth));
+
+	elements.push(
+		createElement(node.id, "rectangle", node.bbox, groupIds, {
+			backgroundColor: fill,
+			strokeWidth: getBorderWidth(node.depth),
+			strokeStyle: !node.isLandmark && node.depth > 0 ? "dashed" : "solid",
+			roundness: { type: 3 },
+		}),
+	);
+
+	node.contentHints?.forEach((hint, index) => {
+		elements.push(...convertContentHint(hint, `${node.id}-hint-${index}`, groupIds));
+	});
+
+	if (node.label) {
+		elements.push(
+			createText(
+				`${node.id}-label`,
+				node.label,
+				node.bbox.x + 8,
+				node.bbox.y + 8,
+				LABEL_FONT_SIZE,
+				groupIds,
+			),
+		);
+	}
+
+	for (const child of node.children) {
+		convertNode(child, groupIds, elements);
+	}
+}
+
+/**
+ * Convert a wireframe model into an Excalidraw scene.
+ * Apply label overrides to the model first (see `applyLabelOverrides`).
+ */
+export function toExcalidrawScene(model: WireframeModel): ExcalidrawScene {
+	const elements: ExcalidrawElement[] = [];
+	for (const node of model.nodes) {
+		convertNode(node, [], elements);
+	}
+
+	return {
+		type: "excalidraw",
+		version: 2,
+		source: "wireframe-mapper",
+		elements,
+		appState: {
+			viewBackgroundColor: "#ffffff",
+			gridSize: null,
+		},
+		files: {},
+	};
+}
@@ -0,0 +1,376 @@
+/**
+ * Figma Exporter
+ *
+ * Converts a WireframeModel into a Figma plugin-importable JSON document.
+ * Property names follow the Figma Plugin API (`type`, `name`, `fills`,
+ * `strokes`, `cornerRadius`, `characters`, ...) so an importer plugin can
+ * create each node with `figma.createFrame()` / `createRectangle()` /
+ * `createText()` and assign the fields directly.
+ *
+ * Mapping:
+ * - Each node → FRAME named by its label, nested by `children`
+ * - Content hints → RECTANGLE / ELLIPSE / TEXT layers inside the frame
+ *   (videos, maps, fields, tables and logos as small frames with glyph layers)
+ * - Coordinates are relative to the parent frame, as in Figma
+ * - Colors are 0-1 RGB channels, as in Figma
+ *
+ * @module shared/figma
+ */
+
+import { getBorderWidth, getFillRgb, type RgbColor } from "./palette.js";
+import type { BoundingBox, ContentHint, WireframeModel, WireframeNode } from "./types.js";
+
+/** Identifies the document format for importer plugins */
+export const FIGMA_EXPORT_FORMAT = "wireframe-mapper/figma";
+
+/**
+ * Figma color (channels in 0-1 range).
+ */
+export interface FigmaColor {
+	r: number;
+	g: number;
+	b: number;
+}
+
+/**
+ * Figma solid paint.
+ */
+export interface FigmaPaint {
+	type: "SOLID";
+	color: FigmaColor;
+}
+
+/**
+ * A layer in the exported document.
+ */
+export interface FigmaLayer {
+	type: "FRAME" | "RECTANGLE" | "ELLIPSE" | "TEXT";
+	name: string;
+	/** Position relative to the parent frame */
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	fills: FigmaPaint[];
+	strokes: FigmaPaint[];
+	strokeWeight: number;
+	/** Dash pattern for dashed strokes (empty = solid) */
+	dashPattern: number[];
+	cornerRadius?: number;
+	/** Text content (TEXT layers only) */
+	characters?: string;
+	fontSize?: number;
+	/** Source node id (FRAME layers only) */
+	pluginData?: { nodeId: string; semanticType: string; tagName: string };
+	children?: FigmaLayer[];
+}
+
+/**
+ * Root document: a page-sized frame holding the top-level sections.
+ */
+export interface FigmaDocument {
+	format: typeof FIGMA_EXPORT_FORMAT;
+	version: 1;
+	name: string;
+	pageUrl: string;
+	capturedAt: string;
+	root: FigmaLayer;
+}
+
+function toFigmaColor({ r, g, b }: RgbColor): FigmaColor {
+	return { r: r / 255, g: g / 255, b: b / 255 };
+}
+
+function solid(hex: string): FigmaPaint {
+	const value = hex.replace("#", "");
+	return {
+		type: "SOLID",
+		color: toFigmaColor({
+			r: parseInt(value.slice(0, 2), 16),
+			g: parseInt(value.slice(2, 4), 16),
+			b: parseInt(value.slice(4, 6), 16),
+		}),
+	};
+}
+
+/**
+ * Translate a bbox into coordinates relative to an origin.
+ */
+function relativeTo(bbox: BoundingBox, origin: { x: number; y: number }) {
+	return { x: bbox.x - origin.x, y: bbox.y - origin.y, width: bbox.width, height: bbox.height };
+}
+
+/**
+ * Create a TEXT layer.
+ */
+function textLayer(
+	name: string,
+	characters: string,
+	bounds: { x: number; y: number; width: number; height: number },
+	color: string,
+	fontSize: number,
+): FigmaLayer {
+	return {
+		type: "TEXT",
+		name,
+		...bounds,
+		fills: [solid(color)],
+		strokes: [],
+		strokeWeight: 0,
+		dashPattern: [],
+		characters,
+		fontSize,
+	};
+}
+
+/**
+ * Create a placeholder FRAME holding glyph layers.
+ */
+function placeholderFrame(
+	name: string,
+	bounds: { x: number; y: number; width: number; height: number },
+	fill: string,
+	cornerRadius: number,
+	children: FigmaLayer[],
+): FigmaLayer {
+	return {
+		type: "FRAME",
+		name,
+		...bounds,
+		fills: [solid(fill)],
+		strokes: [solid("#999999")],
+		strokeWeight: 1,
+		dashPattern: [],
+		cornerRadius,
+		children,
+	};
+}
+
+/**
+ * Convert a content hint into a layer relative to its node.
+ */
+function convertContentHint(hint: ContentHint, origin: BoundingBox): FigmaLayer {
+	const bounds = relativeTo(hint.bbox, origin);
+
+	switch (hint.type) {
+		case "image":
+			return {
+				type: "RECTANGLE",
+				name: hint.background ? "Background image" : "Image",
+				...bounds,
+				fills: [solid("#eeeeee")],
+				strokes: [solid("#999999")],
+				strokeWeight: 1,
+				dashPattern: [],
+				cornerRadius: 4,
+			};
+		case "button":
+			return {
+				type: "FRAME",
+				name: hint.label ? `Button: ${hint.label}` : "Button",
+				...bounds,
+				fills: [solid("#e0e0e0")],
+				strokes: [solid("#666666")],
+				strokeWeight: 1,
+				dashPattern: [],
+				cornerRadius: bounds.height / 2,
+				children: hint.label
+					? [
+							{
+								type: "TEXT",
+								name: "Label",
+								x: 8,
+								y: 0,
+								width: Math.max(0, bounds.width - 16),
+								height: bounds.height,
+								fills: [solid("#333333")],
+								strokes: [],
+								strokeWeight: 0,
+								dashPattern: [],
+								characters: hint.label,
+								fontSize: Math.max(10, Math.min(14, bounds.height - 8)),
+							},
+						]
+					: [],
+			};
+		case "text":
+			return {
+				type: "RECTANGLE",
+				name: "Text",
+				...bounds,
+				fills: [solid("#e8e8e8")],
+				strokes: [],
+				strokeWeight: 0,
+				dashPattern: [],
+				cornerRadius: 2,
+			};
+		case "icon":
+			return {
+				type: "ELLIPSE",
+				name: "Icon",
+				...bounds,
+				fills: [],
+				strokes: [solid("#999999")],
+				strokeWeight: 1,
+				dashPattern: [],
+			};
+		case "video": {
+			const size = Math.min(40, Math.min(bounds.width, bounds.height) * 0.3);
+			return placeholderFrame("Video", bounds, "#eeeeee", 4, [
+				textLayer(
+					"Play",
+					"▶",
+					{
+						x: (bounds.width - size) / 2,
+						y: (bounds.height - size) / 2,
+						width: size,
+						height: size,
+					},
+					"#999999",
+					size,
+				),
+			]);
+		}
+		case "map": {
+			const size = Math.min(28, Math.min(bounds.width, bounds.height) * 0.24);
+			return placeholderFrame("Map", bounds, "#eeeeee", 4, [
+				{
+					type: "ELLIPSE",
+					name: "Pin",
+					x: (bounds.width - size) / 2,
+					y: (bounds.height - size) / 2,
+					width: size,
+					height: size,
+					fills: [],
+					strokes: [solid("#999999")],
+					strokeWeight: 1,
+					dashPattern: [],
+				},
+			]);
+		}
+		case "input":
+		case "select": {
+			const name = hint.type === "input" ? "Input" : "Select";
+			const fontSize = Math.max(10, Math.min(14, bounds.height - 8));
+			const children: FigmaLayer[] = [];
+			if (hint.label) {
+				children.push(
+					textLayer(
+						"Placeholder",
+						hint.label,
+						{ x: 8, y: 0, width: Math.max(0, bounds.width - 32), height: bounds.height },
+						"#999999",
+						fontSize,
+					),
+				);
+			}
+			if (hint.type === "select") {
+				children.push(
+					textLayer(
+						"Chevron",
+						"▾",
+						{ x: Math.max(0, bounds.width - 20), y: 0, width: 12, height: bounds.height },
+						"#666666",
+						fontSize,
+					),
+				);
+			}
+			return placeholderFrame(
+				hint.label ? `${name}: ${hint.label}` : name,
+				bounds,
+				"#ffffff",
+				4,
+				children,
+			);
+		}
+		case "table":
+			return placeholderFrame("Table", bounds, "#ffffff", 0, [
+				{
+					type: "RECTANGLE",
+					name: "Header row",
+					x: 0,
+					y: 0,
+					width: bounds.width,
+					height: Math.min(32, bounds.height / 3),
+					fills: [solid("#e0e0e0")],
+					strokes: [],
+					strokeWeight: 0,
+					dashPattern: [],
+				},
+			]);
+		case "logo": {
+			const fontSize = Math.max(8, Math.min(12, bounds.height * 0.5));
+			return placeholderFrame("Logo", bounds, "#eeeeee", 4, [
+				textLayer(
+					"Wordmark",
+					"LOGO",
+					{ x: 4, y: 0, width: Math.max(0, bounds.width - 8), height: bounds.height },
+					"#999999",
+					fontSize,
+				),
+			]);
+		}
+		case "avatar":
+			return {
+				type: "ELLIPSE",
+				name: "Avatar",
+				...bounds,
+				fills: [solid("#eeeeee")],
+				strokes: [solid("#999999")],
+				strokeWeight: 1,
+				dashPattern: [],
+			};
+	}
+}
+
+/**
+ * Recursively convert a node into a frame relative to its parent.
+ */
+function convertNode(node: WireframeNode, origin: { x: number; y: number }): FigmaLayer {
+	const children: FigmaLayer[] = [
+		...(node.contentHints ?? []).map((hint) => convertContentHint(hint, node.bbox)),
+		...node.children.map((child) => convertNode(child, node.bbox)),
+	];
+
+	return {
+		type: "FRAME",
+		name: node.label || node.tagName,
+		...relativeTo(node.bbox, origin),
+		fills: [{ type: "SOLID", color: toFigmaColor(getFillRgb(node.semanticType, node.depth)) }],
+		strokes: [solid("#333333")],
+		strokeWeight: getBorderWidth(node.depth),
+		dashPattern: !node.isLandmark && node.depth > 0 ? [4, 4] : [],
+		cornerRadius: 4,
+		pluginData: { nodeId: node.id, semanticType: node.semanticType, tagName: node.tagName },
+		children,
+	};
+}
+
+/**
+ * Convert a wireframe model into a Figma-importable document.
+ * Apply label overrides to the model first (see `applyLabelOverrides`).
+ */
+export function toFigmaDocument(model: WireframeModel): FigmaDocument {
+	const origin = { x: 0, y: 0 };
+
+	return {
+		format: FIGMA_EXPORT_FORMAT,
+		version: 1,
+		name: `Wireframe - ${model.pageUrl}`,
+		pageUrl: model.pageUrl,
+		capturedAt: model.capturedAt,
+		root: {
+			type: "FRAME",
+			name: "Wireframe",
+			x: 0,
+			y: 0,
+			width: model.viewport.width,
+			height: model.fullPageHeight,
+			fills: [solid("#ffffff")],
+			strokes: [],
+			strokeWeight: 0,
+			dashPattern: [],
+			children: model.nodes.map((node) => convertNode(node, origin)),
+		},
+	};
+}
@@ -1 +1,16 @@
+export * from "./analyzer-rules.js";
+export * from "./annotations.js";
+export * from "./breakpoints.js";
+export * from "./diff.js";
+export * from "./draw-context.js";
+export * from "./excalidraw.js";
+export * from "./figma.js";
+export * from "./model.js";
+export * from "./palette.js";
+export * from "./render-core.js";
+export * from "./schema.js";
+export * from "./sketch.js";
+export * from "./svg-context.js";
+export * from "./svg-renderer.js";
+export * from "./theme.js";
 export * from "./types.js";
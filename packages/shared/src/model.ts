@@ -0,0 +1,290 @@
+/**
+ * Model Utilities
+ *
+ * Helpers for working with WireframeModel trees (lookup, hit-testing
+ * and the in-place edits used by the overlay editor). Shared by the
+ * overlay, the exporters and the MCP server.
+ *
+ * @module shared/model
+ */
+
+import type { AnnotationPoint, BoundingBox, WireframeModel, WireframeNode } from "./types.js";
+
+/**
+ * Return a copy of the model with label overrides baked into node labels.
+ * An empty override hides the label (label becomes "").
+ */
+export function applyLabelOverrides(
+	model: WireframeModel,
+	overrides: Map<string, string> | undefined,
+): WireframeModel {
+	if (!overrides || overrides.size === 0) return model;
+
+	const applyToNode = (node: WireframeNode): WireframeNode => {
+		const override = overrides.get(node.id);
+		return {
+			...node,
+			label: override !== undefined ? override : node.label,
+			children: node.children.map(applyToNode),
+		};
+	};
+
+	return { ...model, nodes: model.nodes.map(applyToNode) };
+}
+
+/**
+ * Return a copy of the model without the given nodes (and their subtrees).
+ */
+export function omitNodes(model: WireframeModel, ids: Set<string>): WireframeModel {
+	if (ids.size === 0) return model;
+
+	const filter = (nodes: WireframeNode[]): WireframeNode[] =>
+		nodes
+			.filter((node) => !ids.has(node.id))
+			.map((node) => ({ ...node, children: filter(node.children) }));
+
+	return { ...model, nodes: filter(model.nodes) };
+}
+
+/**
+ * Return a copy of the model without floating (fixed, sticky, overlay) nodes.
+ */
+export function omitFloatingNodes(model: WireframeModel): WireframeModel {
+	const filter = (nodes: WireframeNode[]): WireframeNode[] =>
+		nodes
+			.filter((node) => !node.position)
+			.map((node) => ({ ...node, children: filter(node.children) }));
+
+	return { ...model, nodes: filter(model.nodes) };
+}
+
+/**
+ * Where a node sits in the tree.
+ */
+export interface NodeLocation {
+	node: WireframeNode;
+	/** Parent node (null for root-level nodes) */
+	parent: WireframeNode | null;
+	/** Array containing the node (`parent.children` or `model.nodes`) */
+	siblings: WireframeNode[];
+	index: number;
+}
+
+/**
+ * Find a node and its position in the tree by id.
+ */
+export function locateNode(model: WireframeModel, id: string): NodeLocation | null {
+	const search = (siblings: WireframeNode[], parent: WireframeNode | null): NodeLocation | null => {
+		for (let index = 0; index < siblings.length; index++) {
+			const node = siblings[index];
+			if (node.id === id) return { node, parent, siblings, index };
+			const found = search(node.children, node);
+			if (found) return found;
+		}
+		return null;
+	};
+	return search(model.nodes, null);
+}
+
+/**
+ * Find a node by id.
+ */
+export function findNodeById(model: WireframeModel, id: string): WireframeNode | null {
+	return locateNode(model, id)?.node ?? null;
+}
+
+/**
+ * Find every node whose label matches, in document order. Strings match
+ * case-insensitively as substrings.
+ */
+export function findNodesByLabel(model: WireframeModel, pattern: string | RegExp): WireframeNode[] {
+	const test =
+		typeof pattern === "string"
+			? (label: string) => label.toLowerCase().includes(pattern.toLowerCase())
+			: (label: string) => pattern.test(label);
+	const matches: WireframeNode[] = [];
+	const search = (nodes: WireframeNode[]) => {
+		for (const node of nodes) {
+			if (test(node.label)) matches.push(node);
+			search(node.children);
+		}
+	};
+	search(model.nodes);
+	return matches;
+}
+
+/**
+ * Find the top-most node under a point: the deepest match, preferring
+ * later siblings (drawn on top).
+ */
+export function findNodeAt(model: WireframeModel, x: number, y: number): WireframeNode | null {
+	const search = (nodes: WireframeNode[]): WireframeNode | null => {
+		for (let i = nodes.length - 1; i >= 0; i--) {
+			const node = nodes[i];
+			const deeper = search(node.children);
+			if (deeper) return deeper;
+			const { bbox } = node;
+			if (x >= bbox.x && x <= bbox.x + bbox.width && y >= bbox.y && y <= bbox.y + bbox.height) {
+				return node;
+			}
+		}
+		return null;
+	};
+	return search(model.nodes);
+}
+
+/**
+ * Remove a node (and its subtree) from the model. Returns the removed node.
+ */
+export function removeNode(model: WireframeModel, id: string): WireframeNode | null {
+	const location = locateNode(model, id);
+	if (!location) return null;
+	location.siblings.splice(location.index, 1);
+	return location.node;
+}
+
+/**
+ * Recompute `depth` for a subtree.
+ */
+export function setNodeDepth(node: WireframeNode, depth: number): void {
+	node.depth = depth;
+	for (const child of node.children) setNodeDepth(child, depth + 1);
+}
+
+/**
+ * Insert a node under the deepest node whose box fully contains it
+ * (root level if none), after its last sibling. Depths are updated.
+ */
+export function insertNode(model: WireframeModel, node: WireframeNode): void {
+	const contains = (outer: WireframeNode) =>
+		node.bbox.x >= outer.bbox.x &&
+		node.bbox.y >= outer.bbox.y &&
+		node.bbox.x + node.bbox.width <= outer.bbox.x + outer.bbox.width &&
+		node.bbox.y + node.bbox.height <= outer.bbox.y + outer.bbox.height;
+
+	let parent: WireframeNode | null = null;
+	let siblings = model.nodes;
+	for (;;) {
+		const container = siblings.find((candidate) => candidate !== node && contains(candidate));
+		if (!container) break;
+		parent = container;
+		siblings = container.children;
+	}
+
+	siblings.push(node);
+	setNodeDepth(node, parent ? parent.depth + 1 : 0);
+}
+
+/**
+ * Move a node, its content hints and its whole subtree.
+ */
+export function translateNode(node: WireframeNode, dx: number, dy: number): void {
+	node.bbox.x += dx;
+	node.bbox.y += dy;
+	for (const hint of node.contentHints ?? []) {
+		hint.bbox.x += dx;
+		hint.bbox.y += dy;
+	}
+	for (const child of node.children) translateNode(child, dx, dy);
+}
+
+/**
+ * Give a node a new box. Content hints are scaled with it; children keep
+ * their position (they're nodes of their own and can be edited separately).
+ */
+export function resizeNode(node: WireframeNode, bbox: BoundingBox): void {
+	const scaleX = node.bbox.width > 0 ? bbox.width / node.bbox.width : 1;
+	const scaleY = node.bbox.height > 0 ? bbox.height / node.bbox.height : 1;
+	for (const hint of node.contentHints ?? []) {
+		hint.bbox = {
+			x: bbox.x + (hint.bbox.x - node.bbox.x) * scaleX,
+			y: bbox.y + (hint.bbox.y - node.bbox.y) * scaleY,
+			width: hint.bbox.width * scaleX,
+			height: hint.bbox.height * scaleY,
+		};
+	}
+	node.bbox = { ...bbox };
+}
+
+/** Where a moved node lands relative to the target node */
+export type TreeDropPosition = "before" | "after" | "inside";
+
+/**
+ * Move a node within the tree: before/after a sibling, or as the last child
+ * of another node. Boxes are left as they are; depths are updated.
+ * Returns false (and changes nothing) when the move is impossible, e.g.
+ * into the node's own subtree.
+ */
+export function moveNodeInTree(
+	model: WireframeModel,
+	id: string,
+	targetId: string,
+	position: TreeDropPosition,
+): boolean {
+	if (id === targetId) return false;
+	const source = locateNode(model, id);
+	if (!source || locateNode({ ...model, nodes: [source.node] }, targetId)) return false;
+
+	source.siblings.splice(source.index, 1);
+	const target = locateNode(model, targetId);
+	if (!target) {
+		source.siblings.splice(source.index, 0, source.node);
+		return false;
+	}
+
+	if (position === "inside") {
+		target.node.children.push(source.node);
+		setNodeDepth(source.node, target.node.depth + 1);
+	} else {
+		target.siblings.splice(target.index + (position === "after" ? 1 : 0), 0, source.node);
+		setNodeDepth(source.node, target.parent ? target.parent.depth + 1 : 0);
+	}
+	return true;
+}
+
+/**
+ * Build a standalone model from one node and its descendants, cropped to
+ * the node's box plus `padding` on every side. Coordinates are translated
+ * so the image starts at the node; the capture viewport height is kept.
+ * Annotations on other nodes are dropped.
+ * Returns null if the node doesn't exist.
+ */
+export function extractSubtree(
+	model: WireframeModel,
+	id: string,
+	padding = 0,
+): WireframeModel | null {
+	const source = findNodeById(model, id);
+	if (!source) return null;
+
+	const node = JSON.parse(JSON.stringify(source)) as WireframeNode;
+	const dx = padding - node.bbox.x;
+	const dy = padding - node.bbox.y;
+	translateNode(node, dx, dy);
+	setNodeDepth(node, 0);
+
+	// Node-relative points move with their node; absolute ones are shifted
+	// and kept only when they land in the cropped image
+	const width = Math.round(node.bbox.width + padding * 2);
+	const height = Math.round(node.bbox.height + padding * 2);
+	const subtree = { ...model, nodes: [node] };
+	const movePoint = (point: AnnotationPoint): AnnotationPoint | null => {
+		if (point.nodeId) return findNodeById(subtree, point.nodeId) ? { ...point } : null;
+		const x = point.x + dx;
+		const y = point.y + dy;
+		return x >= 0 && x <= width && y >= 0 && y <= height ? { x, y } : null;
+	};
+	const annotations = model.annotations?.flatMap((annotation) => {
+		const at = movePoint(annotation.at);
+		const to = annotation.to && movePoint(annotation.to);
+		if (!at || to === null) return [];
+		return [{ ...annotation, at, ...(to && { to }) }];
+	});
+
+	return {
+		...subtree,
+		...(annotations && { annotations }),
+		viewport: { ...model.viewport, width },
+		fullPageHeight: height,
+	};
+}
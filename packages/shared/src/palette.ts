@@ -0,0 +1,115 @@
+/**
+ * Wireframe Palette
+ *
+ * Visual constants and style helpers shared by every wireframe renderer
+ * (browser canvas, server canvas, SVG):
+ * - SEMANTIC_COLORS: Pastel fill per semantic type
+ * - SEMANTIC_TYPE_NAMES: Human-readable name per semantic type (legend)
+ * - getBorderWidth: Depth-based border thickness
+ * - getFillColor: Semantic fill darkened by depth
+ * - getFillRgb: Same fill as RGB channels (for JSON exporters)
+ * - hexToRgb / rgbToHex / shadeRgb: Color helpers (also used by themes)
+ *
+ * @module shared/palette
+ */
+
+import type { SemanticType } from "./types.js";
+
+/** Pastel colors for semantic differentiation */
+export const SEMANTIC_COLORS: Record<SemanticType, string> = {
+	header: "#e8eaf6", // Indigo tint
+	navigation: "#e3f2fd", // Blue tint
+	hero: "#f3e5f5", // Purple tint
+	content: "#f5f5f5", // Light gray
+	card: "#fffde7", // Yellow tint
+	cta: "#e8f5e9", // Green tint
+	footer: "#eceff1", // Dark gray
+	sidebar: "#e0f2f1", // Teal tint
+	form: "#fff3e0", // Orange tint
+	testimonial: "#fce4ec", // Pink tint
+	pricing: "#fbe9e7", // Deep orange tint
+	gallery: "#e0f7fa", // Cyan tint
+	search: "#ede7f6", // Deep purple tint
+	modal: "#efebe9", // Brown tint
+};
+
+/** Names shown in the color legend */
+export const SEMANTIC_TYPE_NAMES: Record<SemanticType, string> = {
+	header: "Header",
+	navigation: "Navigation",
+	hero: "Hero / banner",
+	content: "Content",
+	card: "Card / grid item",
+	cta: "Call to action",
+	footer: "Footer",
+	sidebar: "Sidebar",
+	form: "Form",
+	testimonial: "Testimonial",
+	pricing: "Pricing",
+	gallery: "Gallery / media",
+	search: "Search",
+	modal: "Modal / dialog",
+};
+
+/**
+ * Get border width based on node depth.
+ * Deeper nodes get thinner borders.
+ */
+export function getBorderWidth(depth: number): number {
+	if (depth === 0) return 3;
+	if (depth <= 2) return 2;
+	return 1;
+}
+
+/**
+ * RGB color channels (0-255).
+ */
+export interface RgbColor {
+	r: number;
+	g: number;
+	b: number;
+}
+
+/**
+ * Get fill channels based on semantic type, with depth-based darkening.
+ * Unknown types fall back to the "content" color.
+ */
+export function getFillRgb(semanticType: SemanticType, depth: number): RgbColor {
+	const baseColor = SEMANTIC_COLORS[semanticType] || SEMANTIC_COLORS.content;
+	return shadeRgb(hexToRgb(baseColor), Math.min(depth * 5, 20));
+}
+
+/**
+ * Get fill color based on semantic type, with depth-based darkening.
+ */
+export function getFillColor(semanticType: SemanticType, depth: number): string {
+	const { r, g, b } = getFillRgb(semanticType, depth);
+	return `rgb(${r}, ${g}, ${b})`;
+}
+
+/**
+ * Parse a "#rrggbb" hex string into RGB channels.
+ */
+export function hexToRgb(color: string): RgbColor {
+	const hex = color.replace("#", "");
+	return {
+		r: parseInt(hex.slice(0, 2), 16),
+		g: parseInt(hex.slice(2, 4), 16),
+		b: parseInt(hex.slice(4, 6), 16),
+	};
+}
+
+/**
+ * Darken every channel by `amount` (negative lightens), clamped to 0-255.
+ */
+export function shadeRgb({ r, g, b }: RgbColor, amount: number): RgbColor {
+	const shade = (channel: number) => Math.min(255, Math.max(0, channel - amount));
+	return { r: shade(r), g: shade(g), b: shade(b) };
+}
+
+/**
+ * Format RGB channels as a "#rrggbb" hex string.
+ */
+export function rgbToHex({ r, g, b }: RgbColor): string {
+	return `#${[r, g, b].map((c) => c.toString(16).padStart(2, "0")).join("")}`;
+}
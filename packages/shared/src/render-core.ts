@@ -0,0 +1,1192 @@
+/**
+ * Render Core
+ *
+ * The single implementation of wireframe drawing, shared by the browser
+ * overlay, the MCP server and the SVG exporter. Draws onto any
+ * `WireframeContext2D`, so every backend produces the same output.
+ *
+ * Visual conventions:
+ * - Solid borders: Semantic landmark elements (header, nav, main, etc.)
+ * - Dashed borders: Non-landmark elements at depth > 0
+ * - Border thickness: 3px (depth 0) → 2px (depth 1-2) → 1px (depth 3+)
+ * - Fill color: Semantic color, shaded for deeper elements
+ * - Legend (optional): the semantic types used, drawn below the page
+ * - Fold line (optional): dashed red line at the bottom of the first viewport
+ * - Floating nodes (fixed, sticky, overlay): drawn above their siblings with a
+ *   drop shadow and a position tag, or left out with `showFloating: false`
+ * - Annotations: pins, arrows, notes and text on top (see shared/annotations),
+ *   optionally with the numbered notes listed below the legend
+ *
+ * A render covers the full page, or only `config.range` (a vertical slice,
+ * e.g. above the fold): the drawing is shifted up and the image is sized
+ * to the range, so the canvas bounds do the clipping.
+ *
+ * Colors, fonts, corner radii and stroke wobble come from the theme
+ * (`config.theme`, see shared/theme). Sketch mode (`config.sketch`) draws
+ * every shape with seeded hand-drawn strokes and hatched fills instead
+ * (see shared/sketch); rough themes (sketchy) use the same strokes at the
+ * theme's roughness, without hatching.
+ *
+ * @module shared/render-core
+ */
+
+import {
+	drawAnnotations,
+	drawNotesLegend,
+	getNotesLegendHeight,
+	getNumberedNotes,
+} from "./annotations.js";
+import type { WireframeContext2D } from "./draw-context.js";
+import { hexToRgb, rgbToHex, SEMANTIC_TYPE_NAMES, shadeRgb } from "./palette.js";
+import { SEMANTIC_TYPES } from "./schema.js";
+import {
+	resolveSketch,
+	type Sketch,
+	sketchArcStroke,
+	sketchEllipseStroke,
+	sketchHatch,
+	sketchLine,
+	sketchPillPath,
+	sketchPillStroke,
+	sketchRectPath,
+	sketchRectStroke,
+} from "./sketch.js";
+import {
+	getThemeBorderWidth,
+	getThemeFill,
+	resolveTheme,
+	SKETCH_FONT_FAMILY,
+	THEMES,
+	type WireframeTheme,
+} from "./theme.js";
+import type {
+	BadgeInfo,
+	BoundingBox,
+	ContentHint,
+	NodePosition,
+	PageRange,
+	RendererConfig,
+	SemanticType,
+	WireframeModel,
+	WireframeNode,
+} from "./types.js";
+
+/** Default renderer settings (backends override what differs, e.g. showLabels) */
+export const DEFAULT_RENDERER_CONFIG: RendererConfig = {
+	showLabels: false,
+	backgroundColor: "#ffffff",
+	blockFillColor: "#f5f5f5",
+	blockBorderColor: "#333333",
+	labelColor: "#333333",
+	labelFontSize: 12,
+	showContentHints: true,
+};
+
+/** Legend layout: outer padding, title height, row height, column width */
+const LEGEND_PADDING = 16;
+const LEGEND_TITLE_HEIGHT = 22;
+const LEGEND_ROW_HEIGHT = 22;
+const LEGEND_COLUMN_WIDTH = 170;
+
+/** Fold line color (theme-independent, so it always stands out) */
+const FOLD_COLOR = "#e53935";
+
+/** Drop shadow of floating (fixed, sticky, overlay) nodes: offset and opacity */
+const FLOATING_SHADOW_OFFSET = 6;
+const FLOATING_SHADOW_ALPHA = 0.2;
+
+/**
+ * Resolve the theme for a render. Without `config.theme`, the pastel theme
+ * is used with the config's background, border and label colors.
+ */
+export function getRenderTheme(config: RendererConfig): WireframeTheme {
+	if (config.theme) return resolveTheme(config.theme);
+	return {
+		...THEMES.pastel,
+		backgroundColor: config.backgroundColor,
+		borderColor: config.blockBorderColor,
+		labelColor: config.labelColor,
+	};
+}
+
+/** Theme plus sketch settings, threaded through every drawing helper */
+interface RenderStyle {
+	theme: WireframeTheme;
+	/** Sketch mode settings, or null for clean strokes */
+	sketch: Sketch | null;
+}
+
+/**
+ * Resolve theme and sketch mode for a render. Sketch mode switches the
+ * theme's font to a handwriting one. Rough themes get sketch strokes
+ * without hatching; their wobble is the default for sketch mode too.
+ */
+function getRenderStyle(config: RendererConfig): RenderStyle {
+	const theme = getRenderTheme(config);
+	const roughness = theme.roughness > 0 ? theme.roughness : undefined;
+	if (!config.sketch) {
+		return { theme, sketch: roughness ? resolveSketch({ roughness, hatchGap: 0 }) : null };
+	}
+	return {
+		theme: { ...theme, fontFamily: SKETCH_FONT_FAMILY },
+		sketch: resolveSketch({ roughness, ...(config.sketch === true ? {} : config.sketch) }),
+	};
+}
+
+/**
+ * Font family a render uses for labels and annotations (the theme's,
+ * or the handwriting font in sketch mode).
+ */
+export function getRenderFontFamily(config: RendererConfig): string {
+	return getRenderStyle(config).theme.fontFamily;
+}
+
+/**
+ * Hatch color for a fill: a few shades darker (lighter for themes that
+ * lighten nested blocks, i.e. dark themes).
+ */
+function getHatchColor(theme: WireframeTheme, fill: string): string {
+	return rgbToHex(shadeRgb(hexToRgb(fill), theme.depthShade < 0 ? -30 : 30));
+}
+
+/**
+ * Add a straight line to the current path.
+ */
+function addLine(ctx: WireframeContext2D, x1: number, y1: number, x2: number, y2: number): void {
+	ctx.moveTo(x1, y1);
+	ctx.lineTo(x2, y2);
+}
+
+/**
+ * Draw a block outline path: a rounded rectangle, radius clamped to the box.
+ */
+function drawBoxPath(
+	ctx: WireframeContext2D,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+	radius: number,
+): void {
+	drawRoundedRect(ctx, x, y, width, height, Math.min(radius, width / 2, height / 2));
+}
+
+/**
+ * Draw a rounded rectangle path.
+ */
+function drawRoundedRect(
+	ctx: WireframeContext2D,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+	radius: number,
+): void {
+	ctx.beginPath();
+	ctx.moveTo(x + radius, y);
+	ctx.lineTo(x + width - radius, y);
+	ctx.quadraticCurveTo(x + width, y, x + width, y + radius);
+	ctx.lineTo(x + width, y + height - radius);
+	ctx.quadraticCurveTo(x + width, y + height, x + width - radius, y + height);
+	ctx.lineTo(x + radius, y + height);
+	ctx.quadraticCurveTo(x, y + height, x, y + height - radius);
+	ctx.lineTo(x, y + radius);
+	ctx.quadraticCurveTo(x, y, x + radius, y);
+	ctx.closePath();
+}
+
+/**
+ * Draw a pill shape path (rounded rectangle with full-radius ends).
+ */
+function drawPillShape(
+	ctx: WireframeContext2D,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+): void {
+	const radius = height / 2;
+	ctx.beginPath();
+	ctx.moveTo(x + radius, y);
+	ctx.lineTo(x + width - radius, y);
+	ctx.arc(x + width - radius, y + radius, radius, -Math.PI / 2, Math.PI / 2);
+	ctx.lineTo(x + radius, y + height);
+	ctx.arc(x + radius, y + radius, radius, Math.PI / 2, -Math.PI / 2);
+	ctx.closePath();
+}
+
+/**
+ * Truncate text with "..." until it fits within maxWidth.
+ */
+function truncateText(ctx: WireframeContext2D, text: string, maxWidth: number): string {
+	if (ctx.measureText(text).width <= maxWidth) return text;
+
+	let displayText = text;
+	while (displayText.length > 3 && ctx.measureText(`${displayText}...`).width > maxWidth) {
+		displayText = displayText.slice(0, -1);
+	}
+	return `${displayText}...`;
+}
+
+/**
+ * Render an image placeholder (box with diagonal cross).
+ * CSS background images use the fainter text line color.
+ */
+function renderImagePlaceholder(
+	ctx: WireframeContext2D,
+	hint: ContentHint,
+	{ theme, sketch }: RenderStyle,
+): void {
+	const { x, y, width, height } = hint.bbox;
+	const padding = 2;
+	const px = x + padding;
+	const py = y + padding;
+	const pw = width - padding * 2;
+	const ph = height - padding * 2;
+
+	if (pw < 10 || ph < 10) return;
+
+	// Draw border
+	ctx.strokeStyle = hint.background ? theme.placeholder.textLine : theme.placeholder.stroke;
+	ctx.lineWidth = 1;
+	ctx.setLineDash([]);
+
+	if (sketch) {
+		sketchRectStroke(ctx, sketch, px, py, pw, ph);
+		sketchLine(ctx, sketch, px, py, px + pw, py + ph);
+		sketchLine(ctx, sketch, px + pw, py, px, py + ph);
+		return;
+	}
+
+	drawBoxPath(ctx, px, py, pw, ph, theme.cornerRadius);
+	ctx.stroke();
+
+	// Draw diagonal cross
+	ctx.beginPath();
+	addLine(ctx, px, py, px + pw, py + ph);
+	addLine(ctx, px + pw, py, px, py + ph);
+	ctx.stroke();
+}
+
+/**
+ * Render a button placeholder (pill shape).
+ */
+function renderButtonPlaceholder(
+	ctx: WireframeContext2D,
+	hint: ContentHint,
+	{ theme, sketch }: RenderStyle,
+): void {
+	const { x, y, width, height } = hint.bbox;
+
+	if (width < 20 || height < 10) return;
+
+	// Draw filled pill
+	ctx.fillStyle = theme.placeholder.buttonFill;
+	if (sketch) {
+		sketchPillPath(ctx, sketch, x, y, width, height);
+	} else {
+		drawPillShape(ctx, x, y, width, height);
+	}
+	ctx.fill();
+
+	// Draw border
+	ctx.strokeStyle = theme.placeholder.buttonStroke;
+	ctx.lineWidth = 1;
+	ctx.setLineDash([]);
+	if (sketch) {
+		sketchPillStroke(ctx, sketch, x, y, width, height);
+	} else {
+		drawPillShape(ctx, x, y, width, height);
+		ctx.stroke();
+	}
+
+	// Draw label if available
+	if (hint.label && width > 40) {
+		ctx.font = `${Math.min(11, height - 6)}px ${theme.fontFamily}`;
+		ctx.fillStyle = theme.placeholder.buttonText;
+		ctx.textBaseline = "middle";
+		ctx.textAlign = "center";
+
+		const displayLabel = truncateText(ctx, hint.label, width - 16);
+		ctx.fillText(displayLabel, x + width / 2, y + height / 2);
+		ctx.textAlign = "left"; // Reset
+	}
+}
+
+/**
+ * Render a text block placeholder (horizontal lines).
+ */
+function renderTextPlaceholder(
+	ctx: WireframeContext2D,
+	hint: ContentHint,
+	{ theme, sketch }: RenderStyle,
+): void {
+	const { x, y, width, height } = hint.bbox;
+	const padding = 4;
+	const lineHeight = 8;
+	const lineSpacing = 12;
+	const maxLines = Math.min(4, Math.floor((height - padding * 2) / lineSpacing));
+
+	if (maxLines < 1 || width < 30) return;
+
+	ctx.strokeStyle = theme.placeholder.textLine;
+	ctx.lineWidth = 2;
+	ctx.lineCap = "round";
+	ctx.setLineDash([]);
+
+	for (let i = 0; i < maxLines; i++) {
+		const lineY = y + padding + i * lineSpacing + lineHeight / 2;
+		// Last line is shorter
+		const lineWidth = i === maxLines - 1 ? (width - padding * 2) * 0.6 : width - padding * 2;
+
+		if (sketch) {
+			sketchLine(ctx, sketch, x + padding, lineY, x + padding + lineWidth, lineY);
+			continue;
+		}
+		ctx.beginPath();
+		addLine(ctx, x + padding, lineY, x + padding + lineWidth, lineY);
+		ctx.stroke();
+	}
+
+	ctx.lineCap = "butt"; // Reset
+}
+
+/**
+ * Render an icon placeholder (small circle).
+ */
+function renderIconPlaceholder(
+	ctx: WireframeContext2D,
+	hint: ContentHint,
+	{ theme, sketch }: RenderStyle,
+): void {
+	const { x, y, width, height } = hint.bbox;
+	const cx = x + width / 2;
+	const cy = y + height / 2;
+	const radius = Math.min(width, height) / 2 - 1;
+
+	if (radius < 4) return;
+
+	ctx.strokeStyle = theme.placeholder.stroke;
+	ctx.lineWidth = 1;
+	ctx.setLineDash([]);
+
+	if (sketch) {
+		sketchEllipseStroke(ctx, sketch, cx, cy, radius, radius);
+		return;
+	}
+
+	ctx.beginPath();
+	ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+	ctx.stroke();
+}
+
+/**
+ * Stroke a placeholder frame, clean or hand-drawn.
+ */
+function strokePlaceholderFrame(
+	ctx: WireframeContext2D,
+	{ theme, sketch }: RenderStyle,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+	radius = theme.cornerRadius,
+): void {
+	if (sketch) {
+		sketchRectStroke(ctx, sketch, x, y, width, height);
+		return;
+	}
+	drawBoxPath(ctx, x, y, width, height, radius);
+	ctx.stroke();
+}
+
+/**
+ * Stroke straight segments ([x1, y1, x2, y2] each), clean or hand-drawn.
+ */
+function strokeSegments(
+	ctx: WireframeContext2D,
+	{ sketch }: RenderStyle,
+	segments: Array<[number, number, number, number]>,
+): void {
+	if (sketch) {
+		for (const [x1, y1, x2, y2] of segments) sketchLine(ctx, sketch, x1, y1, x2, y2);
+		return;
+	}
+	ctx.beginPath();
+	for (const [x1, y1, x2, y2] of segments) addLine(ctx, x1, y1, x2, y2);
+	ctx.stroke();
+}
+
+/**
+ * Stroke a circle, clean or hand-drawn.
+ */
+function strokeCircle(
+	ctx: WireframeContext2D,
+	{ sketch }: RenderStyle,
+	cx: number,
+	cy: number,
+	radius: number,
+): void {
+	if (sketch) {
+		sketchEllipseStroke(ctx, sketch, cx, cy, radius, radius);
+		return;
+	}
+	ctx.beginPath();
+	ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+	ctx.stroke();
+}
+
+/**
+ * Render a video placeholder (frame with a play triangle).
+ */
+function renderVideoPlaceholder(
+	ctx: WireframeContext2D,
+	hint: ContentHint,
+	style: RenderStyle,
+): void {
+	const { x, y, width, height } = hint.bbox;
+	if (width < 24 || height < 24) return;
+
+	ctx.strokeStyle = style.theme.placeholder.stroke;
+	ctx.lineWidth = 1;
+	ctx.setLineDash([]);
+	strokePlaceholderFrame(ctx, style, x + 2, y + 2, width - 4, height - 4);
+
+	const size = Math.min(40, Math.min(width, height) * 0.3);
+	const cx = x + width / 2;
+	const cy = y + height / 2;
+	const left = cx - size * 0.4;
+	const right = cx + size * 0.6;
+	if (style.sketch) {
+		strokeSegments(ctx, style, [
+			[left, cy - size / 2, left, cy + size / 2],
+			[left, cy + size / 2, right, cy],
+			[right, cy, left, cy - size / 2],
+		]);
+		return;
+	}
+	ctx.fillStyle = style.theme.placeholder.stroke;
+	ctx.beginPath();
+	ctx.moveTo(left, cy - size / 2);
+	ctx.lineTo(left, cy + size / 2);
+	ctx.lineTo(right, cy);
+	ctx.closePath();
+	ctx.fill();
+}
+
+/**
+ * Render a map placeholder (frame with a road line and a map pin).
+ */
+function renderMapPlaceholder(
+	ctx: WireframeContext2D,
+	hint: ContentHint,
+	style: RenderStyle,
+): void {
+	const { x, y, width, height } = hint.bbox;
+	if (width < 24 || height < 24) return;
+
+	ctx.lineWidth = 1;
+	ctx.setLineDash([]);
+	ctx.strokeStyle = style.theme.placeholder.textLine;
+	strokeSegments(ctx, style, [[x + 2, y + height * 0.7, x + width - 2, y + height * 0.4]]);
+
+	ctx.strokeStyle = style.theme.placeholder.stroke;
+	strokePlaceholderFrame(ctx, style, x + 2, y + 2, width - 4, height - 4);
+
+	// Pin: round head tapering to a point below the center
+	const radius = Math.min(14, Math.min(width, height) * 0.12);
+	const cx = x + width / 2;
+	const cy = y + height / 2 - radius;
+	strokeCircle(ctx, style, cx, cy, radius);
+	strokeCircle(ctx, style, cx, cy, radius * 0.35);
+	strokeSegments(ctx, style, [
+		[cx - radius * 0.8, cy + radius * 0.6, cx, cy + radius * 2.4],
+		[cx + radius * 0.8, cy + radius * 0.6, cx, cy + radius * 2.4],
+	]);
+}
+
+/**
+ * Render an input or select placeholder: a field box with a caret (input)
+ * or a chevron (select), and the placeholder text if known.
+ */
+function renderFieldPlaceholder(
+	ctx: WireframeContext2D,
+	hint: ContentHint,
+	style: RenderStyle,
+): void {
+	const { x, y, width, height } = hint.bbox;
+	if (width < 24 || height < 10) return;
+	const { theme } = style;
+
+	ctx.strokeStyle = theme.placeholder.stroke;
+	ctx.lineWidth = 1;
+	ctx.setLineDash([]);
+	strokePlaceholderFrame(ctx, style, x, y, width, height, Math.min(4, theme.cornerRadius));
+
+	const cy = y + height / 2;
+	const glyph = Math.min(5, height / 4);
+	let textRight = x + width - 8;
+	if (hint.type === "select") {
+		const cx = x + width - 8 - glyph;
+		strokeSegments(ctx, style, [
+			[cx - glyph, cy - glyph / 2, cx, cy + glyph / 2],
+			[cx, cy + glyph / 2, cx + glyph, cy - glyph / 2],
+		]);
+		textRight = cx - glyph - 6;
+	} else {
+		strokeSegments(ctx, style, [[x + 8, cy - glyph * 1.4, x + 8, cy + glyph * 1.4]]);
+	}
+
+	if (hint.label && width > 60) {
+		const textLeft = hint.type === "select" ? x + 8 : x + 14;
+		ctx.font = `${Math.min(11, height - 6)}px ${theme.fontFamily}`;
+		ctx.fillStyle = theme.placeholder.stroke;
+		ctx.textBaseline = "middle";
+		ctx.textAlign = "left";
+		ctx.fillText(truncateText(ctx, hint.label, textRight - textLeft), textLeft, cy);
+	}
+}
+
+/**
+ * Render a table placeholder (frame with a filled header row and a cell grid).
+ */
+function renderTablePlaceholder(
+	ctx: WireframeContext2D,
+	hint: ContentHint,
+	style: RenderStyle,
+): void {
+	const { x, y, width, height } = hint.bbox;
+	if (width < 40 || height < 30) return;
+	const { theme, sketch } = style;
+
+	const rows = Math.max(2, Math.min(6, Math.floor(height / 24)));
+	const columns = Math.max(2, Math.min(4, Math.floor(width / 80)));
+	const rowHeight = height / rows;
+	const columnWidth = width / columns;
+
+	ctx.setLineDash([]);
+	if (!sketch) {
+		ctx.fillStyle = theme.placeholder.buttonFill;
+		ctx.fillRect(x, y, width, rowHeight);
+	}
+
+	ctx.strokeStyle = theme.placeholder.stroke;
+	ctx.lineWidth = 1;
+	const segments: Array<[number, number, number, number]> = [];
+	for (let row = 1; row < rows; row++) {
+		segments.push([x, y + row * rowHeight, x + width, y + row * rowHeight]);
+	}
+	for (let column = 1; column < columns; column++) {
+		segments.push([x + column * columnWidth, y, x + column * columnWidth, y + height]);
+	}
+	strokeSegments(ctx, style, segments);
+	strokePlaceholderFrame(ctx, style, x, y, width, height, 0);
+}
+
+/**
+ * Render a logo placeholder (frame with a "LOGO" wordmark).
+ */
+function renderLogoPlaceholder(
+	ctx: WireframeContext2D,
+	hint: ContentHint,
+	style: RenderStyle,
+): void {
+	const { x, y, width, height } = hint.bbox;
+	if (width < 16 || height < 12) return;
+	const { theme } = style;
+
+	ctx.strokeStyle = theme.placeholder.stroke;
+	ctx.lineWidth = 1;
+	ctx.setLineDash([]);
+	strokePlaceholderFrame(ctx, style, x, y, width, height);
+
+	if (width < 36) return;
+	ctx.font = `bold ${Math.min(12, height * 0.5)}px ${theme.fontFamily}`;
+	ctx.fillStyle = theme.placeholder.stroke;
+	ctx.textBaseline = "middle";
+	ctx.textAlign = "center";
+	ctx.fillText(truncateText(ctx, "LOGO", width - 8), x + width / 2, y + height / 2);
+	ctx.textAlign = "left"; // Reset
+}
+
+/**
+ * Render an avatar placeholder (circle with a head and shoulders).
+ */
+function renderAvatarPlaceholder(
+	ctx: WireframeContext2D,
+	hint: ContentHint,
+	style: RenderStyle,
+): void {
+	const { x, y, width, height } = hint.bbox;
+	const cx = x + width / 2;
+	const cy = y + height / 2;
+	const radius = Math.min(width, height) / 2 - 1;
+	if (radius < 6) return;
+
+	ctx.strokeStyle = style.theme.placeholder.stroke;
+	ctx.lineWidth = 1;
+	ctx.setLineDash([]);
+	strokeCircle(ctx, style, cx, cy, radius);
+	strokeCircle(ctx, style, cx, cy - radius * 0.2, radius * 0.3);
+
+	// Shoulders: the top half of a circle below the head
+	const shouldersY = cy + radius * 0.65;
+	if (style.sketch) {
+		sketchArcStroke(ctx, style.sketch, cx, shouldersY, radius * 0.5, Math.PI, Math.PI * 2);
+		return;
+	}
+	ctx.beginPath();
+	ctx.arc(cx, shouldersY, radius * 0.5, Math.PI, Math.PI * 2);
+	ctx.stroke();
+}
+
+/**
+ * Render all content hints for a node.
+ * Z-order: background images (back) → text → tables → media (images, videos, maps, logos,
+ * avatars) → fields and buttons → icons (front)
+ */
+function renderContentHints(
+	ctx: WireframeContext2D,
+	hints: ContentHint[],
+	style: RenderStyle,
+): void {
+	// Sort by type for consistent z-order
+	const typeOrder: Record<ContentHint["type"], number> = {
+		text: 0,
+		table: 1,
+		image: 2,
+		video: 2,
+		map: 2,
+		logo: 2,
+		avatar: 2,
+		input: 3,
+		select: 3,
+		button: 3,
+		icon: 4,
+	};
+	const order = (hint: ContentHint) => (hint.background ? -1 : typeOrder[hint.type]);
+	const sorted = [...hints].sort((a, b) => order(a) - order(b));
+
+	for (const hint of sorted) {
+		ctx.beginGroup?.({ class: `wf-hint wf-hint-${hint.type}` });
+		switch (hint.type) {
+			case "image":
+				renderImagePlaceholder(ctx, hint, style);
+				break;
+			case "button":
+				renderButtonPlaceholder(ctx, hint, style);
+				break;
+			case "text":
+				renderTextPlaceholder(ctx, hint, style);
+				break;
+			case "icon":
+				renderIconPlaceholder(ctx, hint, style);
+				break;
+			case "video":
+				renderVideoPlaceholder(ctx, hint, style);
+				break;
+			case "map":
+				renderMapPlaceholder(ctx, hint, style);
+				break;
+			case "input":
+			case "select":
+				renderFieldPlaceholder(ctx, hint, style);
+				break;
+			case "table":
+				renderTablePlaceholder(ctx, hint, style);
+				break;
+			case "logo":
+				renderLogoPlaceholder(ctx, hint, style);
+				break;
+			case "avatar":
+				renderAvatarPlaceholder(ctx, hint, style);
+				break;
+		}
+		ctx.endGroup?.();
+	}
+}
+
+/**
+ * Render a floating node's position ("FIXED", "STICKY", "OVERLAY") as a
+ * small outlined tag whose top-right corner is at (right, top).
+ */
+function renderPositionTag(
+	ctx: WireframeContext2D,
+	position: NodePosition,
+	right: number,
+	top: number,
+	{ theme, sketch }: RenderStyle,
+): void {
+	const text = position.toUpperCase();
+	ctx.font = `bold 9px ${theme.fontFamily}`;
+	const width = ctx.measureText(text).width + 8;
+	const height = 14;
+	const x = right - width;
+
+	ctx.beginGroup?.({ class: "wf-position" });
+	ctx.fillStyle = theme.badge.text;
+	ctx.strokeStyle = theme.badge.background;
+	ctx.lineWidth = 1;
+	ctx.setLineDash([]);
+	if (sketch) {
+		sketchRectPath(ctx, sketch, x, top, width, height);
+		ctx.fill();
+		sketchRectStroke(ctx, sketch, x, top, width, height);
+	} else {
+		drawRoundedRect(ctx, x, top, width, height, theme.badge.radius);
+		ctx.fill();
+		ctx.stroke();
+	}
+
+	ctx.fillStyle = theme.badge.background;
+	ctx.textBaseline = "middle";
+	ctx.textAlign = "left";
+	ctx.fillText(text, x + 4, top + height / 2);
+	ctx.endGroup?.();
+}
+
+/**
+ * Render a label badge with solid dark background.
+ * Returns badge dimensions for click detection.
+ */
+function renderLabelBadge(
+	ctx: WireframeContext2D,
+	label: string,
+	x: number,
+	y: number,
+	maxWidth: number,
+	fontSize: number,
+	{ theme, sketch }: RenderStyle,
+): { width: number; height: number; displayLabel: string } {
+	const paddingX = 6;
+	const paddingY = 3;
+
+	ctx.font = `${fontSize}px ${theme.fontFamily}`;
+
+	// Truncate label if needed (leave some margin)
+	const displayLabel = truncateText(ctx, label, maxWidth - paddingX * 2 - 16);
+	const textWidth = ctx.measureText(displayLabel).width;
+
+	const badgeWidth = textWidth + paddingX * 2;
+	const badgeHeight = fontSize + paddingY * 2;
+
+	ctx.beginGroup?.({ class: "wf-badge" });
+
+	// Draw badge background
+	ctx.fillStyle = theme.badge.background;
+	if (sketch) {
+		sketchRectPath(ctx, sketch, x, y, badgeWidth, badgeHeight);
+	} else {
+		drawRoundedRect(ctx, x, y, badgeWidth, badgeHeight, theme.badge.radius);
+	}
+	ctx.fill();
+
+	// Draw text
+	ctx.fillStyle = theme.badge.text;
+	ctx.textBaseline = "top";
+	ctx.fillText(displayLabel, x + paddingX, y + paddingY);
+
+	ctx.endGroup?.();
+
+	return { width: badgeWidth, height: badgeHeight, displayLabel };
+}
+
+/**
+ * Render a single wireframe node.
+ * Returns badge info if a label was rendered, null otherwise.
+ */
+function renderNode(
+	ctx: WireframeContext2D,
+	node: WireframeNode,
+	config: RendererConfig,
+	style: RenderStyle,
+): BadgeInfo | null {
+	const { theme, sketch } = style;
+	const { id, bbox, depth, label, isLandmark, semanticType } = node;
+	const borderWidth = getThemeBorderWidth(theme, depth);
+
+	// Adjust coordinates for border width
+	const x = bbox.x + borderWidth / 2;
+	const y = bbox.y + borderWidth / 2;
+	const w = bbox.width - borderWidth;
+	const h = bbox.height - borderWidth;
+
+	// Skip very small boxes
+	if (w < 10 || h < 10) return null;
+
+	// Floating nodes cast a shadow, so they read as a layer above the page
+	if (node.position) {
+		ctx.save();
+		ctx.globalAlpha = FLOATING_SHADOW_ALPHA;
+		ctx.fillStyle = theme.borderColor;
+		const offset = FLOATING_SHADOW_OFFSET;
+		if (sketch) {
+			sketchRectPath(ctx, sketch, x + offset, y + offset, w, h);
+		} else {
+			drawBoxPath(ctx, x + offset, y + offset, w, h, theme.cornerRadius);
+		}
+		ctx.fill();
+		ctx.restore();
+	}
+
+	// Draw fill with semantic color
+	const fill = getThemeFill(theme, semanticType, depth);
+	ctx.fillStyle = fill;
+	if (sketch) {
+		sketchRectPath(ctx, sketch, x, y, w, h);
+		ctx.fill();
+		ctx.strokeStyle = getHatchColor(theme, fill);
+		ctx.lineWidth = 1;
+		ctx.setLineDash([]);
+		sketchHatch(ctx, sketch, x, y, w, h);
+	} else {
+		drawBoxPath(ctx, x, y, w, h, theme.cornerRadius);
+		ctx.fill();
+	}
+
+	// Draw border
+	ctx.strokeStyle = theme.borderColor;
+	ctx.lineWidth = borderWidth;
+
+	// Use dashed line for non-landmark elements at depth > 0
+	if (!isLandmark && depth > 0) {
+		ctx.setLineDash(theme.dashPattern);
+	} else {
+		ctx.setLineDash([]);
+	}
+
+	if (sketch) {
+		sketchRectStroke(ctx, sketch, x, y, w, h);
+	} else {
+		drawBoxPath(ctx, x, y, w, h, theme.cornerRadius);
+		ctx.stroke();
+	}
+
+	// Reset line dash
+	ctx.setLineDash([]);
+
+	// Draw content hints if enabled
+	if (config.showContentHints !== false && node.contentHints?.length) {
+		renderContentHints(ctx, node.contentHints, style);
+	}
+
+	if (node.position && w > 80 && h > 24) {
+		renderPositionTag(ctx, node.position, x + w - 6, y + 6, style);
+	}
+
+	// Draw label badge if enabled and box is large enough
+	if (config.showLabels && w > 60 && h > 30) {
+		// Check for label override (empty string = hidden)
+		const overriddenLabel = config.labelOverrides?.get(id);
+		const displayLabel = overriddenLabel !== undefined ? overriddenLabel : label;
+
+		// Skip if label is empty (hidden)
+		if (!displayLabel) return null;
+
+		const fontSize = Math.min(config.labelFontSize, 11);
+		const badgePadding = 8;
+		const badgeX = x + badgePadding;
+		const badgeY = y + badgePadding;
+		const badge = renderLabelBadge(
+			ctx,
+			displayLabel,
+			badgeX,
+			badgeY,
+			w - badgePadding * 2,
+			fontSize,
+			style,
+		);
+
+		return {
+			nodeId: id,
+			x: badgeX,
+			y: badgeY,
+			width: badge.width,
+			height: badge.height,
+			label: displayLabel,
+		};
+	}
+
+	return null;
+}
+
+/**
+ * Recursively render nodes (parent first, then children on top).
+ * Collects badge info for click detection.
+ */
+function renderNodeTree(
+	ctx: WireframeContext2D,
+	nodes: WireframeNode[],
+	config: RendererConfig,
+	style: RenderStyle,
+	range: PageRange,
+	badges: BadgeInfo[],
+): void {
+	// Floating nodes go on top of their siblings, or are left out entirely
+	const floating = nodes.filter((node) => node.position);
+	const ordered = [
+		...nodes.filter((node) => !node.position),
+		...(config.showFloating === false ? [] : floating),
+	];
+
+	for (const node of ordered) {
+		// Nodes outside the rendered range are skipped (their children still get a chance)
+		if (!overlapsRange(node.bbox, range)) {
+			renderNodeTree(ctx, node.children, config, style, range, badges);
+			continue;
+		}
+		ctx.beginGroup?.({
+			class: `wf-node wf-${node.semanticType}`,
+			"data-node-id": node.id,
+			"data-label": node.label,
+			...(node.selector ? { "data-selector": node.selector } : {}),
+		});
+		const badge = renderNode(ctx, node, config, style);
+		if (badge) badges.push(badge);
+		renderNodeTree(ctx, node.children, config, style, range, badges);
+		ctx.endGroup?.();
+	}
+}
+
+function overlapsRange(bbox: BoundingBox, range: PageRange): boolean {
+	return bbox.y < range.y + range.height && bbox.y + bbox.height > range.y;
+}
+
+/**
+ * The vertical part of the page a render covers: `config.range` clamped
+ * to the page, or the full page.
+ */
+export function getRenderRange(
+	model: WireframeModel,
+	config: Pick<RendererConfig, "range">,
+): PageRange {
+	if (!config.range) return { y: 0, height: model.fullPageHeight };
+	const y = Math.min(
+		Math.max(0, Math.round(config.range.y)),
+		Math.max(0, model.fullPageHeight - 1),
+	);
+	const height = Math.max(1, Math.min(Math.round(config.range.height), model.fullPageHeight - y));
+	return { y, height };
+}
+
+/**
+ * The first viewport of the page (above the fold).
+ */
+export function getAboveFoldRange(model: WireframeModel): PageRange {
+	return { y: 0, height: Math.min(model.viewport.height, model.fullPageHeight) };
+}
+
+/**
+ * Split the page into consecutive viewport-height slices (the last one
+ * may be shorter).
+ */
+export function getViewportSlices(model: WireframeModel): PageRange[] {
+	const sliceHeight = Math.max(1, model.viewport.height);
+	const slices: PageRange[] = [];
+	for (let y = 0; y < model.fullPageHeight; y += sliceHeight) {
+		slices.push({ y, height: Math.min(sliceHeight, model.fullPageHeight - y) });
+	}
+	return slices;
+}
+
+/**
+ * Draw the fold line: a dashed line at the bottom of the first viewport,
+ * captioned with its position. Nothing when the page fits in one viewport.
+ */
+function drawFoldLine(ctx: WireframeContext2D, model: WireframeModel, theme: WireframeTheme): void {
+	const foldY = model.viewport.height;
+	if (foldY >= model.fullPageHeight) return;
+
+	ctx.beginGroup?.({ class: "wf-fold" });
+	ctx.strokeStyle = FOLD_COLOR;
+	ctx.lineWidth = 2;
+	ctx.setLineDash([8, 6]);
+	ctx.beginPath();
+	ctx.moveTo(0, foldY);
+	ctx.lineTo(model.viewport.width, foldY);
+	ctx.stroke();
+	ctx.setLineDash([]);
+
+	ctx.fillStyle = FOLD_COLOR;
+	ctx.font = `bold 11px ${theme.fontFamily}`;
+	ctx.textAlign = "right";
+	ctx.textBaseline = "bottom";
+	ctx.fillText(`Fold (${foldY}px)`, model.viewport.width - 8, foldY - 4);
+	ctx.textAlign = "left"; // Reset
+	ctx.endGroup?.();
+}
+
+/**
+ * Semantic types used in the model (only by nodes within `range`, when
+ * given), in SEMANTIC_TYPES order.
+ */
+export function getUsedSemanticTypes(model: WireframeModel, range?: PageRange): SemanticType[] {
+	const used = new Set<SemanticType>();
+	const collect = (nodes: WireframeNode[]) => {
+		for (const node of nodes) {
+			if (!range || overlapsRange(node.bbox, range)) used.add(node.semanticType);
+			collect(node.children);
+		}
+	};
+	collect(model.nodes);
+	return SEMANTIC_TYPES.filter((type) => used.has(type));
+}
+
+function legendColumns(width: number): number {
+	return Math.max(1, Math.floor((width - LEGEND_PADDING * 2) / LEGEND_COLUMN_WIDTH));
+}
+
+/**
+ * Height of the legend for `typeCount` entries (0 when there are none).
+ */
+export function getLegendHeight(typeCount: number, width: number): number {
+	if (typeCount === 0) return 0;
+	const rows = Math.ceil(typeCount / legendColumns(width));
+	return LEGEND_PADDING * 2 + LEGEND_TITLE_HEIGHT + rows * LEGEND_ROW_HEIGHT;
+}
+
+/**
+ * Size of the image drawWireframe produces: the page (or `config.range`),
+ * plus the legend when `config.showLegend` is set and the notes legend
+ * when `config.showNotes` is set.
+ */
+export function getWireframeSize(
+	model: WireframeModel,
+	config: Pick<RendererConfig, "showLegend" | "showNotes" | "range">,
+): { width: number; height: number } {
+	const width = model.viewport.width;
+	const range = getRenderRange(model, config);
+	const legendHeight = config.showLegend
+		? getLegendHeight(getUsedSemanticTypes(model, range).length, width)
+		: 0;
+	const notesHeight = config.showNotes
+		? getNotesLegendHeight(getNumberedNotes(model, range).length)
+		: 0;
+	return { width, height: range.height + legendHeight + notesHeight };
+}
+
+/**
+ * Draw the color legend (swatch + name per semantic type) in a band
+ * starting at `y`, as tall as getLegendHeight.
+ */
+export function drawLegend(
+	ctx: WireframeContext2D,
+	types: SemanticType[],
+	y: number,
+	width: number,
+	config: RendererConfig,
+): void {
+	if (types.length === 0) return;
+	const { theme, sketch } = getRenderStyle(config);
+
+	ctx.beginGroup?.({ class: "wf-legend" });
+
+	ctx.fillStyle = theme.backgroundColor;
+	ctx.fillRect(0, y, width, getLegendHeight(types.length, width));
+
+	// Separator from the page
+	ctx.strokeStyle = theme.placeholder.textLine;
+	ctx.lineWidth = 1;
+	ctx.setLineDash([]);
+	ctx.beginPath();
+	ctx.moveTo(0, y + 0.5);
+	ctx.lineTo(width, y + 0.5);
+	ctx.stroke();
+
+	ctx.fillStyle = theme.labelColor;
+	ctx.textBaseline = "top";
+	ctx.textAlign = "left";
+	ctx.font = `bold 13px ${theme.fontFamily}`;
+	ctx.fillText("Legend", LEGEND_PADDING, y + LEGEND_PADDING);
+
+	const columns = legendColumns(width);
+	const swatchSize = 14;
+	ctx.font = `12px ${theme.fontFamily}`;
+
+	types.forEach((type, index) => {
+		const x = LEGEND_PADDING + (index % columns) * LEGEND_COLUMN_WIDTH;
+		const rowY =
+			y + LEGEND_PADDING + LEGEND_TITLE_HEIGHT + Math.floor(index / columns) * LEGEND_ROW_HEIGHT;
+
+		ctx.fillStyle = getThemeFill(theme, type, 0);
+		ctx.strokeStyle = theme.borderColor;
+		ctx.lineWidth = 1;
+		if (sketch) {
+			sketchRectPath(ctx, sketch, x, rowY, swatchSize, swatchSize);
+			ctx.fill();
+			sketchRectStroke(ctx, sketch, x, rowY, swatchSize, swatchSize);
+		} else {
+			drawBoxPath(ctx, x, rowY, swatchSize, swatchSize, 3);
+			ctx.fill();
+			ctx.stroke();
+		}
+
+		ctx.fillStyle = theme.labelColor;
+		ctx.textBaseline = "middle";
+		const name = truncateText(
+			ctx,
+			SEMANTIC_TYPE_NAMES[type],
+			LEGEND_COLUMN_WIDTH - swatchSize - 16,
+		);
+		ctx.fillText(name, x + swatchSize + 8, rowY + swatchSize / 2);
+	});
+
+	ctx.endGroup?.();
+}
+
+/**
+ * Draw the wireframe (background + node tree) onto a context sized by
+ * getWireframeSize: `model.viewport.width × model.fullPageHeight` (or the
+ * height of `config.range`), plus the legend band below when
+ * `config.showLegend` is set and the notes legend under that when
+ * `config.showNotes` is set.
+ * Returns badge positions for click detection, in image coordinates.
+ */
+export function drawWireframe(
+	ctx: WireframeContext2D,
+	model: WireframeModel,
+	config: RendererConfig,
+): BadgeInfo[] {
+	const style = getRenderStyle(config);
+	const range = getRenderRange(model, config);
+
+	// Clear and fill background
+	ctx.fillStyle = style.theme.backgroundColor;
+	ctx.fillRect(0, 0, model.viewport.width, range.height);
+
+	// Shift the page up so the range starts at the top of the image
+	ctx.save();
+	ctx.translate(0, -range.y);
+
+	// Render all nodes and collect badge positions
+	const badges: BadgeInfo[] = [];
+	renderNodeTree(ctx, model.nodes, config, style, range, badges);
+
+	if (config.showFold) drawFoldLine(ctx, model, style.theme);
+	if (config.showAnnotations !== false) {
+		drawAnnotations(ctx, model, style.theme.fontFamily, style.sketch);
+	}
+	ctx.restore();
+
+	let legendY = range.height;
+	if (config.showLegend) {
+		const types = getUsedSemanticTypes(model, range);
+		drawLegend(ctx, types, legendY, model.viewport.width, config);
+		legendY += getLegendHeight(types.length, model.viewport.width);
+	}
+	if (config.showNotes) {
+		drawNotesLegend(
+			ctx,
+			getNumberedNotes(model, range),
+			legendY,
+			model.viewport.width,
+			style.theme,
+		);
+	}
+
+	if (!config.range) return badges;
+	// Shift badges into image coordinates, dropping those cut off by the range
+	return badges
+		.map((badge) => ({ ...badge, y: badge.y - range.y }))
+		.filter((badge) => badge.y + badge.height > 0 && badge.y < range.height);
+}
@@ -0,0 +1,611 @@
+/**
+ * Model Schema
+ *
+ * Runtime validation for WireframeModel / WireframeNode / ContentHint /
+ * Annotation.
+ * Untrusted models (AI output, loaded files) go through
+ * `validateWireframeModel`, which:
+ * - Normalizes fixable issues (numeric strings, missing ids/children,
+ *   duplicate ids, wrong depth, boxes outside the page) and reports them
+ *   as repairs
+ * - Drops or defaults what it can't fix and reports it as errors, with a
+ *   JSON path so the producer can be asked to correct it
+ *
+ * @module shared/schema
+ */
+
+import type {
+	Annotation,
+	AnnotationPoint,
+	AnnotationType,
+	BoundingBox,
+	ContentHint,
+	ContentType,
+	NodePosition,
+	SemanticType,
+	WireframeModel,
+	WireframeNode,
+} from "./types.js";
+
+const SEMANTIC_TYPE_SET: Record<SemanticType, true> = {
+	header: true,
+	navigation: true,
+	hero: true,
+	content: true,
+	card: true,
+	cta: true,
+	footer: true,
+	sidebar: true,
+	form: true,
+	testimonial: true,
+	pricing: true,
+	gallery: true,
+	search: true,
+	modal: true,
+};
+
+const CONTENT_TYPE_SET: Record<ContentType, true> = {
+	image: true,
+	button: true,
+	text: true,
+	icon: true,
+	video: true,
+	map: true,
+	input: true,
+	select: true,
+	table: true,
+	logo: true,
+	avatar: true,
+};
+
+const ANNOTATION_TYPE_SET: Record<AnnotationType, true> = {
+	pin: true,
+	arrow: true,
+	note: true,
+	text: true,
+};
+
+const NODE_POSITION_SET: Record<NodePosition, true> = {
+	fixed: true,
+	sticky: true,
+	overlay: true,
+};
+
+/** Every valid semantic type */
+export const SEMANTIC_TYPES = Object.keys(SEMANTIC_TYPE_SET) as SemanticType[];
+
+/** Every valid content hint type */
+export const CONTENT_TYPES = Object.keys(CONTENT_TYPE_SET) as ContentType[];
+
+/** Every valid annotation type */
+export const ANNOTATION_TYPES = Object.keys(ANNOTATION_TYPE_SET) as AnnotationType[];
+
+/** Every valid node position */
+export const NODE_POSITIONS = Object.keys(NODE_POSITION_SET) as NodePosition[];
+
+/** Common near-misses mapped to valid semantic types */
+const SEMANTIC_TYPE_ALIASES: Record<string, SemanticType> = {
+	banner: "header",
+	masthead: "header",
+	nav: "navigation",
+	menu: "navigation",
+	jumbotron: "hero",
+	section: "content",
+	main: "content",
+	article: "content",
+	text: "content",
+	tile: "card",
+	item: "card",
+	button: "cta",
+	signup: "cta",
+	contentinfo: "footer",
+	aside: "sidebar",
+	complementary: "sidebar",
+	login: "form",
+	contact: "form",
+	review: "testimonial",
+	reviews: "testimonial",
+	quote: "testimonial",
+	plans: "pricing",
+	price: "pricing",
+	media: "gallery",
+	carousel: "gallery",
+	slider: "gallery",
+	searchbar: "search",
+	dialog: "modal",
+	popup: "modal",
+	overlay: "modal",
+	lightbox: "modal",
+};
+
+/** Tags treated as landmarks when `isLandmark` is missing */
+const LANDMARK_TAGS = new Set(["header", "nav", "main", "section", "article", "aside", "footer"]);
+
+/**
+ * A single problem found while validating, located by JSON path
+ * (e.g. `nodes[0].children[2].bbox`).
+ */
+export interface SchemaIssue {
+	path: string;
+	message: string;
+}
+
+/**
+ * Validation outcome.
+ */
+export interface ValidationResult {
+	/** True when there are no errors (repairs are fine) */
+	valid: boolean;
+	/** Normalized model, or null when the input isn't usable at all */
+	model: WireframeModel | null;
+	/** Problems that were dropped or defaulted rather than fixed */
+	errors: SchemaIssue[];
+	/** Problems that were fixed automatically */
+	repairs: SchemaIssue[];
+}
+
+/**
+ * Values used when the input lacks page-level fields
+ * (e.g. taken from the DOM data the model was generated from).
+ */
+export type ModelDefaults = Partial<
+	Pick<WireframeModel, "viewport" | "fullPageHeight" | "pageUrl" | "capturedAt">
+>;
+
+export function isSemanticType(value: unknown): value is SemanticType {
+	return typeof value === "string" && Object.hasOwn(SEMANTIC_TYPE_SET, value);
+}
+
+export function isContentType(value: unknown): value is ContentType {
+	return typeof value === "string" && Object.hasOwn(CONTENT_TYPE_SET, value);
+}
+
+export function isAnnotationType(value: unknown): value is AnnotationType {
+	return typeof value === "string" && Object.hasOwn(ANNOTATION_TYPE_SET, value);
+}
+
+export function isNodePosition(value: unknown): value is NodePosition {
+	return typeof value === "string" && Object.hasOwn(NODE_POSITION_SET, value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Shared state for one validation pass.
+ */
+class Validator {
+	readonly errors: SchemaIssue[] = [];
+	readonly repairs: SchemaIssue[] = [];
+	private readonly seenIds = new Set<string>();
+	private generatedIds = 0;
+
+	constructor(
+		private readonly pageWidth: number,
+		private readonly pageHeight: number,
+	) {}
+
+	error(path: string, message: string): void {
+		this.errors.push({ path, message });
+	}
+
+	repair(path: string, message: string): void {
+		this.repairs.push({ path, message });
+	}
+
+	/**
+	 * Read a finite number, accepting numeric strings.
+	 */
+	number(value: unknown, path: string): number | null {
+		if (typeof value === "number" && Number.isFinite(value)) return value;
+		if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) {
+			this.repair(path, `converted string "${value}" to a number`);
+			return Number(value);
+		}
+		return null;
+	}
+
+	/**
+	 * Validate a box and clamp it to the page. Returns null when unusable.
+	 */
+	bbox(value: unknown, path: string): BoundingBox | null {
+		if (!isRecord(value)) {
+			this.error(path, "bbox must be an object with x, y, width and height");
+			return null;
+		}
+
+		const fields = ["x", "y", "width", "height"] as const;
+		const box = {} as BoundingBox;
+		for (const field of fields) {
+			const num = this.number(value[field], `${path}.${field}`);
+			if (num === null) {
+				this.error(`${path}.${field}`, "must be a finite number");
+				return null;
+			}
+			box[field] = num;
+		}
+
+		let { x, y, width, height } = box;
+		if (width < 0) {
+			x += width;
+			width = -width;
+		}
+		if (height < 0) {
+			y += height;
+			height = -height;
+		}
+		const left = Math.max(0, x);
+		const top = Math.max(0, y);
+		const right = Math.min(this.pageWidth, x + width);
+		const bottom = Math.min(this.pageHeight, y + height);
+
+		if (right - left <= 0 || bottom - top <= 0) {
+			this.error(path, "box is empty or entirely outside the page");
+			return null;
+		}
+
+		const clamped = { x: left, y: top, width: right - left, height: bottom - top };
+		if (
+			clamped.x !== box.x ||
+			clamped.y !== box.y ||
+			clamped.width !== box.width ||
+			clamped.height !== box.height
+		) {
+			this.repair(path, "clamped box to the page");
+		}
+		return clamped;
+	}
+
+	/**
+	 * Return a unique id, generating or suffixing one when needed.
+	 */
+	id(value: unknown, path: string): string {
+		let id = typeof value === "number" ? String(value) : typeof value === "string" ? value : "";
+		if (id.trim() === "") {
+			do {
+				id = `wf-node-${++this.generatedIds}`;
+			} while (this.seenIds.has(id));
+			this.repair(path, `missing id, generated "${id}"`);
+		} else if (this.seenIds.has(id)) {
+			const original = id;
+			let suffix = 2;
+			while (this.seenIds.has(`${original}-${suffix}`)) suffix++;
+			id = `${original}-${suffix}`;
+			this.repair(path, `duplicate id "${original}" renamed to "${id}"`);
+		}
+		this.seenIds.add(id);
+		return id;
+	}
+
+	semanticType(value: unknown, path: string): SemanticType {
+		if (isSemanticType(value)) return value;
+
+		const alias =
+			typeof value === "string" ? SEMANTIC_TYPE_ALIASES[value.trim().toLowerCase()] : undefined;
+		if (alias) {
+			this.repair(path, `mapped "${value}" to "${alias}"`);
+			return alias;
+		}
+		if (typeof value === "string" && isSemanticType(value.trim().toLowerCase())) {
+			this.repair(path, `normalized "${value}"`);
+			return value.trim().toLowerCase() as SemanticType;
+		}
+
+		this.error(
+			path,
+			`unknown semanticType ${JSON.stringify(value)} (expected one of ${SEMANTIC_TYPES.join(", ")}); using "content"`,
+		);
+		return "content";
+	}
+
+	contentHints(value: unknown, path: string): ContentHint[] | undefined {
+		if (value === undefined || value === null) return undefined;
+		if (!Array.isArray(value)) {
+			this.repair(path, "contentHints must be an array; dropped");
+			return undefined;
+		}
+
+		const hints: ContentHint[] = [];
+		value.forEach((raw, index) => {
+			const hintPath = `${path}[${index}]`;
+			if (!isRecord(raw) || !isContentType(raw.type)) {
+				const type = isRecord(raw) ? JSON.stringify(raw.type) : "missing";
+				this.repair(
+					hintPath,
+					`unknown content hint type ${type} (expected one of ${CONTENT_TYPES.join(", ")}); dropped`,
+				);
+				return;
+			}
+			const bbox = this.bbox(raw.bbox, `${hintPath}.bbox`);
+			if (!bbox) return;
+
+			const hint: ContentHint = { type: raw.type, bbox };
+			if (typeof raw.label === "string" && raw.label) hint.label = raw.label;
+			if (raw.background === true) hint.background = true;
+			hints.push(hint);
+		});
+		return hints.length > 0 ? hints : undefined;
+	}
+
+	children(value: unknown, path: string): unknown[] {
+		if (Array.isArray(value)) return value;
+		if (value === undefined || value === null) {
+			this.repair(path, "missing children, using []");
+			return [];
+		}
+		if (isRecord(value)) {
+			this.repair(path, "children must be an array; wrapped single node");
+			return [value];
+		}
+		this.error(path, "children must be an array of nodes; dropped");
+		return [];
+	}
+
+	node(value: unknown, path: string, depth: number): WireframeNode | null {
+		if (!isRecord(value)) {
+			this.error(path, "node must be an object");
+			return null;
+		}
+
+		const bbox = this.bbox(value.bbox, `${path}.bbox`);
+		if (!bbox) return null;
+
+		const id = this.id(value.id, `${path}.id`);
+
+		let tagName = value.tagName;
+		if (typeof tagName !== "string" || tagName.trim() === "") {
+			this.repair(`${path}.tagName`, 'missing tagName, using "div"');
+			tagName = "div";
+		}
+		const tag = (tagName as string).toLowerCase();
+
+		let label = value.label;
+		if (typeof label !== "string") {
+			this.repair(`${path}.label`, "label must be a string");
+			label = label === undefined || label === null ? "" : String(label);
+		}
+
+		if (value.depth !== depth) {
+			this.repair(`${path}.depth`, `depth recomputed as ${depth}`);
+		}
+
+		let isLandmark = value.isLandmark;
+		if (typeof isLandmark !== "boolean") {
+			isLandmark = LANDMARK_TAGS.has(tag);
+			this.repair(`${path}.isLandmark`, `missing isLandmark, inferred ${isLandmark}`);
+		}
+
+		const node: WireframeNode = {
+			id,
+			tagName: tag,
+			label: label as string,
+			bbox,
+			depth,
+			children: [],
+			isLandmark: isLandmark as boolean,
+			semanticType: this.semanticType(value.semanticType, `${path}.semanticType`),
+		};
+
+		const hints = this.contentHints(value.contentHints, `${path}.contentHints`);
+		if (hints) node.contentHints = hints;
+
+		if (typeof value.selector === "string" && value.selector.trim() !== "") {
+			node.selector = value.selector;
+		} else if (value.selector !== undefined && value.selector !== null) {
+			this.repair(`${path}.selector`, "selector must be a string; dropped");
+		}
+
+		if (isNodePosition(value.position)) {
+			node.position = value.position;
+		} else if (value.position !== undefined && value.position !== null) {
+			this.repair(
+				`${path}.position`,
+				`unknown position ${JSON.stringify(value.position)} (expected one of ${NODE_POSITIONS.join(", ")}); dropped`,
+			);
+		}
+
+		const children = this.children(value.children, `${path}.children`);
+		children.forEach((child, index) => {
+			const childNode = this.node(child, `${path}.children[${index}]`, depth + 1);
+			if (childNode) node.children.push(childNode);
+		});
+
+		return node;
+	}
+
+	/**
+	 * Validate an annotation point. Points on unknown nodes are unusable.
+	 */
+	annotationPoint(value: unknown, path: string): AnnotationPoint | null {
+		if (!isRecord(value)) {
+			this.error(path, "point must be an object with x and y");
+			return null;
+		}
+		const x = this.number(value.x, `${path}.x`);
+		const y = this.number(value.y, `${path}.y`);
+		if (x === null || y === null) {
+			this.error(path, "x and y must be finite numbers");
+			return null;
+		}
+		if (value.nodeId === undefined || value.nodeId === null) return { x, y };
+		if (typeof value.nodeId !== "string" || !this.seenIds.has(value.nodeId)) {
+			this.error(`${path}.nodeId`, `unknown node ${JSON.stringify(value.nodeId)}`);
+			return null;
+		}
+		return { x, y, nodeId: value.nodeId };
+	}
+
+	/**
+	 * Validate annotations (after the nodes, so node ids can be checked).
+	 * Unusable annotations are dropped.
+	 */
+	annotations(value: unknown, path: string): Annotation[] | undefined {
+		if (value === undefined || value === null) return undefined;
+		if (!Array.isArray(value)) {
+			this.error(path, "annotations must be an array; dropped");
+			return undefined;
+		}
+
+		const ids = new Set<string>();
+		const annotations: Annotation[] = [];
+		value.forEach((raw, index) => {
+			const itemPath = `${path}[${index}]`;
+			if (!isRecord(raw) || !isAnnotationType(raw.type)) {
+				const type = isRecord(raw) ? JSON.stringify(raw.type) : "missing";
+				this.error(
+					itemPath,
+					`unknown annotation type ${type} (expected one of ${ANNOTATION_TYPES.join(", ")}); dropped`,
+				);
+				return;
+			}
+
+			const at = this.annotationPoint(raw.at, `${itemPath}.at`);
+			if (!at) return;
+			const annotation: Annotation = { id: "", type: raw.type, at, text: "" };
+			if (raw.type === "arrow") {
+				const to = this.annotationPoint(raw.to, `${itemPath}.to`);
+				if (!to) return;
+				annotation.to = to;
+			}
+
+			if (typeof raw.text === "string") {
+				annotation.text = raw.text;
+			} else if (raw.text !== undefined && raw.text !== null) {
+				annotation.text = String(raw.text);
+				this.repair(`${itemPath}.text`, "text must be a string");
+			}
+
+			let id = typeof raw.id === "string" ? raw.id : "";
+			if (!id || ids.has(id)) {
+				let next = index + 1;
+				while (ids.has(`note-${next}`)) next++;
+				id = `note-${next}`;
+				this.repair(`${itemPath}.id`, `missing or duplicate id, using "${id}"`);
+			}
+			ids.add(id);
+			annotation.id = id;
+			annotations.push(annotation);
+		});
+		return annotations;
+	}
+
+	/**
+	 * Validate hidden node ids (after the nodes). Unknown ids are dropped.
+	 */
+	hiddenIds(value: unknown, path: string): string[] | undefined {
+		if (value === undefined || value === null) return undefined;
+		if (!Array.isArray(value)) {
+			this.repair(path, "hiddenIds must be an array; dropped");
+			return undefined;
+		}
+
+		const hiddenIds: string[] = [];
+		value.forEach((id, index) => {
+			if (typeof id === "string" && this.seenIds.has(id)) {
+				hiddenIds.push(id);
+			} else {
+				this.repair(`${path}[${index}]`, `unknown node ${JSON.stringify(id)}; dropped`);
+			}
+		});
+		return hiddenIds;
+	}
+}
+
+/**
+ * Validate and normalize an untrusted WireframeModel.
+ */
+export function validateWireframeModel(
+	input: unknown,
+	defaults: ModelDefaults = {},
+): ValidationResult {
+	const fail = (path: string, message: string): ValidationResult => ({
+		valid: false,
+		model: null,
+		errors: [{ path, message }],
+		repairs: [],
+	});
+
+	if (!isRecord(input)) return fail("", "model must be a JSON object");
+	if (!Array.isArray(input.nodes)) return fail("nodes", "nodes must be an array");
+
+	const repairs: SchemaIssue[] = [];
+
+	// Viewport
+	let viewport = defaults.viewport;
+	const rawViewport = input.viewport;
+	if (isRecord(rawViewport) && Number(rawViewport.width) > 0 && Number(rawViewport.height) > 0) {
+		viewport = { width: Number(rawViewport.width), height: Number(rawViewport.height) };
+	} else if (viewport) {
+		repairs.push({ path: "viewport", message: "missing or invalid viewport, using defaults" });
+	} else {
+		return fail("viewport", "viewport must have positive width and height");
+	}
+
+	// Full page height
+	let fullPageHeight = Number(input.fullPageHeight);
+	if (!(fullPageHeight > 0)) {
+		fullPageHeight = defaults.fullPageHeight ?? 0;
+		if (!(fullPageHeight > 0)) {
+			// Fall back to the lowest node edge
+			fullPageHeight = viewport.height;
+			for (const raw of input.nodes) {
+				if (isRecord(raw) && isRecord(raw.bbox)) {
+					const bottom = Number(raw.bbox.y) + Number(raw.bbox.height);
+					if (Number.isFinite(bottom)) fullPageHeight = Math.max(fullPageHeight, bottom);
+				}
+			}
+		}
+		repairs.push({
+			path: "fullPageHeight",
+			message: `missing or invalid fullPageHeight, using ${fullPageHeight}`,
+		});
+	}
+
+	const validator = new Validator(viewport.width, fullPageHeight);
+	validator.repairs.push(...repairs);
+
+	// Page metadata
+	let pageUrl = input.pageUrl;
+	if (typeof pageUrl !== "string" || !pageUrl) {
+		pageUrl = defaults.pageUrl ?? "";
+		validator.repair("pageUrl", "missing pageUrl");
+	}
+	let capturedAt = input.capturedAt;
+	if (typeof capturedAt !== "string" || Number.isNaN(Date.parse(capturedAt))) {
+		capturedAt = defaults.capturedAt ?? new Date().toISOString();
+		validator.repair("capturedAt", "missing or invalid capturedAt");
+	}
+
+	const nodes: WireframeNode[] = [];
+	input.nodes.forEach((raw, index) => {
+		const node = validator.node(raw, `nodes[${index}]`, 0);
+		if (node) nodes.push(node);
+	});
+
+	const model: WireframeModel = {
+		nodes,
+		viewport,
+		fullPageHeight,
+		pageUrl: pageUrl as string,
+		capturedAt: capturedAt as string,
+	};
+	const annotations = validator.annotations(input.annotations, "annotations");
+	if (annotations) model.annotations = annotations;
+	const hiddenIds = validator.hiddenIds(input.hiddenIds, "hiddenIds");
+	if (hiddenIds && hiddenIds.length > 0) model.hiddenIds = hiddenIds;
+
+	return {
+		valid: validator.errors.length === 0,
+		model,
+		errors: validator.errors,
+		repairs: validator.repairs,
+	};
+}
+
+/**
+ * Format issues as one line each (for logs and AI feedback).
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+	return issues.map((issue) => `- ${issue.path || "(root)"}: ${issue.message}`).join("\n");
+}
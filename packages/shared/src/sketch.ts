@@ -0,0 +1,360 @@
+/**
+ * Sketch Primitives
+ *
+ * Hand-drawn shapes for the render core's sketch mode: wobbly double
+ * strokes, hatched fills, rough pills and ellipses. Everything is built
+ * from plain path calls, so it draws the same on every WireframeContext2D
+ * (browser canvas, @napi-rs/canvas, SVG).
+ *
+ * Randomness comes from a small seeded generator keyed by the sketch seed
+ * and the shape's geometry: the same model and seed always produce the
+ * same strokes, and editing one block doesn't reshuffle the others.
+ *
+ * @module shared/sketch
+ */
+
+import type { WireframeContext2D } from "./draw-context.js";
+
+/** Seed used when sketch mode is on without an explicit seed */
+export const DEFAULT_SKETCH_SEED = 1;
+
+/** Default stroke wobble in pixels */
+const DEFAULT_ROUGHNESS = 1.5;
+
+/** Default distance between hatch lines in pixels */
+const DEFAULT_HATCH_GAP = 10;
+
+/**
+ * Settings for sketch mode (`RendererConfig.sketch`).
+ */
+export interface SketchOptions {
+	/** Seed for the stroke wobble (default: 1). Same seed, same drawing. */
+	seed?: number;
+	/** Max stroke wobble in pixels (default: 1.5) */
+	roughness?: number;
+	/** Distance between hatch lines in pixels (default: 10; 0 disables hatching) */
+	hatchGap?: number;
+}
+
+/** Sketch settings with every default applied */
+export type Sketch = Required<SketchOptions>;
+
+type Point = [number, number];
+
+/**
+ * Apply sketch defaults.
+ */
+export function resolveSketch(options: SketchOptions = {}): Sketch {
+	return {
+		seed: options.seed ?? DEFAULT_SKETCH_SEED,
+		roughness: options.roughness ?? DEFAULT_ROUGHNESS,
+		hatchGap: options.hatchGap ?? DEFAULT_HATCH_GAP,
+	};
+}
+
+/**
+ * Seeded random generator (mulberry32) keyed by the seed and shape values.
+ * Returns numbers in [-1, 1). Integer math only, so every JS engine agrees.
+ */
+function createRandom(seed: number, ...values: number[]): () => number {
+	let state = Math.imul(seed | 0, 0x9e3779b1);
+	for (const value of values) {
+		state = Math.imul(state ^ Math.round(value * 2), 0x85ebca6b);
+		state ^= state >>> 13;
+	}
+	return () => {
+		state = (state + 0x6d2b79f5) | 0;
+		let t = Math.imul(state ^ (state >>> 15), 1 | state);
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+		return ((t ^ (t >>> 14)) >>> 0) / 2147483648 - 1;
+	};
+}
+
+/**
+ * Add one wobbly line to the current path: jittered ends and a slight bow.
+ */
+function addRoughLine(
+	ctx: WireframeContext2D,
+	random: () => number,
+	roughness: number,
+	[x1, y1]: Point,
+	[x2, y2]: Point,
+): void {
+	const length = Math.hypot(x2 - x1, y2 - y1);
+	// Long lines bow a little more, like a real pen stroke
+	const bow = Math.min(roughness * 2, length * 0.01) * random();
+	const normalX = length ? -(y2 - y1) / length : 0;
+	const normalY = length ? (x2 - x1) / length : 0;
+
+	ctx.moveTo(x1 + random() * roughness, y1 + random() * roughness);
+	ctx.quadraticCurveTo(
+		(x1 + x2) / 2 + normalX * bow + random() * roughness,
+		(y1 + y2) / 2 + normalY * bow + random() * roughness,
+		x2 + random() * roughness,
+		y2 + random() * roughness,
+	);
+}
+
+/**
+ * Add a smooth closed curve through jittered points to the current path.
+ */
+function addRoughLoop(
+	ctx: WireframeContext2D,
+	random: () => number,
+	roughness: number,
+	points: Point[],
+): void {
+	const jittered = points.map(
+		([x, y]): Point => [x + random() * roughness, y + random() * roughness],
+	);
+	const mid = (a: Point, b: Point): Point => [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+
+	const start = mid(jittered[jittered.length - 1], jittered[0]);
+	ctx.moveTo(start[0], start[1]);
+	jittered.forEach((point, i) => {
+		const end = mid(point, jittered[(i + 1) % jittered.length]);
+		ctx.quadraticCurveTo(point[0], point[1], end[0], end[1]);
+	});
+	ctx.closePath();
+}
+
+/**
+ * Add a smooth open curve through jittered points to the current path.
+ */
+function addRoughCurve(
+	ctx: WireframeContext2D,
+	random: () => number,
+	roughness: number,
+	points: Point[],
+): void {
+	const jittered = points.map(
+		([x, y]): Point => [x + random() * roughness, y + random() * roughness],
+	);
+	const last = jittered.length - 1;
+
+	ctx.moveTo(jittered[0][0], jittered[0][1]);
+	for (let i = 1; i < last; i++) {
+		const [x, y] = jittered[i];
+		const [nextX, nextY] = jittered[i + 1];
+		// Curve through each point, ending halfway to the next (or at the last point)
+		const end: Point = i === last - 1 ? [nextX, nextY] : [(x + nextX) / 2, (y + nextY) / 2];
+		ctx.quadraticCurveTo(x, y, end[0], end[1]);
+	}
+}
+
+/**
+ * Outline points of a pill (straight sides, half-circle ends).
+ */
+function pillPoints(x: number, y: number, width: number, height: number): Point[] {
+	const radius = Math.min(height, width) / 2;
+	const points: Point[] = [];
+	const steps = 6;
+	for (let i = 0; i <= steps; i++) {
+		const angle = -Math.PI / 2 + (Math.PI * i) / steps;
+		points.push([
+			x + width - radius + Math.cos(angle) * radius,
+			y + radius + Math.sin(angle) * radius,
+		]);
+	}
+	for (let i = 0; i <= steps; i++) {
+		const angle = Math.PI / 2 + (Math.PI * i) / steps;
+		points.push([x + radius + Math.cos(angle) * radius, y + radius + Math.sin(angle) * radius]);
+	}
+	return points;
+}
+
+/**
+ * Outline points of an ellipse.
+ */
+function ellipsePoints(cx: number, cy: number, rx: number, ry: number): Point[] {
+	const steps = 10;
+	return Array.from({ length: steps }, (_, i): Point => {
+		const angle = (Math.PI * 2 * i) / steps;
+		return [cx + Math.cos(angle) * rx, cy + Math.sin(angle) * ry];
+	});
+}
+
+/**
+ * Build a fillable rough rectangle path (one closed loop).
+ */
+export function sketchRectPath(
+	ctx: WireframeContext2D,
+	sketch: Sketch,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+): void {
+	const random = createRandom(sketch.seed, 1, x, y, width, height);
+	ctx.beginPath();
+	ctx.moveTo(x + random() * sketch.roughness, y + random() * sketch.roughness);
+	const corners: Point[] = [
+		[x + width, y],
+		[x + width, y + height],
+		[x, y + height],
+		[x, y],
+	];
+	for (const [cx, cy] of corners) {
+		ctx.lineTo(cx + random() * sketch.roughness, cy + random() * sketch.roughness);
+	}
+	ctx.closePath();
+}
+
+/**
+ * Stroke a rectangle twice with independent wobble (the hand-drawn look).
+ */
+export function sketchRectStroke(
+	ctx: WireframeContext2D,
+	sketch: Sketch,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+): void {
+	const corners: Point[] = [
+		[x, y],
+		[x + width, y],
+		[x + width, y + height],
+		[x, y + height],
+	];
+	for (let pass = 0; pass < 2; pass++) {
+		const random = createRandom(sketch.seed, 2 + pass, x, y, width, height);
+		ctx.beginPath();
+		corners.forEach((corner, i) => {
+			addRoughLine(ctx, random, sketch.roughness, corner, corners[(i + 1) % 4]);
+		});
+		ctx.stroke();
+	}
+}
+
+/**
+ * Stroke a straight line twice with independent wobble.
+ */
+export function sketchLine(
+	ctx: WireframeContext2D,
+	sketch: Sketch,
+	x1: number,
+	y1: number,
+	x2: number,
+	y2: number,
+): void {
+	for (let pass = 0; pass < 2; pass++) {
+		const random = createRandom(sketch.seed, 4 + pass, x1, y1, x2, y2);
+		ctx.beginPath();
+		addRoughLine(ctx, random, sketch.roughness, [x1, y1], [x2, y2]);
+		ctx.stroke();
+	}
+}
+
+/**
+ * Build a fillable rough pill path.
+ */
+export function sketchPillPath(
+	ctx: WireframeContext2D,
+	sketch: Sketch,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+): void {
+	const random = createRandom(sketch.seed, 6, x, y, width, height);
+	ctx.beginPath();
+	addRoughLoop(ctx, random, sketch.roughness, pillPoints(x, y, width, height));
+}
+
+/**
+ * Stroke a pill outline twice with independent wobble.
+ */
+export function sketchPillStroke(
+	ctx: WireframeContext2D,
+	sketch: Sketch,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+): void {
+	for (let pass = 0; pass < 2; pass++) {
+		const random = createRandom(sketch.seed, 7 + pass, x, y, width, height);
+		ctx.beginPath();
+		addRoughLoop(ctx, random, sketch.roughness, pillPoints(x, y, width, height));
+		ctx.stroke();
+	}
+}
+
+/**
+ * Stroke an ellipse outline twice with independent wobble.
+ */
+export function sketchEllipseStroke(
+	ctx: WireframeContext2D,
+	sketch: Sketch,
+	cx: number,
+	cy: number,
+	rx: number,
+	ry: number,
+): void {
+	for (let pass = 0; pass < 2; pass++) {
+		const random = createRandom(sketch.seed, 9 + pass, cx, cy, rx, ry);
+		ctx.beginPath();
+		addRoughLoop(ctx, random, sketch.roughness * 0.6, ellipsePoints(cx, cy, rx, ry));
+		ctx.stroke();
+	}
+}
+
+/**
+ * Stroke a circular arc (angles in radians, clockwise) twice with
+ * independent wobble.
+ */
+export function sketchArcStroke(
+	ctx: WireframeContext2D,
+	sketch: Sketch,
+	cx: number,
+	cy: number,
+	radius: number,
+	startAngle: number,
+	endAngle: number,
+): void {
+	const steps = 8;
+	const points = Array.from({ length: steps + 1 }, (_, i): Point => {
+		const angle = startAngle + ((endAngle - startAngle) * i) / steps;
+		return [cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius];
+	});
+	for (let pass = 0; pass < 2; pass++) {
+		const random = createRandom(sketch.seed, 12 + pass, cx, cy, radius, startAngle);
+		ctx.beginPath();
+		addRoughCurve(ctx, random, sketch.roughness * 0.6, points);
+		ctx.stroke();
+	}
+}
+
+/**
+ * Stroke 45° hatch lines across a rectangle, inset by `inset` pixels.
+ * Uses the current strokeStyle and lineWidth.
+ */
+export function sketchHatch(
+	ctx: WireframeContext2D,
+	sketch: Sketch,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+	inset = 3,
+): void {
+	const gap = sketch.hatchGap;
+	const left = x + inset;
+	const top = y + inset;
+	const w = width - inset * 2;
+	const h = height - inset * 2;
+	if (gap <= 0 || w < gap || h < gap) return;
+
+	const random = createRandom(sketch.seed, 11, x, y, width, height);
+	// Hatch strokes are thin, so they wobble less than outlines
+	const roughness = sketch.roughness * 0.5;
+	ctx.beginPath();
+	// Each line runs from the top/right edge down-left to the left/bottom edge
+	for (let offset = gap; offset < w + h; offset += gap) {
+		const start: Point = [left + Math.min(offset, w), top + Math.max(0, offset - w)];
+		const end: Point = [left + Math.max(0, offset - h), top + Math.min(offset, h)];
+		addRoughLine(ctx, random, roughness, start, end);
+	}
+	ctx.stroke();
+}
@@ -0,0 +1,341 @@
+/**
+ * SVG Drawing Context
+ *
+ * Implements `WireframeContext2D` by recording canvas-style drawing calls
+ * as SVG elements. Lets the shared render core produce vector output with
+ * the exact geometry used for PNGs.
+ *
+ * Supported subset: paths (moveTo/lineTo/quadraticCurveTo/arc), fill and
+ * stroke with dashes and caps, rectangles, text, translation, global alpha,
+ * save/restore, and logical groups (`beginGroup`/`endGroup` → `<g>`).
+ *
+ * @module shared/svg-context
+ */
+
+import type { DrawGroupAttributes, WireframeContext2D } from "./draw-context.js";
+
+/** Average glyph width relative to font size (used when no measurer is given) */
+const CHAR_WIDTH_RATIO = 0.55;
+
+/**
+ * Text measurement function. Pass a real measurer (e.g. a canvas context's
+ * measureText) for exact badge widths; defaults to an estimate.
+ */
+export type TextMeasurer = (text: string, font: string) => number;
+
+interface SvgState {
+	fillStyle: string;
+	strokeStyle: string;
+	lineWidth: number;
+	lineCap: WireframeContext2D["lineCap"];
+	font: string;
+	textAlign: WireframeContext2D["textAlign"];
+	textBaseline: WireframeContext2D["textBaseline"];
+	globalAlpha: number;
+	lineDash: number[];
+	offsetX: number;
+	offsetY: number;
+}
+
+/**
+ * Format a number for SVG attributes (max 2 decimals, no trailing zeros).
+ */
+function fmt(value: number): string {
+	return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Escape text for use in XML content and attribute values.
+ */
+export function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
+
+/**
+ * Estimate text width from the pixel size in a CSS font string.
+ */
+function estimateTextWidth(text: string, font: string): number {
+	const match = font.match(/(\d+(?:\.\d+)?)px/);
+	const fontSize = match ? parseFloat(match[1]) : 10;
+	return text.length * fontSize * CHAR_WIDTH_RATIO;
+}
+
+const TEXT_ANCHORS: Record<WireframeContext2D["textAlign"], string> = {
+	left: "start",
+	start: "start",
+	center: "middle",
+	right: "end",
+	end: "end",
+};
+
+const DOMINANT_BASELINES: Record<WireframeContext2D["textBaseline"], string> = {
+	top: "text-before-edge",
+	hanging: "hanging",
+	middle: "central",
+	alphabetic: "alphabetic",
+	ideographic: "ideographic",
+	bottom: "text-after-edge",
+};
+
+/**
+ * Canvas-like context that records drawing as SVG markup.
+ */
+export class SvgContext implements WireframeContext2D {
+	private state: SvgState = {
+		fillStyle: "#000000",
+		strokeStyle: "#000000",
+		lineWidth: 1,
+		lineCap: "butt",
+		font: "10px sans-serif",
+		textAlign: "start",
+		textBaseline: "alphabetic",
+		globalAlpha: 1,
+		lineDash: [],
+		offsetX: 0,
+		offsetY: 0,
+	};
+	private stack: SvgState[] = [];
+	private path: string[] = [];
+	private hasCurrentPoint = false;
+	private parts: string[] = [];
+
+	constructor(private readonly measure: TextMeasurer = estimateTextWidth) {}
+
+	get fillStyle(): string {
+		return this.state.fillStyle;
+	}
+	set fillStyle(value: string | object) {
+		if (typeof value === "string") this.state.fillStyle = value;
+	}
+
+	get strokeStyle(): string {
+		return this.state.strokeStyle;
+	}
+	set strokeStyle(value: string | object) {
+		if (typeof value === "string") this.state.strokeStyle = value;
+	}
+
+	get lineWidth(): number {
+		return this.state.lineWidth;
+	}
+	set lineWidth(value: number) {
+		this.state.lineWidth = value;
+	}
+
+	get lineCap(): SvgState["lineCap"] {
+		return this.state.lineCap;
+	}
+	set lineCap(value: SvgState["lineCap"]) {
+		this.state.lineCap = value;
+	}
+
+	get font(): string {
+		return this.state.font;
+	}
+	set font(value: string) {
+		this.state.font = value;
+	}
+
+	get textAlign(): SvgState["textAlign"] {
+		return this.state.textAlign;
+	}
+	set textAlign(value: SvgState["textAlign"]) {
+		this.state.textAlign = value;
+	}
+
+	get textBaseline(): SvgState["textBaseline"] {
+		return this.state.textBaseline;
+	}
+	set textBaseline(value: SvgState["textBaseline"]) {
+		this.state.textBaseline = value;
+	}
+
+	get globalAlpha(): number {
+		return this.state.globalAlpha;
+	}
+	set globalAlpha(value: number) {
+		this.state.globalAlpha = value;
+	}
+
+	save(): void {
+		this.stack.push({ ...this.state, lineDash: [...this.state.lineDash] });
+	}
+
+	restore(): void {
+		const previous = this.stack.pop();
+		if (previous) this.state = previous;
+	}
+
+	translate(x: number, y: number): void {
+		this.state.offsetX += x;
+		this.state.offsetY += y;
+	}
+
+	beginPath(): void {
+		this.path = [];
+		this.hasCurrentPoint = false;
+	}
+
+	closePath(): void {
+		if (this.path.length > 0) this.path.push("Z");
+	}
+
+	moveTo(x: number, y: number): void {
+		this.path.push(`M${this.px(x)} ${this.py(y)}`);
+		this.hasCurrentPoint = true;
+	}
+
+	lineTo(x: number, y: number): void {
+		if (!this.hasCurrentPoint) {
+			this.moveTo(x, y);
+			return;
+		}
+		this.path.push(`L${this.px(x)} ${this.py(y)}`);
+	}
+
+	quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+		this.path.push(`Q${this.px(cpx)} ${this.py(cpy)} ${this.px(x)} ${this.py(y)}`);
+		this.hasCurrentPoint = true;
+	}
+
+	arc(
+		x: number,
+		y: number,
+		radius: number,
+		startAngle: number,
+		endAngle: number,
+		counterclockwise = false,
+	): void {
+		const startX = x + radius * Math.cos(startAngle);
+		const startY = y + radius * Math.sin(startAngle);
+		if (this.hasCurrentPoint) {
+			this.lineTo(startX, startY);
+		} else {
+			this.moveTo(startX, startY);
+		}
+
+		const fullTurn = Math.PI * 2;
+		let sweep = counterclockwise ? startAngle - endAngle : endAngle - startAngle;
+		if (sweep >= fullTurn) {
+			// Full circle: SVG arcs can't start and end on the same point, so split in two
+			const midAngle = startAngle + (counterclockwise ? -Math.PI : Math.PI);
+			this.arc(x, y, radius, startAngle, midAngle, counterclockwise);
+			this.arc(x, y, radius, midAngle, startAngle, counterclockwise);
+			return;
+		}
+		sweep = ((sweep % fullTurn) + fullTurn) % fullTurn;
+
+		const endX = x + radius * Math.cos(endAngle);
+		const endY = y + radius * Math.sin(endAngle);
+		const largeArc = sweep > Math.PI ? 1 : 0;
+		const sweepFlag = counterclockwise ? 0 : 1;
+		this.path.push(
+			`A${fmt(radius)} ${fmt(radius)} 0 ${largeArc} ${sweepFlag} ${this.px(endX)} ${this.py(endY)}`,
+		);
+	}
+
+	fill(): void {
+		if (this.path.length === 0) return;
+		this.parts.push(
+			`<path d="${this.path.join("")}" fill="${escapeXml(this.fillStyle)}"${this.alphaAttr()}/>`,
+		);
+	}
+
+	stroke(): void {
+		if (this.path.length === 0) return;
+		this.parts.push(
+			`<path d="${this.path.join("")}" fill="none"${this.strokeAttrs()}${this.alphaAttr()}/>`,
+		);
+	}
+
+	setLineDash(segments: number[]): void {
+		this.state.lineDash = [...segments];
+	}
+
+	fillRect(x: number, y: number, width: number, height: number): void {
+		this.parts.push(
+			`<rect x="${this.px(x)}" y="${this.py(y)}" width="${fmt(width)}" height="${fmt(height)}" ` +
+				`fill="${escapeXml(this.fillStyle)}"${this.alphaAttr()}/>`,
+		);
+	}
+
+	fillText(text: string, x: number, y: number): void {
+		this.parts.push(
+			`<text x="${this.px(x)}" y="${this.py(y)}" fill="${escapeXml(this.fillStyle)}"` +
+				`${this.fontAttrs()} text-anchor="${TEXT_ANCHORS[this.textAlign]}" ` +
+				`dominant-baseline="${DOMINANT_BASELINES[this.textBaseline]}"${this.alphaAttr()}>` +
+				`${escapeXml(text)}</text>`,
+		);
+	}
+
+	measureText(text: string): { width: number } {
+		return { width: this.measure(text, this.font) };
+	}
+
+	beginGroup(attributes: DrawGroupAttributes): void {
+		const attrs = Object.entries(attributes)
+			.map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+			.join("");
+		this.parts.push(`<g${attrs}>`);
+	}
+
+	endGroup(): void {
+		this.parts.push("</g>");
+	}
+
+	/**
+	 * Serialize everything drawn so far as a standalone SVG document.
+	 */
+	toSvg(width: number, height: number, title?: string): string {
+		return (
+			`<?xml version="1.0" encoding="UTF-8"?>\n` +
+			`<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(width)}" height="${fmt(height)}" ` +
+			`viewBox="0 0 ${fmt(width)} ${fmt(height)}">\n` +
+			(title ? `<title>${escapeXml(title)}</title>\n` : "") +
+			`${this.parts.join("\n")}\n</svg>\n`
+		);
+	}
+
+	private px(x: number): string {
+		return fmt(x + this.state.offsetX);
+	}
+
+	private py(y: number): string {
+		return fmt(y + this.state.offsetY);
+	}
+
+	private strokeAttrs(): string {
+		let attrs = ` stroke="${escapeXml(this.strokeStyle)}" stroke-width="${fmt(this.lineWidth)}"`;
+		if (this.lineCap !== "butt") attrs += ` stroke-linecap="${this.lineCap}"`;
+		if (this.state.lineDash.length > 0) {
+			attrs += ` stroke-dasharray="${this.state.lineDash.map(fmt).join(" ")}"`;
+		}
+		return attrs;
+	}
+
+	/**
+	 * Split the CSS font shorthand into presentation attributes, which are
+	 * understood by more SVG consumers than `style="font: ..."`.
+	 */
+	private fontAttrs(): string {
+		const match = this.font.match(
+			/^\s*(?:(italic|oblique)\s+)?(?:(normal|bold|bolder|lighter|\d{3})\s+)?(\d+(?:\.\d+)?)px(?:\/\S+)?\s+(.+)$/,
+		);
+		if (!match) return ` style="font: ${escapeXml(this.font)}"`;
+
+		const [, fontStyle, fontWeight, fontSize, fontFamily] = match;
+		let attrs = ` font-family="${escapeXml(fontFamily)}" font-size="${fontSize}"`;
+		if (fontWeight && fontWeight !== "normal") attrs += ` font-weight="${fontWeight}"`;
+		if (fontStyle) attrs += ` font-style="${fontStyle}"`;
+		return attrs;
+	}
+
+	private alphaAttr(): string {
+		return this.globalAlpha < 1 ? ` opacity="${fmt(this.globalAlpha)}"` : "";
+	}
+}
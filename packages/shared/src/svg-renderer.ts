@@ -0,0 +1,64 @@
+/**
+ * SVG Renderer
+ *
+ * Serializes a WireframeModel to a standalone SVG document by running the
+ * shared render core against an `SvgContext`. Output matches the canvas
+ * renderers (same fills, depth borders, dashed strokes, content placeholders
+ * and label badges) but as vector markup designers can restyle.
+ *
+ * Every node becomes a `<g class="wf-node wf-{semanticType}">` group nested
+ * like the model tree, so whole sections can be selected and recolored.
+ *
+ * @module shared/svg-renderer
+ */
+
+import { type BreakpointCapture, drawComposite, layoutComposite } from "./breakpoints.js";
+import { drawDiff, type ModelDiff } from "./diff.js";
+import { drawWireframe, getWireframeSize } from "./render-core.js";
+import { SvgContext, type TextMeasurer } from "./svg-context.js";
+import type { RendererConfig, WireframeModel } from "./types.js";
+
+/**
+ * Render the wireframe model to an SVG document string.
+ * Pass `measureText` for exact badge widths (defaults to an estimate).
+ */
+export function renderWireframeSvg(
+	model: WireframeModel,
+	config: RendererConfig,
+	measureText?: TextMeasurer,
+): string {
+	const ctx = new SvgContext(measureText);
+	drawWireframe(ctx, model, config);
+	const { width, height } = getWireframeSize(model, config);
+	return ctx.toSvg(width, height, model.pageUrl);
+}
+
+/**
+ * Render multi-breakpoint captures side by side as one SVG document.
+ * Each capture is wrapped in `<g class="wf-breakpoint" data-width>`.
+ */
+export function renderCompositeSvg(
+	captures: BreakpointCapture[],
+	config: RendererConfig,
+	measureText?: TextMeasurer,
+): string {
+	const ctx = new SvgContext(measureText);
+	drawComposite(ctx, captures, config);
+	const { width, height } = layoutComposite(captures);
+	return ctx.toSvg(width, height, captures[0]?.model.pageUrl);
+}
+
+/**
+ * Render a structural diff as an SVG document. Change outlines are
+ * grouped as `<g class="wf-diff wf-diff-{status}" data-changes>`.
+ */
+export function renderDiffSvg(
+	after: WireframeModel,
+	diff: ModelDiff,
+	config: RendererConfig,
+	measureText?: TextMeasurer,
+): string {
+	const ctx = new SvgContext(measureText);
+	drawDiff(ctx, after, diff, config);
+	return ctx.toSvg(diff.width, diff.height, after.pageUrl);
+}
@@ -0,0 +1,265 @@
+/**
+ * Wireframe Themes
+ *
+ * Every visual constant the render core uses, grouped into named themes:
+ * - pastel: The default look (semantic pastel fills, dark borders)
+ * - lowfi: Grayscale fills, square corners
+ * - sketchy: Pastel fills on paper, jittered strokes, handwriting font
+ * - dark: Dark fills and light strokes
+ * - print: White fills, black strokes, for high-contrast printing
+ *
+ * Custom themes are partial objects layered over a named base theme.
+ *
+ * @module shared/theme
+ */
+
+import { hexToRgb, rgbToHex, SEMANTIC_COLORS, shadeRgb } from "./palette.js";
+import type { SemanticType } from "./types.js";
+
+/** Font stack for labels (system UI in browsers, Arial/Helvetica in Skia) */
+export const LABEL_FONT_FAMILY =
+	'-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Arial, Helvetica, sans-serif';
+
+/** Handwriting-style font stack (falls back to the system cursive font) */
+export const SKETCH_FONT_FAMILY =
+	'"Comic Neue", "Comic Sans MS", "Segoe Print", "Bradley Hand", "Chalkboard SE", cursive';
+
+/**
+ * Complete set of visual settings for one wireframe look.
+ */
+export interface WireframeTheme {
+	name: string;
+	/** Page background */
+	backgroundColor: string;
+	/** Area around pages in multi-page images (breakpoint composites) */
+	frameColor: string;
+	/** Block fill per semantic type, as "#rrggbb" */
+	semanticColors: Record<SemanticType, string>;
+	/** Fill darkening per nesting level, up to 4 levels (negative lightens) */
+	depthShade: number;
+	borderColor: string;
+	/** Border width at depth 0, depth 1-2, and depth 3+ */
+	borderWidths: [number, number, number];
+	cornerRadius: number;
+	/** Dash pattern for non-landmark blocks below the top level */
+	dashPattern: number[];
+	/**
+	 * Max stroke wobble in pixels (0 = straight lines). Above 0 the theme
+	 * draws with sketch mode's strokes, without hatching.
+	 */
+	roughness: number;
+	fontFamily: string;
+	/** Legend and caption text */
+	labelColor: string;
+	badge: {
+		background: string;
+		text: string;
+		radius: number;
+	};
+	placeholder: {
+		/** Image frame/cross and icon circle */
+		stroke: string;
+		buttonFill: string;
+		buttonStroke: string;
+		buttonText: string;
+		/** Text placeholder lines */
+		textLine: string;
+	};
+}
+
+/**
+ * Theme overrides on top of a named base theme (default: pastel).
+ */
+export type CustomTheme = Partial<
+	Omit<WireframeTheme, "semanticColors" | "badge" | "placeholder">
+> & {
+	base?: ThemeName;
+	semanticColors?: Partial<Record<SemanticType, string>>;
+	badge?: Partial<WireframeTheme["badge"]>;
+	placeholder?: Partial<WireframeTheme["placeholder"]>;
+};
+
+const PASTEL_THEME: WireframeTheme = {
+	name: "pastel",
+	backgroundColor: "#ffffff",
+	frameColor: "#f0f0f0",
+	semanticColors: SEMANTIC_COLORS,
+	depthShade: 5,
+	borderColor: "#333333",
+	borderWidths: [3, 2, 1],
+	cornerRadius: 4,
+	dashPattern: [4, 4],
+	roughness: 0,
+	fontFamily: LABEL_FONT_FAMILY,
+	labelColor: "#333333",
+	badge: { background: "#333333", text: "#ffffff", radius: 3 },
+	placeholder: {
+		stroke: "#999999",
+		buttonFill: "#e0e0e0",
+		buttonStroke: "#666666",
+		buttonText: "#333333",
+		textLine: "#cccccc",
+	},
+};
+
+/** Built-in themes, by name */
+export const THEMES = {
+	pastel: PASTEL_THEME,
+	lowfi: {
+		...PASTEL_THEME,
+		name: "lowfi",
+		semanticColors: {
+			header: "#e0e0e0",
+			navigation: "#ebebeb",
+			hero: "#d6d6d6",
+			content: "#f5f5f5",
+			card: "#fafafa",
+			cta: "#cfcfcf",
+			footer: "#e4e4e4",
+			sidebar: "#efefef",
+			form: "#f2f2f2",
+			testimonial: "#e8e8e8",
+			pricing: "#dbdbdb",
+			gallery: "#e6e6e6",
+			search: "#eeeeee",
+			modal: "#f0f0f0",
+		},
+		depthShade: 6,
+		borderColor: "#555555",
+		cornerRadius: 0,
+		dashPattern: [6, 4],
+		badge: { background: "#555555", text: "#ffffff", radius: 0 },
+		placeholder: { ...PASTEL_THEME.placeholder, textLine: "#b3b3b3" },
+	},
+	sketchy: {
+		...PASTEL_THEME,
+		name: "sketchy",
+		backgroundColor: "#fffdf7",
+		frameColor: "#f3efe4",
+		borderColor: "#2b2b2b",
+		cornerRadius: 0,
+		dashPattern: [8, 6],
+		roughness: 1.8,
+		fontFamily: SKETCH_FONT_FAMILY,
+		labelColor: "#2b2b2b",
+		badge: { background: "#2b2b2b", text: "#fffdf7", radius: 2 },
+		placeholder: {
+			...PASTEL_THEME.placeholder,
+			stroke: "#777777",
+			buttonFill: "#f3efe4",
+			buttonStroke: "#2b2b2b",
+			buttonText: "#2b2b2b",
+			textLine: "#b5b0a5",
+		},
+	},
+	dark: {
+		...PASTEL_THEME,
+		name: "dark",
+		backgroundColor: "#1e1f24",
+		frameColor: "#131418",
+		semanticColors: {
+			header: "#2f3350",
+			navigation: "#233a52",
+			hero: "#3e2a4a",
+			content: "#2b2c31",
+			card: "#403c26",
+			cta: "#24402c",
+			footer: "#2c3238",
+			sidebar: "#1f3d3a",
+			form: "#45331f",
+			testimonial: "#452a36",
+			pricing: "#47302a",
+			gallery: "#1f3f45",
+			search: "#342b4a",
+			modal: "#3a322e",
+		},
+		depthShade: -8,
+		borderColor: "#c8c9d0",
+		labelColor: "#e6e6ea",
+		badge: { background: "#e6e6ea", text: "#1e1f24", radius: 3 },
+		placeholder: {
+			stroke: "#8a8c96",
+			buttonFill: "#3a3c44",
+			buttonStroke: "#9a9ca6",
+			buttonText: "#e6e6ea",
+			textLine: "#55575f",
+		},
+	},
+	print: {
+		...PASTEL_THEME,
+		name: "print",
+		semanticColors: Object.fromEntries(
+			Object.keys(SEMANTIC_COLORS).map((type) => [type, "#ffffff"]),
+		) as Record<SemanticType, string>,
+		depthShade: 0,
+		frameColor: "#ffffff",
+		borderColor: "#000000",
+		borderWidths: [3, 2, 1.5],
+		dashPattern: [6, 3],
+		labelColor: "#000000",
+		badge: { background: "#000000", text: "#ffffff", radius: 0 },
+		placeholder: {
+			stroke: "#000000",
+			buttonFill: "#ffffff",
+			buttonStroke: "#000000",
+			buttonText: "#000000",
+			textLine: "#444444",
+		},
+	},
+} satisfies Record<string, WireframeTheme>;
+
+export type ThemeName = keyof typeof THEMES;
+
+/** Every built-in theme name */
+export const THEME_NAMES = Object.keys(THEMES) as ThemeName[];
+
+export function isThemeName(value: unknown): value is ThemeName {
+	return typeof value === "string" && Object.hasOwn(THEMES, value);
+}
+
+/**
+ * Resolve a theme name or custom theme to a complete theme.
+ * Throws on an unknown theme name.
+ */
+export function resolveTheme(theme: ThemeName | CustomTheme = "pastel"): WireframeTheme {
+	if (typeof theme === "string") {
+		if (!isThemeName(theme)) {
+			throw new Error(`Unknown theme "${theme}" (available: ${THEME_NAMES.join(", ")})`);
+		}
+		return THEMES[theme];
+	}
+
+	const { base = "pastel", ...overrides } = theme;
+	const baseTheme = resolveTheme(base);
+	return {
+		...baseTheme,
+		...overrides,
+		name: overrides.name ?? "custom",
+		semanticColors: { ...baseTheme.semanticColors, ...overrides.semanticColors },
+		badge: { ...baseTheme.badge, ...overrides.badge },
+		placeholder: { ...baseTheme.placeholder, ...overrides.placeholder },
+	};
+}
+
+/**
+ * Fill color for a block: the theme's semantic color shaded by depth.
+ * Unknown types fall back to the "content" color.
+ */
+export function getThemeFill(
+	theme: WireframeTheme,
+	semanticType: SemanticType,
+	depth: number,
+): string {
+	const baseColor = theme.semanticColors[semanticType] || theme.semanticColors.content;
+	return rgbToHex(shadeRgb(hexToRgb(baseColor), Math.min(depth, 4) * theme.depthShade));
+}
+
+/**
+ * Border width for a block at the given depth.
+ */
+export function getThemeBorderWidth(theme: WireframeTheme, depth: number): number {
+	const [top, middle, deep] = theme.borderWidths;
+	if (depth === 0) return top;
+	if (depth <= 2) return middle;
+	return deep;
+}
@@ -5,31 +5,65 @@
  * - BoundingBox: Position and size in absolute page coordinates
  * - WireframeNode: A significant DOM element in the wireframe tree
  * - WireframeModel: Complete page analysis result
+ * - Annotation: Presentation pins, arrows, sticky notes and free text
  * - AnalyzerConfig: Settings for DOM analysis
+ * - AnalyzerRules: User-defined label patterns, include/exclude selectors, presets
  * - RendererConfig: Settings for canvas rendering
+ * - PageRange: Vertical slice of a page to render
  *
  * @module shared/types
  */
 
+import type { SketchOptions } from "./sketch.js";
+import type { CustomTheme, ThemeName } from "./theme.js";
+
 /**
  * Semantic classification for visual differentiation in rendered wireframes.
  */
-export type SemanticType = "header" | "navigation" | "hero" | "content" | "card" | "cta" | "footer";
+export type SemanticType =
+	| "header"
+	| "navigation"
+	| "hero"
+	| "content"
+	| "card"
+	| "cta"
+	| "footer"
+	| "sidebar"
+	| "form"
+	| "testimonial"
+	| "pricing"
+	| "gallery"
+	| "search"
+	| "modal";
 
 /**
  * Content element type for placeholder rendering.
  */
-export type ContentType = "image" | "button" | "text" | "icon";
+export type ContentType =
+	| "image"
+	| "button"
+	| "text"
+	| "icon"
+	| "video"
+	| "map"
+	| "input"
+	| "select"
+	| "table"
+	| "logo"
+	| "avatar";
 
 /**
  * Detected content element within a wireframe node.
- * Used to render visual placeholders (crossed boxes for images, pills for buttons, etc.)
+ * Used to render visual placeholders (crossed boxes for images, pills for buttons,
+ * play triangles for videos, field boxes for inputs, etc.)
  */
 export interface ContentHint {
 	type: ContentType;
 	bbox: BoundingBox;
-	/** Optional label for buttons */
+	/** Optional label: button text, or placeholder text for inputs and selects */
 	label?: string;
+	/** Image painted by CSS (background-image, ::before/::after), drawn faintly behind other hints */
+	background?: boolean;
 }
 
 /**
@@ -43,6 +77,14 @@ export interface BoundingBox {
 	height: number;
 }
 
+/**
+ * How a node floats above the page:
+ * - fixed: `position: fixed` (pinned headers, chat widgets)
+ * - sticky: `position: sticky`
+ * - overlay: fixed layer covering most of the viewport, or an open dialog
+ */
+export type NodePosition = "fixed" | "sticky" | "overlay";
+
 /**
  * A node in the wireframe tree representing a significant DOM element.
  */
@@ -65,6 +107,44 @@ export interface WireframeNode {
 	semanticType: SemanticType;
 	/** Content placeholders to render inside this node */
 	contentHints?: ContentHint[];
+	/** CSS selector of the source DOM element (missing for hand-drawn nodes) */
+	selector?: string;
+	/** Set for floating elements; their bbox is where they sit with the page scrolled to the top */
+	position?: NodePosition;
+}
+
+/**
+ * Kind of annotation:
+ * - pin: Numbered marker; its text goes into the notes legend
+ * - arrow: Line with an arrowhead; numbered like a pin when it has text
+ * - note: Sticky note showing its text
+ * - text: Free text
+ */
+export type AnnotationType = "pin" | "arrow" | "note" | "text";
+
+/**
+ * Where an annotation sits. With `nodeId`, x/y are relative to the node's
+ * top-left corner, so the annotation follows the node; without it they're
+ * absolute page coordinates.
+ */
+export interface AnnotationPoint {
+	x: number;
+	y: number;
+	nodeId?: string;
+}
+
+/**
+ * A presentation annotation drawn on top of the wireframe.
+ */
+export interface Annotation {
+	id: string;
+	type: AnnotationType;
+	/** Pin, note and text position; arrow tail */
+	at: AnnotationPoint;
+	/** Arrow head (arrows only) */
+	to?: AnnotationPoint;
+	/** Note for pins and arrows (listed in the legend), content of notes and text */
+	text: string;
 }
 
 /**
@@ -84,6 +164,13 @@ export interface WireframeModel {
 	pageUrl: string;
 	/** ISO timestamp of capture */
 	capturedAt: string;
+	/** Presentation annotations, drawn above the nodes */
+	annotations?: Annotation[];
+	/**
+	 * Ids of nodes hidden in the overlay's tree panel. The nodes stay in the
+	 * model; the overlay leaves them out of images and design-tool exports.
+	 */
+	hiddenIds?: string[];
 }
 
 /**
@@ -96,6 +183,49 @@ export interface AnalyzerConfig {
 	maxDepth: number;
 	/** Minimum percentage of viewport area for significance (default: 0.02 = 2%) */
 	viewportAreaThreshold: number;
+	/** Extra labeling and filtering rules on top of the built-in heuristics */
+	rules?: AnalyzerRules;
+}
+
+/**
+ * Where a label rule's pattern is tested: the class attribute, the id,
+ * or any attribute by name (e.g. "attr:data-section").
+ */
+export type LabelRuleTarget = "class" | "id" | `attr:${string}`;
+
+/**
+ * Maps elements matching a pattern to a label (and optionally a semantic type).
+ * Elements matching a rule are always significant.
+ */
+export interface LabelRule {
+	/** Case-insensitive regular expression source */
+	pattern: string;
+	/** What the pattern is tested against (default: "class") */
+	target?: LabelRuleTarget;
+	label: string;
+	/** Semantic type for matching elements (default: inferred from the label) */
+	semanticType?: SemanticType;
+}
+
+/**
+ * User-defined analyzer rules. Plain strings only, so rules can be passed
+ * into a page (Playwright `evaluate`) and stored as JSON.
+ */
+export interface AnalyzerRules {
+	/** Named rule packs applied before these rules (see ANALYZER_PRESETS) */
+	presets?: string[];
+	/** Label rules, checked before the built-in class patterns */
+	labels?: LabelRule[];
+	/** Extra patterns for utility/layout classes that don't make a block meaningful */
+	genericClasses?: string[];
+	/** Extra tags to never turn into blocks */
+	skipTags?: string[];
+	/** Extra tags treated as landmarks (always significant) */
+	landmarkTags?: string[];
+	/** Selectors of elements that always become blocks, whatever their size or tag */
+	include?: string[];
+	/** Selectors of elements dropped with their whole subtree (cookie banners, admin bars) */
+	exclude?: string[];
 }
 
 /**
@@ -116,8 +246,41 @@ export interface RendererConfig {
 	labelFontSize: number;
 	/** Custom label overrides by node ID. Empty string hides the label. */
 	labelOverrides?: Map<string, string>;
-	/** Show content placeholders (images, buttons, text, icons). Default: true */
+	/** Show content placeholders (images, buttons, text, icons, media, fields, tables). Default: true */
 	showContentHints?: boolean;
+	/** Draw a color legend below the page (see getWireframeSize). Default: false */
+	showLegend?: boolean;
+	/**
+	 * Theme name or custom theme (see shared/theme). When set, it replaces
+	 * backgroundColor, blockBorderColor and labelColor.
+	 */
+	theme?: ThemeName | CustomTheme;
+	/**
+	 * Hand-drawn sketch mode: wobbly strokes, hatched fills, handwriting
+	 * font. `true` uses the default seed. Default: off
+	 */
+	sketch?: boolean | SketchOptions;
+	/** Draw only this vertical part of the page (see getWireframeSize). Default: full page */
+	range?: PageRange;
+	/** Draw a dashed fold line at the bottom of the first viewport. Default: false */
+	showFold?: boolean;
+	/** Draw fixed, sticky and overlay nodes on top with a floating style. Default: true */
+	showFloating?: boolean;
+	/** Draw the model's annotations. Default: true */
+	showAnnotations?: boolean;
+	/**
+	 * List the numbered pin/arrow notes below the page (after the color
+	 * legend, see getWireframeSize). Default: false
+	 */
+	showNotes?: boolean;
+}
+
+/**
+ * Vertical part of a page, in page pixels.
+ */
+export interface PageRange {
+	y: number;
+	height: number;
 }
 
 /**
@@ -8,19 +8,37 @@
  * Key concepts:
  * - "Significant" elements: Semantic landmarks, large containers, or
  *   elements with meaningful class names
+ * - "Structural tags": forms, tables and list-based grids become blocks only
+ *   when large enough (forms with field placeholders, tables with a
+ *   rows×columns summary, lists as card grids)
  * - "Wrapper collapse": Skip redundant parent containers when child
  *   occupies most of the space
  * - "Label inference": Extract labels from headings when class names
  *   are generic (e.g., Tailwind utility classes)
+ * - Traversal follows the rendered tree: open shadow roots (with slotted
+ *   content) and same-origin iframes, offset into page coordinates;
+ *   cross-origin iframes become "Embedded frame" placeholder nodes
+ * - Every node records the CSS selector of its source element
+ * - Fixed, sticky and overlay elements are tagged with a `position` and boxed
+ *   where they sit with the page scrolled to the top; cookie and consent
+ *   banners are dropped unless an include rule keeps them
+ * - User rules (`config.rules`, see AnalyzerRules) add label patterns,
+ *   generic classes, skip/landmark tags and include/exclude selectors on
+ *   top of the built-in tables below; presets come from the shared package
  *
  * @module analyzer
  */
 
+import { CONTENT_TYPES, resolveAnalyzerRules } from "@wireframe-mapper/shared";
+import { getElementSelector } from "./selector.js";
 import type {
 	AnalyzerConfig,
+	AnalyzerRules,
 	BoundingBox,
 	ContentHint,
 	ContentType,
+	LabelRuleTarget,
+	NodePosition,
 	SemanticType,
 	WireframeModel,
 	WireframeNode,
@@ -89,22 +107,17 @@ const SKIP_TAGS = new Set([
 	"video",
 	"audio",
 	"canvas",
-	"iframe",
 	// Form elements (too granular)
 	"input",
 	"textarea",
 	"select",
 	"button",
-	"form",
-	// Lists (usually not layout containers)
-	"ul",
-	"ol",
+	// List items (lists themselves are structural tags, see below)
 	"li",
 	"dl",
 	"dt",
 	"dd",
-	// Tables
-	"table",
+	// Table internals
 	"thead",
 	"tbody",
 	"tr",
@@ -112,6 +125,24 @@ const SKIP_TAGS = new Set([
 	"th",
 ]);
 
+/**
+ * Tags that only become blocks when they're large enough: forms, tables and
+ * list-based card grids. Small ones (inline search boxes, menus, bullet lists)
+ * are skipped like other granular tags.
+ */
+const STRUCTURAL_TAGS = new Set(["form", "table", "ul", "ol"]);
+
+/** Input types that don't render as a field box */
+const NON_FIELD_INPUT_TYPES = new Set([
+	"hidden",
+	"submit",
+	"button",
+	"reset",
+	"image",
+	"checkbox",
+	"radio",
+]);
+
 /** Class patterns that indicate meaningful structural blocks */
 const STRUCTURAL_CLASS_PATTERNS: Array<[RegExp, string]> = [
 	[/hero[-_\s]?section|hero[-_\s]?banner|hero$/i, "Hero"],
@@ -175,22 +206,141 @@ const DEFAULT_CONFIG: AnalyzerConfig = {
 /** Smaller minimum area for grid items (50x50) */
 const GRID_ITEM_MIN_AREA = 2500;
 
+/** Larger minimum area for forms, tables and list grids (200x100) */
+const STRUCTURAL_MIN_AREA = 20000;
+
 /** Minimum sizes for content hint detection */
-const CONTENT_MIN_SIZES = {
+const CONTENT_MIN_SIZES: Record<ContentType, { width: number; height: number }> = {
 	image: { width: 30, height: 30 },
 	button: { width: 50, height: 20 },
 	text: { width: 50, height: 10 },
 	icon: { width: 12, height: 12 },
+	video: { width: 60, height: 40 },
+	map: { width: 60, height: 60 },
+	input: { width: 40, height: 16 },
+	select: { width: 40, height: 16 },
+	table: { width: 100, height: 40 },
+	logo: { width: 16, height: 12 },
+	avatar: { width: 16, height: 16 },
 };
 
 /** Max content hints per node per type */
-const CONTENT_MAX_COUNTS = {
+const CONTENT_MAX_COUNTS: Record<ContentType, number> = {
 	image: 5,
 	button: 3,
 	text: 1,
 	icon: 6,
+	video: 2,
+	map: 1,
+	input: 8,
+	select: 4,
+	table: 2,
+	logo: 2,
+	avatar: 6,
 };
 
+/** Embedded players, matched against iframe URLs */
+const VIDEO_EMBED_PATTERN =
+	/youtube\.com|youtube-nocookie\.com|youtu\.be|vimeo\.com|wistia|loom\.com|dailymotion\.com/i;
+
+/** Embedded maps, matched against iframe URLs */
+const MAP_EMBED_PATTERN =
+	/google\.[a-z.]+\/maps|maps\.google\.|openstreetmap\.org|mapbox\.com|bing\.com\/maps/i;
+
+/** Map widget containers (Leaflet, Mapbox GL, MapLibre, Google Maps JS) */
+const MAP_WIDGET_SELECTOR = ".leaflet-container, .mapboxgl-map, .maplibregl-map, .gm-style";
+
+/** Ancestors that mark images as logos (site logo links, partner logo strips) */
+const LOGO_CONTAINER_SELECTOR = "[class*='logo' i], [id*='logo' i]";
+
+/** Avatar markers in class names, alt text or file names */
+const AVATAR_PATTERN = /avatar|profile[-_]?(pic|photo|image)|author[-_]?(image|photo)/i;
+
+/** Largest side of an avatar image */
+const AVATAR_MAX_SIZE = 160;
+
+/** Minimum share of its element a ::before/::after image must cover to count */
+const PSEUDO_IMAGE_MIN_COVERAGE = 0.25;
+
+/** Minimum area of a CSS background image (50x50); smaller ones are icon sprites */
+const BACKGROUND_MIN_AREA = 2500;
+
+/** Max descendants checked for CSS background images per node */
+const BACKGROUND_SCAN_LIMIT = 300;
+
+/** Share of the viewport a fixed element must cover to count as an overlay */
+const OVERLAY_MIN_COVERAGE = 0.5;
+
+/** Cookie and consent banner markers in ids, class names and aria-labels */
+const COOKIE_BANNER_PATTERN =
+	/cookie|consent|gdpr|ccpa|onetrust|cookiebot|usercentrics|didomi|truste|quantcast|\bcmp\b/i;
+
+/** Label rule with its pattern compiled */
+interface CompiledLabelRule {
+	pattern: RegExp;
+	target: LabelRuleTarget;
+	label: string;
+	semanticType?: SemanticType;
+}
+
+/** Built-in tables merged with the user's rules */
+interface CompiledRules {
+	labels: CompiledLabelRule[];
+	genericClasses: RegExp[];
+	skipTags: Set<string>;
+	landmarkTags: Set<string>;
+	/** Include/exclude selectors joined into one list (null when empty) */
+	include: string | null;
+	exclude: string | null;
+}
+
+/**
+ * Join selectors into one selector list, rejecting invalid ones up front
+ * rather than failing on the first `matches` call.
+ */
+function compileSelectors(selectors: string[], field: string): string | null {
+	for (const selector of selectors) {
+		try {
+			document.createDocumentFragment().querySelector(selector);
+		} catch {
+			throw new Error(`Invalid analyzer rule selector in ${field}: ${selector}`);
+		}
+	}
+	return selectors.length > 0 ? selectors.join(", ") : null;
+}
+
+function compileRules(userRules: AnalyzerRules = {}): CompiledRules {
+	const resolved = resolveAnalyzerRules(userRules);
+	const landmarkTags = new Set([...LANDMARK_TAGS, ...resolved.landmarkTags]);
+	// A tag made a landmark is no longer skipped
+	const skipTags = new Set(
+		[...SKIP_TAGS, ...resolved.skipTags].filter((tag) => !landmarkTags.has(tag)),
+	);
+
+	return {
+		labels: resolved.labels.map((rule) => ({
+			pattern: new RegExp(rule.pattern, "i"),
+			target: rule.target ?? "class",
+			label: rule.label,
+			semanticType: rule.semanticType,
+		})),
+		genericClasses: [
+			...GENERIC_CONTAINER_PATTERNS,
+			...resolved.genericClasses.map((pattern) => new RegExp(pattern, "i")),
+		],
+		skipTags,
+		landmarkTags,
+		include: compileSelectors(resolved.include, "include"),
+		exclude: compileSelectors(resolved.exclude, "exclude"),
+	};
+}
+
+/** Rules for the current analyzeDom run */
+let rules: CompiledRules = compileRules();
+
+/** Fixed-layer membership per element for the current analyzeDom run */
+let fixedLayerCache = new WeakMap<Element, boolean>();
+
 let nodeIdCounter = 0;
 
 function generateNodeId(): string {
@@ -211,18 +361,117 @@ function isElementVisible(el: HTMLElement): boolean {
 }
 
 function getAbsoluteBoundingBox(el: HTMLElement): BoundingBox {
-	const rect = el.getBoundingClientRect();
-	return {
-		x: rect.left + window.scrollX,
-		y: rect.top + window.scrollY,
-		width: rect.width,
-		height: rect.height,
-	};
+	return getElementBoundingBox(el);
+}
+
+/** Element classes checked with isElementType */
+type ElementTypeName =
+	| "HTMLElement"
+	| "SVGElement"
+	| "HTMLIFrameElement"
+	| "HTMLSlotElement"
+	| "HTMLUListElement"
+	| "HTMLOListElement"
+	| "HTMLTableElement"
+	| "HTMLFormElement"
+	| "HTMLInputElement"
+	| "HTMLTextAreaElement"
+	| "HTMLSelectElement"
+	| "HTMLVideoElement";
+
+/**
+ * Realm-safe instanceof. Elements inside iframes belong to the frame's
+ * window, so they're checked against that window's classes.
+ */
+function isElementType<K extends ElementTypeName>(
+	node: unknown,
+	type: K,
+): node is InstanceType<(typeof globalThis)[K]> {
+	if (typeof node !== "object" || node === null) return false;
+	const view = (node as Node).ownerDocument?.defaultView;
+	return view != null && node instanceof view[type];
+}
+
+/**
+ * Document of a same-origin iframe, or null (not a frame, or cross-origin).
+ */
+function getFrameDocument(el: Element): Document | null {
+	if (!isElementType(el, "HTMLIFrameElement")) return null;
+	try {
+		return el.contentDocument;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Offset of an element's document in the analyzed page: the content-box
+ * position of every enclosing same-origin iframe, added up.
+ */
+export function getFrameOffset(el: Element): { x: number; y: number } {
+	let x = 0;
+	let y = 0;
+	let view = el.ownerDocument.defaultView;
+	while (view && view !== window && view.frameElement) {
+		const frame = view.frameElement;
+		const rect = frame.getBoundingClientRect();
+		const style = window.getComputedStyle(frame);
+		x += rect.left + frame.clientLeft + parseFloat(style.paddingLeft);
+		y += rect.top + frame.clientTop + parseFloat(style.paddingTop);
+		view = frame.ownerDocument.defaultView;
+	}
+	return { x, y };
+}
+
+/**
+ * Child elements in rendered order: an open shadow root's children (slots
+ * replaced by their assigned elements), a same-origin iframe's body
+ * children, or the light DOM children.
+ */
+function getChildElements(el: HTMLElement): HTMLElement[] {
+	const frameDocument = getFrameDocument(el);
+	if (frameDocument) return frameDocument.body ? getChildElements(frameDocument.body) : [];
+
+	const children: HTMLElement[] = [];
+	for (const child of Array.from((el.shadowRoot ?? el).children)) {
+		if (isElementType(child, "HTMLSlotElement")) {
+			// Slotted content, or the slot's fallback content when nothing is assigned
+			const assigned = child.assignedElements({ flatten: true });
+			const slotted = assigned.length > 0 ? assigned : Array.from(child.children);
+			for (const node of slotted) {
+				if (isElementType(node, "HTMLElement")) children.push(node);
+			}
+		} else if (isElementType(child, "HTMLElement")) {
+			children.push(child);
+		}
+	}
+	return children;
+}
+
+/**
+ * querySelectorAll that also searches open shadow roots and same-origin
+ * iframes inside the element.
+ */
+function queryDeep(root: HTMLElement, selector: string): Element[] {
+	const scopes: Array<Element | ShadowRoot> = [root];
+	const found: Element[] = [];
+	for (let i = 0; i < scopes.length; i++) {
+		const scope = scopes[i];
+		const elements = Array.from(scope.querySelectorAll("*"));
+		if (scope === root) elements.unshift(root);
+		for (const el of elements) {
+			if (el.shadowRoot) scopes.push(el.shadowRoot);
+			const body = getFrameDocument(el)?.body;
+			if (body) scopes.push(body);
+		}
+		found.push(...Array.from(scope.querySelectorAll(selector)));
+	}
+	return found;
 }
 
 function isLandmark(el: HTMLElement): boolean {
 	const tagName = el.tagName.toLowerCase();
-	if (LANDMARK_TAGS.has(tagName)) return true;
+	if (rules.landmarkTags.has(tagName)) return true;
 
 	const role = el.getAttribute("role");
 	if (role && LANDMARK_ROLES.has(role)) return true;
@@ -231,10 +480,37 @@ function isLandmark(el: HTMLElement): boolean {
 }
 
 /**
- * Get a meaningful label from class names.
+ * Find the first user label rule matching an element.
+ */
+function matchLabelRule(el: Element): CompiledLabelRule | null {
+	for (const rule of rules.labels) {
+		const value =
+			rule.target === "class"
+				? el.getAttribute("class")
+				: rule.target === "id"
+					? el.id
+					: el.getAttribute(rule.target.slice("attr:".length));
+		if (value && rule.pattern.test(value)) return rule;
+	}
+	return null;
+}
+
+function isExcluded(el: Element): boolean {
+	return rules.exclude !== null && el.matches(rules.exclude);
+}
+
+function isForcedInclude(el: Element): boolean {
+	return rules.include !== null && el.matches(rules.include);
+}
+
+/**
+ * Get a meaningful label from user rules, then class names.
  * Returns null if no meaningful pattern found.
  */
 function getClassLabel(el: HTMLElement): string | null {
+	const rule = matchLabelRule(el);
+	if (rule) return rule.label;
+
 	const className = el.className;
 	if (typeof className !== "string" || !className) return null;
 
@@ -257,7 +533,7 @@ function hasOnlyGenericClasses(el: HTMLElement): boolean {
 	if (classes.length === 0) return true;
 
 	// If ALL classes match generic patterns, it's generic
-	return classes.every((cls) => GENERIC_CONTAINER_PATTERNS.some((pattern) => pattern.test(cls)));
+	return classes.every((cls) => rules.genericClasses.some((pattern) => pattern.test(cls)));
 }
 
 /**
@@ -278,17 +554,25 @@ function isGridOrFlexContainer(el: HTMLElement): boolean {
 	return false;
 }
 
+/**
+ * Check if element is a <ul> or <ol>.
+ */
+function isListElement(el: HTMLElement): boolean {
+	return isElementType(el, "HTMLUListElement") || isElementType(el, "HTMLOListElement");
+}
+
 /**
  * Get visible child elements that could be grid items.
  */
 function getVisibleChildren(el: HTMLElement): HTMLElement[] {
+	// List items are skipped elsewhere, but they're the items of a list grid
+	const isList = isListElement(el);
 	const children: HTMLElement[] = [];
-	for (const child of Array.from(el.children)) {
-		if (child instanceof HTMLElement) {
-			const tagName = child.tagName.toLowerCase();
-			if (!SKIP_TAGS.has(tagName) && isElementVisible(child)) {
-				children.push(child);
-			}
+	for (const child of getChildElements(el)) {
+		const tagName = child.tagName.toLowerCase();
+		const skipped = rules.skipTags.has(tagName) && !(isList && tagName === "li");
+		if (!skipped && !isExcluded(child) && isElementVisible(child)) {
+			children.push(child);
 		}
 	}
 	return children;
@@ -347,6 +631,49 @@ function detectGridItems(el: HTMLElement): HTMLElement[] | null {
 	return validChildren.length >= 2 ? validChildren : null;
 }
 
+/**
+ * Check if a form, table or list is large enough to be a block.
+ * Lists only count as card grids, and never inside navigation menus.
+ */
+function isStructuralBlock(el: HTMLElement, area: number): boolean {
+	if (area < STRUCTURAL_MIN_AREA) return false;
+	if (!isListElement(el)) return true;
+	return el.closest("nav, [role='navigation']") === null && detectGridItems(el) !== null;
+}
+
+/**
+ * Check if an iframe is a known video player or map embed.
+ */
+function isMediaEmbed(frame: HTMLIFrameElement): boolean {
+	return VIDEO_EMBED_PATTERN.test(frame.src) || MAP_EMBED_PATTERN.test(frame.src);
+}
+
+/**
+ * Label for a cross-origin iframe, whose contents can't be analyzed.
+ */
+function getEmbeddedFrameLabel(frame: HTMLIFrameElement): string {
+	try {
+		const host = new URL(frame.src).hostname;
+		if (host) return `Embedded frame (${host})`;
+	} catch {
+		// Missing or invalid src
+	}
+	return "Embedded frame";
+}
+
+/**
+ * Summarize a table's size as "rows×columns" (columns count colspans).
+ */
+function getTableSize(table: HTMLTableElement): string {
+	let columns = 0;
+	for (const row of Array.from(table.rows)) {
+		let cells = 0;
+		for (const cell of Array.from(row.cells)) cells += cell.colSpan;
+		columns = Math.max(columns, cells);
+	}
+	return `${table.rows.length}×${columns}`;
+}
+
 /**
  * Generate a label for a grid item.
  * Tries class names, then heading content, falls back to "Card".
@@ -368,8 +695,11 @@ function inferGridItemLabel(el: HTMLElement): string {
 function isSignificant(el: HTMLElement, viewportArea: number, config: AnalyzerConfig): boolean {
 	const tagName = el.tagName.toLowerCase();
 
+	// Elements the user forced in bypass every other check
+	if (isForcedInclude(el)) return true;
+
 	// Always skip certain tags
-	if (SKIP_TAGS.has(tagName)) return false;
+	if (rules.skipTags.has(tagName)) return false;
 
 	const bbox = getAbsoluteBoundingBox(el);
 	const area = bbox.width * bbox.height;
@@ -377,6 +707,12 @@ function isSignificant(el: HTMLElement, viewportArea: number, config: AnalyzerCo
 	// Must meet minimum size
 	if (area < config.minArea) return false;
 
+	// Forms, tables and list grids need more room than other blocks
+	if (STRUCTURAL_TAGS.has(tagName)) return isStructuralBlock(el, area);
+
+	// Frames are blocks; video and map embeds stay content hints
+	if (isElementType(el, "HTMLIFrameElement")) return !isMediaEmbed(el);
+
 	// Semantic landmarks are always significant
 	if (isLandmark(el)) return true;
 
@@ -402,10 +738,14 @@ function isSignificant(el: HTMLElement, viewportArea: number, config: AnalyzerCo
 /**
  * Try to infer a label from the first heading inside an element.
  * This helps when sections use utility classes instead of semantic class names.
+ * Tables use their caption instead.
  */
 function inferLabelFromContent(el: HTMLElement): string | null {
 	// Look for the first heading (h1-h3) inside this element
-	const heading = el.querySelector("h1, h2, h3");
+	const heading = queryDeep(
+		el,
+		isElementType(el, "HTMLTableElement") ? "caption" : "h1, h2, h3",
+	)[0];
 	if (heading?.textContent) {
 		const text = heading.textContent.trim();
 		// Return first 20 chars max, clean it up
@@ -423,6 +763,11 @@ function inferLabelFromContent(el: HTMLElement): string | null {
 function generateLabel(el: HTMLElement): string {
 	const tagName = el.tagName.toLowerCase();
 
+	// Cross-origin frames are placeholders, whatever their classes say
+	if (isElementType(el, "HTMLIFrameElement") && !getFrameDocument(el)) {
+		return getEmbeddedFrameLabel(el);
+	}
+
 	// 1. Check class patterns first (most specific)
 	const classLabel = getClassLabel(el);
 	if (classLabel) return classLabel;
@@ -458,8 +803,8 @@ function generateLabel(el: HTMLElement): string {
 		if (roleLabels[role]) return roleLabels[role];
 	}
 
-	// 4. For sections/articles, try to infer from content (first heading)
-	if (tagName === "section" || tagName === "article" || tagName === "div") {
+	// 4. For sections/articles/forms, try to infer from content (first heading or caption)
+	if (["section", "article", "div", "form", "table"].includes(tagName)) {
 		const contentLabel = inferLabelFromContent(el);
 		if (contentLabel) return contentLabel;
 	}
@@ -473,6 +818,11 @@ function generateLabel(el: HTMLElement): string {
 		article: "Article",
 		aside: "Sidebar",
 		footer: "Footer",
+		form: "Form",
+		table: "Table",
+		ul: "Card Grid",
+		ol: "Card Grid",
+		iframe: "Frame",
 	};
 	if (tagLabels[tagName]) return tagLabels[tagName];
 
@@ -489,21 +839,125 @@ function getSemanticType(el: HTMLElement, label: string): SemanticType {
 	const tagName = el.tagName.toLowerCase();
 	const role = el.getAttribute("role");
 
+	// Explicit type from a user rule
+	const rule = matchLabelRule(el);
+	if (rule?.semanticType) return rule.semanticType;
+
 	// Tag-based classification
 	if (tagName === "header" || role === "banner") return "header";
 	if (tagName === "nav" || role === "navigation") return "navigation";
 	if (tagName === "footer" || role === "contentinfo") return "footer";
+	if (tagName === "dialog" || role === "dialog" || role === "alertdialog") return "modal";
+	if (tagName === "search" || role === "search") return "search";
+	if (tagName === "aside" || role === "complementary") return "sidebar";
+	if (tagName === "form" || role === "form") return "form";
 
 	// Label-based classification
 	const lowerLabel = label.toLowerCase();
 	if (/hero|banner/.test(lowerLabel)) return "hero";
-	if (/card|feature|service|testimonial|team|benefit/.test(lowerLabel)) return "card";
+	if (/testimonial|review|quote/.test(lowerLabel)) return "testimonial";
+	if (/pricing|plans/.test(lowerLabel)) return "pricing";
+	if (/gallery|portfolio|carousel|slider|media/.test(lowerLabel)) return "gallery";
+	if (/sidebar/.test(lowerLabel)) return "sidebar";
+	if (/search/.test(lowerLabel)) return "search";
+	if (/modal|dialog|popup/.test(lowerLabel)) return "modal";
+	if (/\bform\b|login|sign.?in|register/.test(lowerLabel)) return "form";
+	if (/card|feature|service|team|benefit/.test(lowerLabel)) return "card";
 	if (/cta|call.?to.?action|contact|newsletter/.test(lowerLabel)) return "cta";
 	if (/nav|menu/.test(lowerLabel)) return "navigation";
 
 	return "content";
 }
 
+/**
+ * Check if an element is a text field drawn as a box (text-like inputs, textareas).
+ * Comboboxes are selects.
+ */
+function isTextField(el: Element): boolean {
+	if (el.getAttribute("role") === "combobox") return false;
+	if (isElementType(el, "HTMLInputElement")) return !NON_FIELD_INPUT_TYPES.has(el.type);
+	return isElementType(el, "HTMLTextAreaElement");
+}
+
+/**
+ * Check if a computed `background-image` or `content` value paints an image.
+ * Gradients alone don't count.
+ */
+function hasCssImage(value: string): boolean {
+	return /url\(/i.test(value);
+}
+
+/**
+ * Find the image an element paints with CSS: its own `background-image`
+ * (covering the element), or a large `::before`/`::after` with a url()
+ * background or content. Returns null for gradients and small decorations.
+ */
+function getCssImageBounds(el: HTMLElement): BoundingBox | null {
+	const bbox = getAbsoluteBoundingBox(el);
+	if (hasCssImage(window.getComputedStyle(el).backgroundImage)) return bbox;
+
+	for (const pseudo of ["::before", "::after"]) {
+		const style = window.getComputedStyle(el, pseudo);
+		if (style.content === "none" || style.content === "normal") continue;
+		if (!hasCssImage(style.backgroundImage) && !hasCssImage(style.content)) continue;
+
+		// Pseudo-elements have no DOM rect: size them from their used width/height,
+		// positioned by their offsets when absolutely placed
+		const width = Math.min(parseFloat(style.width), bbox.width);
+		const height = Math.min(parseFloat(style.height), bbox.height);
+		if (!(width > 0 && height > 0)) continue;
+		if (width * height < bbox.width * bbox.height * PSEUDO_IMAGE_MIN_COVERAGE) continue;
+
+		const positioned = style.position === "absolute" || style.position === "fixed";
+		const left = positioned ? parseFloat(style.left) || 0 : 0;
+		const top = positioned ? parseFloat(style.top) || 0 : 0;
+		return {
+			x: bbox.x + Math.max(0, Math.min(left, bbox.width - width)),
+			y: bbox.y + Math.max(0, Math.min(top, bbox.height - height)),
+			width,
+			height,
+		};
+	}
+
+	return null;
+}
+
+/**
+ * Check if an image is a logo: "logo" in its class, id, alt text or file
+ * name, or inside an element with "logo" in its class or id.
+ */
+function isLogoElement(el: Element): boolean {
+	const markers = [el.getAttribute("class"), el.id, el.getAttribute("alt"), el.getAttribute("src")];
+	if (markers.some((marker) => marker && /logo/i.test(marker))) return true;
+	return el.parentElement?.closest(LOGO_CONTAINER_SELECTOR) != null;
+}
+
+/**
+ * Check if an element is clipped to a circle (border-radius of half its size).
+ */
+function isCircular(el: Element, size: number): boolean {
+	const radius = window.getComputedStyle(el).borderTopLeftRadius;
+	const value = parseFloat(radius);
+	if (Number.isNaN(value)) return false;
+	return radius.endsWith("%") ? value >= 40 : value >= size * 0.4;
+}
+
+/**
+ * Check if an image is an avatar: small and square, and either circular
+ * (itself or its wrapper) or marked as an avatar by class, alt text or file name.
+ */
+function isAvatarElement(el: Element): boolean {
+	const rect = el.getBoundingClientRect();
+	const ratio = rect.width / rect.height;
+	if (rect.width > AVATAR_MAX_SIZE || ratio < 0.8 || ratio > 1.25) return false;
+
+	const markers = [el.getAttribute("class"), el.getAttribute("alt"), el.getAttribute("src")];
+	if (markers.some((marker) => marker && AVATAR_PATTERN.test(marker))) return true;
+
+	const size = Math.min(rect.width, rect.height);
+	return isCircular(el, size) || (el.parentElement !== null && isCircular(el.parentElement, size));
+}
+
 /**
  * Check if an element is a button or button-like link.
  */
@@ -544,14 +998,85 @@ function isIconElement(el: Element): boolean {
 	return false;
 }
 
+/**
+ * Parent in the rendered tree: parent element, shadow host or iframe element.
+ */
+function getRenderParent(el: Element): Element | null {
+	if (el.parentElement) return el.parentElement;
+	const root = el.getRootNode();
+	if ("host" in root) return (root as ShadowRoot).host;
+	return el.ownerDocument.defaultView?.frameElement ?? null;
+}
+
+/**
+ * Whether the element is, or sits inside, a position: fixed element of the
+ * top document. Fixed elements inside iframes scroll with their frame.
+ */
+function isInFixedLayer(el: Element): boolean {
+	const cached = fixedLayerCache.get(el);
+	if (cached !== undefined) return cached;
+
+	const parent = getRenderParent(el);
+	const fixed =
+		(el.ownerDocument === document && window.getComputedStyle(el).position === "fixed") ||
+		(parent !== null && isInFixedLayer(parent));
+	fixedLayerCache.set(el, fixed);
+	return fixed;
+}
+
+/**
+ * Classify floating elements: fixed, sticky, or overlay (dialogs and
+ * fixed elements covering most of the viewport).
+ */
+function getNodePosition(el: HTMLElement): NodePosition | undefined {
+	const role = el.getAttribute("role");
+	const isDialog =
+		(el.tagName === "DIALOG" && el.hasAttribute("open")) ||
+		role === "dialog" ||
+		role === "alertdialog" ||
+		el.getAttribute("aria-modal") === "true";
+	const position = window.getComputedStyle(el).position;
+
+	if (position === "fixed") {
+		const rect = el.getBoundingClientRect();
+		const coverage = (rect.width * rect.height) / (window.innerWidth * window.innerHeight);
+		return isDialog || coverage >= OVERLAY_MIN_COVERAGE ? "overlay" : "fixed";
+	}
+	if (isDialog) return "overlay";
+	if (position === "sticky") return "sticky";
+	return undefined;
+}
+
+/**
+ * Cookie and consent banners: floating elements with a consent marker in
+ * their id, class or aria-label. In-flow content (a cookie policy page) stays.
+ */
+function isCookieBanner(el: HTMLElement, position: NodePosition | undefined): boolean {
+	if (!position) return false;
+	const markers = [el.id, el.getAttribute("class"), el.getAttribute("aria-label")];
+	return markers.some((marker) => marker !== null && COOKIE_BANNER_PATTERN.test(marker));
+}
+
+/**
+ * Pass a floating wrapper's position on to the node that replaces it.
+ */
+function withPosition(node: WireframeNode, position: NodePosition | undefined): WireframeNode {
+	if (position && !node.position) node.position = position;
+	return node;
+}
+
 /**
  * Get bounding box for any Element (works with both HTML and SVG elements).
  */
 function getElementBoundingBox(el: Element): BoundingBox {
 	const rect = el.getBoundingClientRect();
+	const offset = getFrameOffset(el);
+	// Fixed layers don't scroll: keep them where they sit at the top of the page
+	const scrollX = isInFixedLayer(el) ? 0 : window.scrollX;
+	const scrollY = isInFixedLayer(el) ? 0 : window.scrollY;
 	return {
-		x: rect.left + window.scrollX,
-		y: rect.top + window.scrollY,
+		x: rect.left + offset.x + scrollX,
+		y: rect.top + offset.y + scrollY,
 		width: rect.width,
 		height: rect.height,
 	};
@@ -573,50 +1098,75 @@ function detectContentHints(el: HTMLElement): ContentHint[] {
 
 function detectContentHintsUnsafe(el: HTMLElement): ContentHint[] {
 	const hints: ContentHint[] = [];
-	const counts: Record<ContentType, number> = { image: 0, button: 0, text: 0, icon: 0 };
+	const counts = Object.fromEntries(CONTENT_TYPES.map((type) => [type, 0])) as Record<
+		ContentType,
+		number
+	>;
+
+	// Descendants matching the selector, minus anything inside an excluded element
+	const query = (selector: string): Element[] =>
+		queryDeep(el, selector).filter(
+			(found) => rules.exclude === null || found.closest(rules.exclude) === null,
+		);
 
 	// Helper to add hint if within limits
-	const addHint = (type: ContentType, bbox: BoundingBox, label?: string) => {
+	const addHint = (type: ContentType, bbox: BoundingBox, label?: string, background = false) => {
 		const minSize = CONTENT_MIN_SIZES[type];
 		const maxCount = CONTENT_MAX_COUNTS[type];
 
 		if (bbox.width < minSize.width || bbox.height < minSize.height) return;
 		if (counts[type] >= maxCount) return;
 
-		hints.push({ type, bbox, label });
+		hints.push(background ? { type, bbox, label, background } : { type, bbox, label });
 		counts[type]++;
 	};
 
-	// Detect images: <img>, <picture>, <figure>, large <svg>
-	const images = el.querySelectorAll("img, picture, figure");
+	// Detect CSS background images (the element itself first, then descendants).
+	// They come first so they sit behind the other hints in design tool exports.
+	const backgroundCandidates = [el, ...query("*").slice(0, BACKGROUND_SCAN_LIMIT)];
+	for (const candidate of backgroundCandidates) {
+		if (!isElementType(candidate, "HTMLElement")) continue;
+
+		const rect = candidate.getBoundingClientRect();
+		if (rect.width * rect.height < BACKGROUND_MIN_AREA) continue;
+		if (!isElementVisible(candidate)) continue;
+
+		const bbox = getCssImageBounds(candidate);
+		if (bbox) addHint("image", bbox, undefined, true);
+	}
+
+	// Detect images: <img>, <picture>, <figure>, large <svg>; logos and avatars get their own glyph
+	const images = query("img, picture, figure");
 	for (const img of images) {
-		if (!(img instanceof HTMLElement)) continue;
+		if (!isElementType(img, "HTMLElement")) continue;
 		if (!isElementVisible(img)) continue;
 
 		const bbox = getAbsoluteBoundingBox(img);
-		addHint("image", bbox);
+		if (isLogoElement(img)) addHint("logo", bbox);
+		else if (isAvatarElement(img)) addHint("avatar", bbox);
+		else addHint("image", bbox);
 	}
 
 	// Large SVGs are images (small ones are icons, handled below)
-	const svgs = el.querySelectorAll("svg");
+	const svgs = query("svg");
 	for (const svg of svgs) {
-		if (!(svg instanceof SVGElement)) continue;
+		if (!isElementType(svg, "SVGElement")) continue;
 
 		const rect = svg.getBoundingClientRect();
 		if (rect.width === 0 || rect.height === 0) continue;
 
 		const area = rect.width * rect.height;
 		if (area > 400) {
-			// Large SVG = image
+			// Large SVG = image (or logo)
 			const bbox = getElementBoundingBox(svg);
-			addHint("image", bbox);
+			addHint(isLogoElement(svg) ? "logo" : "image", bbox);
 		}
 	}
 
 	// Detect buttons
-	const buttons = el.querySelectorAll("button, a, input[type='submit'], input[type='button']");
+	const buttons = query("button, a, input[type='submit'], input[type='button']");
 	for (const btn of buttons) {
-		if (!(btn instanceof HTMLElement)) continue;
+		if (!isElementType(btn, "HTMLElement")) continue;
 		if (!isButtonElement(btn)) continue;
 		if (!isElementVisible(btn)) continue;
 
@@ -627,16 +1177,16 @@ function detectContentHintsUnsafe(el: HTMLElement): ContentHint[] {
 
 	// Detect icons (small SVGs, icon fonts)
 	for (const svg of svgs) {
-		if (!(svg instanceof SVGElement)) continue;
+		if (!isElementType(svg, "SVGElement")) continue;
 		if (isIconElement(svg)) {
 			const bbox = getElementBoundingBox(svg);
 			addHint("icon", bbox);
 		}
 	}
 
-	const iconFonts = el.querySelectorAll("i, span");
+	const iconFonts = query("i, span");
 	for (const icon of iconFonts) {
-		if (!(icon instanceof HTMLElement)) continue;
+		if (!isElementType(icon, "HTMLElement")) continue;
 		if (!isIconElement(icon)) continue;
 		if (!isElementVisible(icon)) continue;
 
@@ -644,8 +1194,61 @@ function detectContentHintsUnsafe(el: HTMLElement): ContentHint[] {
 		addHint("icon", bbox);
 	}
 
+	// Detect videos and maps: <video>, known player/map iframes, map widgets
+	for (const media of query("video, iframe")) {
+		if (!isElementType(media, "HTMLElement")) continue;
+		if (!isElementVisible(media)) continue;
+
+		const src = media.getAttribute("src") ?? "";
+		const bbox = getAbsoluteBoundingBox(media);
+		if (isElementType(media, "HTMLVideoElement") || VIDEO_EMBED_PATTERN.test(src)) {
+			addHint("video", bbox);
+		} else if (MAP_EMBED_PATTERN.test(src)) {
+			addHint("map", bbox);
+		}
+	}
+
+	for (const map of query(MAP_WIDGET_SELECTOR)) {
+		if (!isElementType(map, "HTMLElement")) continue;
+		if (!isElementVisible(map)) continue;
+		// Widgets nest (.gm-style sits inside the map container): keep the outermost
+		if (map.parentElement?.closest(MAP_WIDGET_SELECTOR)) continue;
+
+		addHint("map", getAbsoluteBoundingBox(map));
+	}
+
+	// Detect form fields, labeled by placeholder text or the selected option
+	for (const field of query("input, textarea")) {
+		if (!isElementType(field, "HTMLElement")) continue;
+		if (!isTextField(field)) continue;
+		if (!isElementVisible(field)) continue;
+
+		const label = field.getAttribute("placeholder")?.trim().slice(0, 20) || undefined;
+		addHint("input", getAbsoluteBoundingBox(field), label);
+	}
+
+	for (const field of query("select, [role='combobox']")) {
+		if (!isElementType(field, "HTMLElement")) continue;
+		if (!isElementVisible(field)) continue;
+
+		const selected = isElementType(field, "HTMLSelectElement") ? field.selectedOptions[0] : null;
+		const label =
+			(selected?.textContent ?? field.getAttribute("placeholder"))?.trim().slice(0, 20) ||
+			undefined;
+		addHint("select", getAbsoluteBoundingBox(field), label);
+	}
+
+	// Detect data tables (a single row is layout, not data)
+	for (const table of query("table, [role='table'], [role='grid']")) {
+		if (!isElementType(table, "HTMLElement")) continue;
+		if (isElementType(table, "HTMLTableElement") && table.rows.length < 2) continue;
+		if (!isElementVisible(table)) continue;
+
+		addHint("table", getAbsoluteBoundingBox(table));
+	}
+
 	// Detect text blocks: collapse all <p> and headings into one hint
-	const textElements = el.querySelectorAll("p, h1, h2, h3, h4, h5, h6");
+	const textElements = query("p, h1, h2, h3, h4, h5, h6");
 	if (textElements.length > 0 && counts.text < CONTENT_MAX_COUNTS.text) {
 		// Find bounding box that encompasses all text
 		let minX = Infinity;
@@ -655,7 +1258,7 @@ function detectContentHintsUnsafe(el: HTMLElement): ContentHint[] {
 		let hasVisibleText = false;
 
 		for (const text of textElements) {
-			if (!(text instanceof HTMLElement)) continue;
+			if (!isElementType(text, "HTMLElement")) continue;
 			if (!isElementVisible(text)) continue;
 
 			const rect = text.getBoundingClientRect();
@@ -704,8 +1307,13 @@ function buildNodeTree(
 ): WireframeNode | null {
 	// Grid items can exist at maxDepth (they're leaf nodes)
 	if (depth > config.maxDepth && !isGridItem) return null;
+	if (isExcluded(el)) return null;
 	if (!isElementVisible(el)) return null;
 
+	const position = getNodePosition(el);
+	// Consent banners are noise in a wireframe; rules.include keeps them
+	if (isCookieBanner(el, position) && !isForcedInclude(el)) return null;
+
 	const bbox = getAbsoluteBoundingBox(el);
 	// Grid items bypass normal significance filtering
 	const significant = isGridItem || isSignificant(el, viewportArea, config);
@@ -715,6 +1323,8 @@ function buildNodeTree(
 
 	// Check for grid container BEFORE normal child processing
 	const gridItems = significant && !isGridItem ? detectGridItems(el) : null;
+	// Tables are leaf blocks: rows and cells are summarized in the label
+	const table = significant && isElementType(el, "HTMLTableElement") ? el : null;
 
 	if (gridItems) {
 		// Process grid items as cards (leaf nodes)
@@ -731,41 +1341,33 @@ function buildNodeTree(
 			}
 		}
 		// Also process landmark children normally (they were excluded from gridItems)
-		for (const child of Array.from(el.children)) {
-			if (child instanceof HTMLElement && isLandmark(child)) {
-				const landmarkNode = buildNodeTree(
-					child,
-					depth + 1,
-					viewportArea,
-					config,
-					false,
-				);
+		for (const child of getChildElements(el)) {
+			if (isLandmark(child)) {
+				const landmarkNode = buildNodeTree(child, depth + 1, viewportArea, config, false);
 				if (landmarkNode) {
 					childNodes.push(landmarkNode);
 				}
 			}
 		}
-	} else if (!isGridItem) {
-		// Normal child processing (only if not a grid item - they're leaf nodes)
-		for (const child of Array.from(el.children)) {
-			if (child instanceof HTMLElement) {
-				const childNode = buildNodeTree(
-					child,
-					significant ? depth + 1 : depth,
-					viewportArea,
-					config,
-					false,
-				);
-				if (childNode) {
-					childNodes.push(childNode);
-				}
+	} else if (!isGridItem && !table) {
+		// Normal child processing (only if not a grid item or table - they're leaf nodes)
+		for (const child of getChildElements(el)) {
+			const childNode = buildNodeTree(
+				child,
+				significant ? depth + 1 : depth,
+				viewportArea,
+				config,
+				false,
+			);
+			if (childNode) {
+				childNodes.push(childNode);
 			}
 		}
 	}
 
 	// If this element isn't significant, bubble up children
 	if (!significant) {
-		if (childNodes.length === 1) return childNodes[0];
+		if (childNodes.length === 1) return withPosition(childNodes[0], position);
 		if (childNodes.length > 1) {
 			// Return a virtual container? No, just return null
 			// The children will be captured by their significant ancestors
@@ -781,20 +1383,21 @@ function buildNodeTree(
 		if (bboxesSimilar(bbox, child.bbox)) {
 			// But prefer landmarks over generic divs
 			if (!isLandmark(el) && child.isLandmark) {
-				return child;
+				return withPosition(child, position);
 			}
 			// Prefer element with meaningful label
 			const myLabel = generateLabel(el);
 			if (myLabel === "Block" || myLabel === "Section") {
 				if (child.label !== "Block" && child.label !== "Section") {
-					return child;
+					return withPosition(child, position);
 				}
 			}
 		}
 	}
 
 	// Create node for this element
-	const label = isGridItem ? inferGridItemLabel(el) : generateLabel(el);
+	let label = isGridItem ? inferGridItemLabel(el) : generateLabel(el);
+	if (table) label = `${label} (${getTableSize(table)})`;
 	const contentHints = detectContentHints(el);
 	const node: WireframeNode = {
 		id: generateNodeId(),
@@ -804,23 +1407,30 @@ function buildNodeTree(
 		depth,
 		children: childNodes,
 		isLandmark: isLandmark(el),
-		semanticType: isGridItem ? "card" : getSemanticType(el, label),
+		semanticType: isGridItem
+			? (matchLabelRule(el)?.semanticType ?? "card")
+			: getSemanticType(el, label),
 		contentHints: contentHints.length > 0 ? contentHints : undefined,
+		selector: getElementSelector(el),
 	};
+	if (position) node.position = position;
 
 	return node;
 }
 
 /**
  * Analyze the DOM and build a wireframe model.
+ * Throws if `config.rules` names an unknown preset or has an invalid pattern or selector.
  */
 export function analyzeDom(
 	root: HTMLElement | Document = document,
 	config: Partial<AnalyzerConfig> = {},
 ): WireframeModel {
 	nodeIdCounter = 0;
+	fixedLayerCache = new WeakMap();
 
 	const mergedConfig: AnalyzerConfig = { ...DEFAULT_CONFIG, ...config };
+	rules = compileRules(mergedConfig.rules);
 
 	const viewportWidth = window.innerWidth;
 	const viewportHeight = window.innerHeight;
@@ -834,12 +1444,10 @@ export function analyzeDom(
 	const body = root instanceof Document ? root.body : root;
 
 	const nodes: WireframeNode[] = [];
-	for (const child of Array.from(body.children)) {
-		if (child instanceof HTMLElement) {
-			const node = buildNodeTree(child, 0, viewportArea, mergedConfig);
-			if (node) {
-				nodes.push(node);
-			}
+	for (const child of getChildElements(body)) {
+		const node = buildNodeTree(child, 0, viewportArea, mergedConfig);
+		if (node) {
+			nodes.push(node);
 		}
 	}
 
@@ -0,0 +1,241 @@
+/**
+ * Node Editor
+ *
+ * Model-side support for the overlay's edit mode: undo/redo history,
+ * new blocks and annotations, and box geometry for move and resize handles. Pointer and
+ * keyboard handling lives in main.ts; tree edits use the shared
+ * model helpers (`translateNode`, `resizeNode`, `removeNode`, `insertNode`).
+ *
+ * @module editor
+ */
+
+import type {
+	Annotation,
+	AnnotationPoint,
+	AnnotationType,
+	BoundingBox,
+	SemanticType,
+	WireframeModel,
+	WireframeNode,
+} from "./types.js";
+
+/** Smallest width/height a block can be resized or drawn to */
+export const MIN_BLOCK_SIZE = 8;
+
+/** Number of undo steps kept */
+const HISTORY_LIMIT = 100;
+
+/** Semantic types drawn as landmarks when added by hand */
+const LANDMARK_TYPES = new Set<SemanticType>([
+	"header",
+	"navigation",
+	"footer",
+	"sidebar",
+	"search",
+]);
+
+/** Tag recorded for hand-drawn blocks, per semantic type */
+const BLOCK_TAGS: Partial<Record<SemanticType, string>> = {
+	header: "header",
+	navigation: "nav",
+	footer: "footer",
+	hero: "section",
+	cta: "button",
+	card: "article",
+	sidebar: "aside",
+	form: "form",
+	testimonial: "blockquote",
+	pricing: "section",
+	gallery: "section",
+	search: "search",
+	modal: "dialog",
+};
+
+/**
+ * Resize handle position: edges and corners, by compass direction.
+ */
+export type ResizeHandle = "n" | "ne" | "e" | "se" | "s" | "sw" | "w" | "nw";
+
+export const RESIZE_HANDLES: ResizeHandle[] = ["n", "ne", "e", "se", "s", "sw", "w", "nw"];
+
+/**
+ * Everything an edit can change: the model, label overrides and hidden nodes.
+ */
+export interface EditSnapshot {
+	model: WireframeModel;
+	labelOverrides: Map<string, string>;
+	hiddenIds: Set<string>;
+}
+
+function cloneSnapshot(snapshot: EditSnapshot): EditSnapshot {
+	return {
+		model: structuredClone(snapshot.model),
+		labelOverrides: new Map(snapshot.labelOverrides),
+		hiddenIds: new Set(snapshot.hiddenIds),
+	};
+}
+
+/**
+ * Snapshot-based undo/redo. Call `record` with the current state right
+ * before mutating it.
+ */
+export class EditHistory {
+	private undoStack: EditSnapshot[] = [];
+	private redoStack: EditSnapshot[] = [];
+
+	get canUndo(): boolean {
+		return this.undoStack.length > 0;
+	}
+
+	get canRedo(): boolean {
+		return this.redoStack.length > 0;
+	}
+
+	record(current: EditSnapshot): void {
+		this.undoStack.push(cloneSnapshot(current));
+		if (this.undoStack.length > HISTORY_LIMIT) this.undoStack.shift();
+		this.redoStack = [];
+	}
+
+	/**
+	 * Drop the most recent record (e.g. a drag that didn't move anything).
+	 */
+	discardLast(): void {
+		this.undoStack.pop();
+	}
+
+	/**
+	 * Returns the state to restore, or null when there is nothing to undo.
+	 */
+	undo(current: EditSnapshot): EditSnapshot | null {
+		const previous = this.undoStack.pop();
+		if (!previous) return null;
+		this.redoStack.push(cloneSnapshot(current));
+		return previous;
+	}
+
+	redo(current: EditSnapshot): EditSnapshot | null {
+		const next = this.redoStack.pop();
+		if (!next) return null;
+		this.undoStack.push(cloneSnapshot(current));
+		return next;
+	}
+
+	clear(): void {
+		this.undoStack = [];
+		this.redoStack = [];
+	}
+}
+
+/**
+ * Keep a box inside the page.
+ */
+export function clampBox(bbox: BoundingBox, model: WireframeModel): BoundingBox {
+	const width = Math.min(bbox.width, model.viewport.width);
+	const height = Math.min(bbox.height, model.fullPageHeight);
+	return {
+		x: Math.min(Math.max(0, bbox.x), model.viewport.width - width),
+		y: Math.min(Math.max(0, bbox.y), model.fullPageHeight - height),
+		width,
+		height,
+	};
+}
+
+/**
+ * Box after dragging `handle` by (dx, dy), kept at least MIN_BLOCK_SIZE
+ * and inside the page.
+ */
+export function resizeBox(
+	bbox: BoundingBox,
+	handle: ResizeHandle,
+	dx: number,
+	dy: number,
+	model: WireframeModel,
+): BoundingBox {
+	let left = bbox.x;
+	let top = bbox.y;
+	let right = bbox.x + bbox.width;
+	let bottom = bbox.y + bbox.height;
+
+	if (handle.includes("w")) left = Math.min(left + dx, right - MIN_BLOCK_SIZE);
+	if (handle.includes("e")) right = Math.max(right + dx, left + MIN_BLOCK_SIZE);
+	if (handle.includes("n")) top = Math.min(top + dy, bottom - MIN_BLOCK_SIZE);
+	if (handle.includes("s")) bottom = Math.max(bottom + dy, top + MIN_BLOCK_SIZE);
+
+	left = Math.max(0, left);
+	top = Math.max(0, top);
+	right = Math.min(model.viewport.width, right);
+	bottom = Math.min(model.fullPageHeight, bottom);
+	return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Normalized box spanning two drag points.
+ */
+export function boxFromPoints(x1: number, y1: number, x2: number, y2: number): BoundingBox {
+	return {
+		x: Math.min(x1, x2),
+		y: Math.min(y1, y2),
+		width: Math.abs(x2 - x1),
+		height: Math.abs(y2 - y1),
+	};
+}
+
+/**
+ * Id not used by any node in the model.
+ */
+function nextBlockId(model: WireframeModel): string {
+	const ids = new Set<string>();
+	const collect = (nodes: WireframeNode[]) => {
+		for (const node of nodes) {
+			ids.add(node.id);
+			collect(node.children);
+		}
+	};
+	collect(model.nodes);
+
+	let counter = 1;
+	while (ids.has(`edit-${counter}`)) counter++;
+	return `edit-${counter}`;
+}
+
+/**
+ * Create a hand-drawn block (not yet inserted into the model).
+ */
+export function createBlockNode(
+	model: WireframeModel,
+	semanticType: SemanticType,
+	bbox: BoundingBox,
+): WireframeNode {
+	return {
+		id: nextBlockId(model),
+		tagName: BLOCK_TAGS[semanticType] ?? "div",
+		label: semanticType.charAt(0).toUpperCase() + semanticType.slice(1),
+		bbox: clampBox(bbox, model),
+		depth: 0,
+		children: [],
+		isLandmark: LANDMARK_TYPES.has(semanticType),
+		semanticType,
+	};
+}
+
+/**
+ * Create an annotation with a fresh id and append it to the model.
+ */
+export function addAnnotation(
+	model: WireframeModel,
+	type: AnnotationType,
+	text: string,
+	at: AnnotationPoint,
+	to?: AnnotationPoint,
+): Annotation {
+	const annotations = model.annotations ?? [];
+	const ids = new Set(annotations.map((annotation) => annotation.id));
+	let counter = 1;
+	while (ids.has(`note-${counter}`)) counter++;
+
+	const annotation: Annotation = { id: `note-${counter}`, type, at, text };
+	if (to) annotation.to = to;
+	model.annotations = [...annotations, annotation];
+	return annotation;
+}
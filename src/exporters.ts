@@ -0,0 +1,61 @@
+/**
+ * Design Tool Exporters
+ *
+ * Browser-side downloads for the editable export formats:
+ * - Excalidraw scene (`.excalidraw`)
+ * - Figma plugin-importable JSON
+ *
+ * The conversions themselves live in the shared package; this module only
+ * applies the overlay's label overrides and triggers the file download.
+ *
+ * @module exporters
+ */
+
+import { applyLabelOverrides, toExcalidrawScene, toFigmaDocument } from "@wireframe-mapper/shared";
+import type { WireframeModel } from "./types.js";
+
+/**
+ * Download text content as a file via a temporary object URL.
+ */
+export function downloadTextFile(content: string, mimeType: string, filename: string): void {
+	const blob = new Blob([content], { type: mimeType });
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement("a");
+	link.download = filename;
+	link.href = url;
+	link.click();
+	// Revoke after the click has been dispatched so the download can start
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Download the model as an Excalidraw scene.
+ */
+export function downloadExcalidraw(
+	model: WireframeModel,
+	labelOverrides: Map<string, string>,
+	filename?: string,
+): void {
+	const scene = toExcalidrawScene(applyLabelOverrides(model, labelOverrides));
+	downloadTextFile(
+		JSON.stringify(scene, null, 2),
+		"application/json",
+		filename ?? `wireframe-${Date.now()}.excalidraw`,
+	);
+}
+
+/**
+ * Download the model as Figma plugin-importable JSON.
+ */
+export function downloadFigmaJson(
+	model: WireframeModel,
+	labelOverrides: Map<string, string>,
+	filename?: string,
+): void {
+	const document = toFigmaDocument(applyLabelOverrides(model, labelOverrides));
+	downloadTextFile(
+		JSON.stringify(document, null, 2),
+		"application/json",
+		filename ?? `wireframe-${Date.now()}.figma.json`,
+	);
+}
@@ -2,10 +2,22 @@
  * Main Entry Point
  *
  * Creates and manages the wireframe overlay UI. This module:
- * - Analyzes the current page's DOM
+ * - Analyzes the current page's DOM (or opens a saved model)
  * - Creates a full-screen overlay with the wireframe canvas
- * - Provides controls for labels toggle, PNG export, and close
- * - Handles keyboard shortcuts (Escape to close)
+ * - Provides controls for labels toggle, PNG/SVG/Excalidraw/Figma export
+ *   (optionally with a color legend, above the fold only, as viewport
+ *   slices or just the selected block), a fold line, JSON save/load, and close
+ * - Edit mode: select, move, resize, delete and draw blocks, with undo/redo
+ * - Annotations (edit mode): numbered pins, arrows, sticky notes and free
+ *   text; drag to move, double-click to edit, pin notes listed below exports
+ * - Tree panel: node hierarchy with hover highlight, hide/show and
+ *   drag-to-reorder/reparent
+ * - Inspect mode: outline a node's source element on the live page
+ * - Analyzer rules: a preset picker plus custom rules from
+ *   `window.wireframeMapperRules` (set before loading the script)
+ * - Themes: a theme picker, plus a custom theme from `window.wireframeMapperTheme`,
+ *   and a hand-drawn sketch mode toggle
+ * - Handles keyboard shortcuts (Escape to close, Delete, arrows, Ctrl+Z/Ctrl+Shift+Z)
  *
  * Usage:
  * 1. Build: `pnpm run build`
@@ -15,32 +27,258 @@
  * @module main
  */
 
-import { analyzeDom } from "./analyzer.js";
-import { createCanvas, downloadCanvasAsPng, renderWireframe } from "./renderer.js";
-import type { BadgeInfo, RendererConfig, WireframeModel } from "./types.js";
+import {
+	ANALYZER_PRESET_NAMES,
+	anchorAnnotationPoint,
+	DEFAULT_RENDERER_CONFIG,
+	extractSubtree,
+	findAnnotationAt,
+	findNodeAt,
+	findNodeById,
+	getAboveFoldRange,
+	getAnnotationBounds,
+	getRenderFontFamily,
+	getViewportSlices,
+	insertNode,
+	moveAnnotation,
+	moveNodeInTree,
+	omitFloatingNodes,
+	omitNodes,
+	pruneAnnotations,
+	removeNode,
+	resizeNode,
+	SEMANTIC_TYPES,
+	THEME_NAMES,
+	translateNode,
+} from "@wireframe-mapper/shared";
+import { analyzeDom, getFrameOffset } from "./analyzer.js";
+import {
+	addAnnotation,
+	boxFromPoints,
+	clampBox,
+	createBlockNode,
+	EditHistory,
+	type EditSnapshot,
+	MIN_BLOCK_SIZE,
+	RESIZE_HANDLES,
+	type ResizeHandle,
+	resizeBox,
+} from "./editor.js";
+import { downloadExcalidraw, downloadFigmaJson } from "./exporters.js";
+import { downloadModelJson, pickModelFile } from "./model-io.js";
+import {
+	createCanvas,
+	downloadCanvasAsPng,
+	downloadWireframeAsSvg,
+	renderWireframe,
+} from "./renderer.js";
+import { findElementBySelector } from "./selector.js";
+import { createTreePanel, type TreePanel } from "./tree-panel.js";
+import type {
+	AnalyzerRules,
+	Annotation,
+	AnnotationType,
+	BadgeInfo,
+	BoundingBox,
+	CustomTheme,
+	PageRange,
+	RendererConfig,
+	SemanticType,
+	ThemeName,
+	WireframeModel,
+	WireframeNode,
+} from "./types.js";
 
 const OVERLAY_ID = "wireframe-mapper-overlay";
+const SELECTION_ID = "wireframe-selection";
+const DRAFT_ID = "wireframe-draft-block";
+const HOVER_ID = "wireframe-hover";
+const INSPECT_OUTLINE_ID = "wireframe-inspect-outline";
+
+declare global {
+	interface Window {
+		/** Custom analyzer rules, set in the console before loading the overlay */
+		wireframeMapperRules?: AnalyzerRules;
+		/** Custom render theme, offered as "custom" in the theme picker */
+		wireframeMapperTheme?: CustomTheme;
+	}
+}
 
 interface WireframeMapperState {
 	model: WireframeModel | null;
 	canvas: HTMLCanvasElement | null;
 	showLabels: boolean;
+	/** Add the color legend below exported PNG/SVG images */
+	showLegend: boolean;
+	/** Draw the fold line (bottom of the first viewport) */
+	showFold: boolean;
+	/** Keep fixed, sticky and overlay nodes on the canvas and in exports */
+	showFloating: boolean;
+	/** Part of the page exports cover ("block" = the selected node's subtree) */
+	exportArea: "page" | "fold" | "slices" | "block";
 	labelOverrides: Map<string, string>;
 	badges: BadgeInfo[];
 	canvasContainer: HTMLDivElement | null;
 	canvasScale: number;
+	editMode: boolean;
+	/** Next canvas drag draws a new block instead of selecting */
+	drawMode: boolean;
+	/** Semantic type for new blocks (and the selected block's type picker) */
+	blockType: SemanticType;
+	selectedId: string | null;
+	/** Next canvas click (drag for arrows) adds this kind of annotation */
+	annotationTool: AnnotationType | null;
+	/** Selected annotation (edit mode); never selected together with a block */
+	selectedAnnotationId: string | null;
+	/** Nodes hidden from the canvas and exports (tree panel checkboxes) */
+	hiddenIds: Set<string>;
+	showTree: boolean;
+	treePanel: TreePanel | null;
+	/** Clicking a node shows its source element on the live page */
+	inspectMode: boolean;
+	/** Analyzer preset picked in the control bar ("" for none) */
+	preset: string;
+	/** Theme picked in the control bar ("custom" for window.wireframeMapperTheme) */
+	theme: ThemeName | "custom";
+	/** Draw the wireframe (and exports) in hand-drawn sketch mode */
+	sketch: boolean;
+	history: EditHistory;
+	keydownHandler: ((e: KeyboardEvent) => void) | null;
 }
 
 const state: WireframeMapperState = {
 	model: null,
 	canvas: null,
 	showLabels: false,
+	showLegend: false,
+	showFold: false,
+	showFloating: true,
+	exportArea: "page",
 	labelOverrides: new Map(),
 	badges: [],
 	canvasContainer: null,
 	canvasScale: 1,
+	editMode: false,
+	drawMode: false,
+	blockType: "content",
+	selectedId: null,
+	annotationTool: null,
+	selectedAnnotationId: null,
+	hiddenIds: new Set(),
+	showTree: false,
+	treePanel: null,
+	inspectMode: false,
+	preset: "",
+	theme: "pastel",
+	sketch: false,
+	history: new EditHistory(),
+	keydownHandler: null,
 };
 
+/** Prompt shown when adding an annotation of each kind */
+const ANNOTATION_PROMPTS: Record<AnnotationType, string> = {
+	pin: "Note for this pin (listed below exports, optional):",
+	arrow: "Note for this arrow (listed below exports, optional):",
+	note: "Sticky note text:",
+	text: "Text:",
+};
+
+/** Space around the selected block in "selected block" exports */
+const BLOCK_EXPORT_PADDING = 16;
+
+/** Set after a drag so the click that ends it doesn't open the label editor */
+let suppressNextClick = false;
+
+/**
+ * Build an export filename from the page title (or "page" as fallback).
+ */
+function buildExportFilename(extension: string, suffix = ""): string {
+	const pageTitle = document.title
+		.replace(/[^a-zA-Z0-9]/g, "-")
+		.replace(/-+/g, "-")
+		.slice(0, 50);
+	return `wireframe-${pageTitle || "page"}-${Date.now()}${suffix}.${extension}`;
+}
+
+/**
+ * Analyzer rules for this page: `window.wireframeMapperRules` plus the
+ * preset picked in the control bar.
+ */
+function analyzerRules(): AnalyzerRules {
+	const custom = window.wireframeMapperRules ?? {};
+	const presets = [...(custom.presets ?? [])];
+	if (state.preset && !presets.includes(state.preset)) presets.push(state.preset);
+	return { ...custom, presets };
+}
+
+/**
+ * Renderer settings for the on-screen canvas.
+ */
+function renderConfig(): Partial<RendererConfig> {
+	const theme = state.theme === "custom" ? window.wireframeMapperTheme : state.theme;
+	return {
+		showLabels: state.showLabels,
+		labelOverrides: state.labelOverrides,
+		theme,
+		sketch: state.sketch,
+		showFold: state.showFold,
+	};
+}
+
+/**
+ * Renderer settings for PNG/SVG exports (adds the legend when enabled,
+ * and the numbered annotation notes).
+ */
+function exportRenderConfig(): Partial<RendererConfig> {
+	return { ...renderConfig(), showLegend: state.showLegend, showNotes: true };
+}
+
+/**
+ * Page ranges for PNG/SVG exports, one image each (undefined = full page).
+ */
+function exportRanges(model: WireframeModel): Array<PageRange | undefined> {
+	if (state.exportArea === "fold") return [getAboveFoldRange(model)];
+	if (state.exportArea === "slices") return getViewportSlices(model);
+	return [undefined];
+}
+
+/**
+ * The model to export: the visible model, or only the selected block's
+ * subtree (cropped to its box) when exporting the selected block.
+ * Returns null, after telling the user, if no block is selected.
+ */
+function exportModel(): WireframeModel | null {
+	if (state.exportArea !== "block") return visibleModel();
+	const subtree = state.selectedId
+		? extractSubtree(visibleModel(), state.selectedId, BLOCK_EXPORT_PADDING)
+		: null;
+	if (!subtree) {
+		alert("Select a block first: click it in edit mode or pick it in the tree panel.");
+	}
+	return subtree;
+}
+
+/**
+ * The model to save as JSON: every node, including hidden and floating
+ * ones, with the hidden ids stored alongside so reopening restores them.
+ * Like exportModel(), the selected-block area saves only that subtree.
+ */
+function saveModel(): WireframeModel | null {
+	let model = state.model as WireframeModel;
+	if (state.exportArea === "block") {
+		const subtree = state.selectedId
+			? extractSubtree(model, state.selectedId, BLOCK_EXPORT_PADDING)
+			: null;
+		if (!subtree) {
+			alert("Select a block first: click it in edit mode or pick it in the tree panel.");
+			return null;
+		}
+		model = subtree;
+	}
+	const hiddenIds = Array.from(state.hiddenIds).filter((id) => findNodeById(model, id));
+	return hiddenIds.length > 0 ? { ...model, hiddenIds } : model;
+}
+
 /**
  * Create the control bar UI.
  */
@@ -51,6 +289,9 @@ function createControlBar(onClose: () => void): HTMLDivElement {
     top: 16px;
     right: 16px;
     display: flex;
+    flex-wrap: wrap;
+    justify-content: flex-end;
+    max-width: calc(100vw - 32px);
     gap: 8px;
     z-index: 1000001;
     font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
@@ -83,6 +324,203 @@ function createControlBar(onClose: () => void): HTMLDivElement {
 		rerender();
 	});
 
+	// Legend toggle button (exports only; the on-screen canvas stays page-sized)
+	const legendBtn = document.createElement("button");
+	legendBtn.textContent = state.showLegend ? "Legend: ON" : "Legend: OFF";
+	legendBtn.title = "Add a color legend below exported images";
+	legendBtn.style.cssText =
+		buttonStyle +
+		`
+    background: ${state.showLegend ? "#333" : "#e0e0e0"};
+    color: ${state.showLegend ? "#fff" : "#333"};
+  `;
+	legendBtn.addEventListener("click", () => {
+		state.showLegend = !state.showLegend;
+		legendBtn.textContent = state.showLegend ? "Legend: ON" : "Legend: OFF";
+		legendBtn.style.background = state.showLegend ? "#333" : "#e0e0e0";
+		legendBtn.style.color = state.showLegend ? "#fff" : "#333";
+	});
+
+	// Fold line toggle button (canvas and exports)
+	const foldBtn = document.createElement("button");
+	foldBtn.textContent = state.showFold ? "Fold: ON" : "Fold: OFF";
+	foldBtn.title = "Mark the bottom of the first viewport";
+	foldBtn.style.cssText =
+		buttonStyle +
+		`
+    background: ${state.showFold ? "#333" : "#e0e0e0"};
+    color: ${state.showFold ? "#fff" : "#333"};
+  `;
+	foldBtn.addEventListener("click", () => {
+		state.showFold = !state.showFold;
+		foldBtn.textContent = state.showFold ? "Fold: ON" : "Fold: OFF";
+		foldBtn.style.background = state.showFold ? "#333" : "#e0e0e0";
+		foldBtn.style.color = state.showFold ? "#fff" : "#333";
+		rerender();
+	});
+
+	// Floating elements toggle (fixed/sticky/overlay nodes; canvas and exports)
+	const floatingBtn = document.createElement("button");
+	floatingBtn.textContent = state.showFloating ? "Floating: ON" : "Floating: OFF";
+	floatingBtn.title = "Show fixed, sticky and overlay elements";
+	floatingBtn.style.cssText =
+		buttonStyle +
+		`
+    background: ${state.showFloating ? "#333" : "#e0e0e0"};
+    color: ${state.showFloating ? "#fff" : "#333"};
+  `;
+	floatingBtn.addEventListener("click", () => {
+		state.showFloating = !state.showFloating;
+		floatingBtn.textContent = state.showFloating ? "Floating: ON" : "Floating: OFF";
+		floatingBtn.style.background = state.showFloating ? "#333" : "#e0e0e0";
+		floatingBtn.style.color = state.showFloating ? "#fff" : "#333";
+		if (!state.showFloating) state.selectedId = null;
+		rerender();
+	});
+
+	// Export area picker (exports only; the canvas shows the full page)
+	const areaSelect = document.createElement("select");
+	areaSelect.title = "Part of the page to export";
+	areaSelect.style.cssText =
+		buttonStyle +
+		`
+    background: #e0e0e0;
+    color: #333;
+  `;
+	const areas: Array<[WireframeMapperState["exportArea"], string]> = [
+		["page", "Export: full page"],
+		["fold", "Export: above fold"],
+		["slices", "Export: viewport slices"],
+		["block", "Export: selected block"],
+	];
+	for (const [value, text] of areas) {
+		const option = document.createElement("option");
+		option.value = value;
+		option.textContent = text;
+		areaSelect.appendChild(option);
+	}
+	areaSelect.value = state.exportArea;
+	areaSelect.addEventListener("change", () => {
+		state.exportArea = areaSelect.value as WireframeMapperState["exportArea"];
+	});
+
+	// Sketch mode toggle button (canvas and exports)
+	const sketchBtn = document.createElement("button");
+	sketchBtn.textContent = state.sketch ? "Sketch: ON" : "Sketch: OFF";
+	sketchBtn.title = "Draw the wireframe with hand-drawn strokes";
+	sketchBtn.style.cssText =
+		buttonStyle +
+		`
+    background: ${state.sketch ? "#333" : "#e0e0e0"};
+    color: ${state.sketch ? "#fff" : "#333"};
+  `;
+	sketchBtn.addEventListener("click", () => {
+		state.sketch = !state.sketch;
+		sketchBtn.textContent = state.sketch ? "Sketch: ON" : "Sketch: OFF";
+		sketchBtn.style.background = state.sketch ? "#333" : "#e0e0e0";
+		sketchBtn.style.color = state.sketch ? "#fff" : "#333";
+		rerender();
+	});
+
+	// Edit mode toggle button
+	const editBtn = document.createElement("button");
+	editBtn.textContent = "Edit: OFF";
+	editBtn.style.cssText =
+		buttonStyle +
+		`
+    background: #e0e0e0;
+    color: #333;
+  `;
+	editBtn.addEventListener("click", () => {
+		setEditMode(!state.editMode);
+		editBtn.textContent = state.editMode ? "Edit: ON" : "Edit: OFF";
+		editBtn.style.background = state.editMode ? "#333" : "#e0e0e0";
+		editBtn.style.color = state.editMode ? "#fff" : "#333";
+	});
+
+	// Tree panel toggle button
+	const treeBtn = document.createElement("button");
+	treeBtn.textContent = "Tree";
+	treeBtn.style.cssText =
+		buttonStyle +
+		`
+    background: #e0e0e0;
+    color: #333;
+  `;
+	treeBtn.addEventListener("click", () => {
+		state.showTree = !state.showTree;
+		treeBtn.style.background = state.showTree ? "#333" : "#e0e0e0";
+		treeBtn.style.color = state.showTree ? "#fff" : "#333";
+		if (state.treePanel) state.treePanel.element.style.display = state.showTree ? "flex" : "none";
+		if (!state.showTree) highlightNode(null);
+	});
+
+	// Inspect mode toggle button
+	const inspectBtn = document.createElement("button");
+	inspectBtn.textContent = "Inspect";
+	inspectBtn.title = "Click a block to outline its source element on the page";
+	inspectBtn.style.cssText =
+		buttonStyle +
+		`
+    background: #e0e0e0;
+    color: #333;
+  `;
+	inspectBtn.addEventListener("click", () => {
+		state.inspectMode = !state.inspectMode;
+		inspectBtn.style.background = state.inspectMode ? "#f97316" : "#e0e0e0";
+		inspectBtn.style.color = state.inspectMode ? "#fff" : "#333";
+		if (state.canvas) state.canvas.style.cursor = state.inspectMode ? "crosshair" : "";
+		hideLabelEditor();
+	});
+
+	// Analyzer preset picker (re-analyzes the page)
+	const presetSelect = document.createElement("select");
+	presetSelect.title = "Analyzer rule preset";
+	presetSelect.style.cssText =
+		buttonStyle +
+		`
+    background: #e0e0e0;
+    color: #333;
+  `;
+	for (const name of ["", ...ANALYZER_PRESET_NAMES]) {
+		const option = document.createElement("option");
+		option.value = name;
+		option.textContent = `Rules: ${name || "default"}`;
+		presetSelect.appendChild(option);
+	}
+	presetSelect.value = state.preset;
+	presetSelect.addEventListener("change", () => {
+		if (state.history.canUndo && !confirm("Re-analyze the page? Your edits will be lost.")) {
+			presetSelect.value = state.preset;
+			return;
+		}
+		state.preset = presetSelect.value;
+		createOverlay();
+	});
+
+	// Theme picker (canvas and exports)
+	const themeSelect = document.createElement("select");
+	themeSelect.title = "Wireframe theme";
+	themeSelect.style.cssText =
+		buttonStyle +
+		`
+    background: #e0e0e0;
+    color: #333;
+  `;
+	const themeNames: Array<ThemeName | "custom"> = [...THEME_NAMES];
+	if (window.wireframeMapperTheme) themeNames.push("custom");
+	for (const name of themeNames) {
+		const option = document.createElement("option");
+		option.value = name;
+		option.textContent = `Theme: ${name}`;
+		themeSelect.appendChild(option);
+	}
+	themeSelect.value = state.theme;
+	themeSelect.addEventListener("change", () => {
+		state.theme = themeSelect.value as ThemeName | "custom";
+		rerender();
+	});
+
 	// Export PNG button
 	const exportBtn = document.createElement("button");
 	exportBtn.textContent = "Export PNG";
@@ -93,17 +531,111 @@ function createControlBar(onClose: () => void): HTMLDivElement {
     color: #fff;
   `;
 	exportBtn.addEventListener("click", () => {
-		if (state.canvas) {
-			// Create filename from page title or URL
-			const pageTitle = document.title
-				.replace(/[^a-zA-Z0-9]/g, "-")
-				.replace(/-+/g, "-")
-				.slice(0, 50);
-			const filename = `wireframe-${pageTitle || "page"}-${Date.now()}.png`;
-			downloadCanvasAsPng(state.canvas, filename);
+		const model = state.model && exportModel();
+		if (model) {
+			const ranges = exportRanges(model);
+			ranges.forEach((range, index) => {
+				const config = { ...exportRenderConfig(), range };
+				const exportCanvas = createCanvas(model, config);
+				renderWireframe(model, exportCanvas, config);
+				const suffix = ranges.length > 1 ? `-${index + 1}` : "";
+				downloadCanvasAsPng(exportCanvas, buildExportFilename("png", suffix));
+			});
 		}
 	});
 
+	// Export SVG button
+	const exportSvgBtn = document.createElement("button");
+	exportSvgBtn.textContent = "Export SVG";
+	exportSvgBtn.style.cssText =
+		buttonStyle +
+		`
+    background: #2563eb;
+    color: #fff;
+  `;
+	exportSvgBtn.addEventListener("click", () => {
+		const model = state.model && exportModel();
+		if (model) {
+			const ranges = exportRanges(model);
+			ranges.forEach((range, index) => {
+				const suffix = ranges.length > 1 ? `-${index + 1}` : "";
+				downloadWireframeAsSvg(
+					model,
+					{ ...exportRenderConfig(), range },
+					buildExportFilename("svg", suffix),
+				);
+			});
+		}
+	});
+
+	// Export Excalidraw button
+	const exportExcalidrawBtn = document.createElement("button");
+	exportExcalidrawBtn.textContent = "Export Excalidraw";
+	exportExcalidrawBtn.style.cssText =
+		buttonStyle +
+		`
+    background: #6965db;
+    color: #fff;
+  `;
+	exportExcalidrawBtn.addEventListener("click", () => {
+		const model = state.model && exportModel();
+		if (model) {
+			downloadExcalidraw(model, state.labelOverrides, buildExportFilename("excalidraw"));
+		}
+	});
+
+	// Export Figma JSON button
+	const exportFigmaBtn = document.createElement("button");
+	exportFigmaBtn.textContent = "Export Figma";
+	exportFigmaBtn.style.cssText =
+		buttonStyle +
+		`
+    background: #6965db;
+    color: #fff;
+  `;
+	exportFigmaBtn.addEventListener("click", () => {
+		const model = state.model && exportModel();
+		if (model) {
+			downloadFigmaJson(model, state.labelOverrides, buildExportFilename("figma.json"));
+		}
+	});
+
+	// Save JSON button
+	const saveJsonBtn = document.createElement("button");
+	saveJsonBtn.textContent = "Save JSON";
+	saveJsonBtn.style.cssText =
+		buttonStyle +
+		`
+    background: #0f766e;
+    color: #fff;
+  `;
+	saveJsonBtn.addEventListener("click", () => {
+		const model = state.model && saveModel();
+		if (model) {
+			downloadModelJson(model, state.labelOverrides, buildExportFilename("json"));
+		}
+	});
+
+	// Load JSON button
+	const loadJsonBtn = document.createElement("button");
+	loadJsonBtn.textContent = "Load JSON";
+	loadJsonBtn.style.cssText =
+		buttonStyle +
+		`
+    background: #0f766e;
+    color: #fff;
+  `;
+	loadJsonBtn.addEventListener("click", () => {
+		pickModelFile()
+			.then((model) => {
+				if (model) createOverlay(model);
+			})
+			.catch((error: Error) => {
+				console.error("[Wireframe Mapper] Failed to load model:", error);
+				alert(`Could not load wireframe: ${error.message}`);
+			});
+	});
+
 	// Close button
 	const closeBtn = document.createElement("button");
 	closeBtn.textContent = "✕ Close";
@@ -116,12 +648,183 @@ function createControlBar(onClose: () => void): HTMLDivElement {
 	closeBtn.addEventListener("click", onClose);
 
 	bar.appendChild(labelsBtn);
+	bar.appendChild(legendBtn);
+	bar.appendChild(editBtn);
+	bar.appendChild(treeBtn);
+	bar.appendChild(inspectBtn);
+	bar.appendChild(presetSelect);
+	bar.appendChild(themeSelect);
+	bar.appendChild(sketchBtn);
+	bar.appendChild(foldBtn);
+	bar.appendChild(floatingBtn);
+	bar.appendChild(areaSelect);
 	bar.appendChild(exportBtn);
+	bar.appendChild(exportSvgBtn);
+	bar.appendChild(exportExcalidrawBtn);
+	bar.appendChild(exportFigmaBtn);
+	bar.appendChild(saveJsonBtn);
+	bar.appendChild(loadJsonBtn);
 	bar.appendChild(closeBtn);
 
 	return bar;
 }
 
+/**
+ * Create the edit toolbar (shown in edit mode): block type picker,
+ * draw/delete, annotation tools and undo/redo.
+ */
+function createEditBar(): HTMLDivElement {
+	const bar = document.createElement("div");
+	bar.id = "wireframe-edit-bar";
+	bar.style.cssText = `
+    position: fixed;
+    top: 16px;
+    left: 16px;
+    display: none;
+    align-items: center;
+    gap: 8px;
+    padding: 8px;
+    background: rgba(0, 0, 0, 0.75);
+    border-radius: 8px;
+    z-index: 1000001;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+    font-size: 13px;
+    color: #fff;
+  `;
+
+	const buttonStyle = `
+    padding: 6px 12px;
+    border: none;
+    border-radius: 6px;
+    font-size: 13px;
+    font-weight: 500;
+    cursor: pointer;
+    background: #e0e0e0;
+    color: #333;
+  `;
+
+	// Block type picker: type for new blocks, or retypes the selected block
+	const typeSelect = document.createElement("select");
+	typeSelect.id = "wireframe-block-type";
+	typeSelect.style.cssText = "padding: 5px; border-radius: 6px; font-size: 13px;";
+	for (const type of SEMANTIC_TYPES) {
+		const option = document.createElement("option");
+		option.value = type;
+		option.textContent = type;
+		typeSelect.appendChild(option);
+	}
+	typeSelect.value = state.blockType;
+	typeSelect.addEventListener("change", () => {
+		state.blockType = typeSelect.value as SemanticType;
+		const node = selectedNode();
+		if (node && node.semanticType !== state.blockType) {
+			recordEdit();
+			node.semanticType = state.blockType;
+			rerender();
+		}
+	});
+
+	const drawBtn = document.createElement("button");
+	drawBtn.id = "wireframe-draw-btn";
+	drawBtn.textContent = "+ Block";
+	drawBtn.title = "Drag on the canvas to draw a new block";
+	drawBtn.style.cssText = buttonStyle;
+	drawBtn.addEventListener("click", () => {
+		state.drawMode = !state.drawMode;
+		state.annotationTool = null;
+		selectNode(null);
+	});
+
+	// Annotation tools: the next click on the canvas (drag for arrows) adds one
+	const annotationTools: Array<[AnnotationType, string, string]> = [
+		["pin", "+ Pin", "Click to add a numbered pin; its note is listed below exports"],
+		["arrow", "+ Arrow", "Drag on the canvas to draw an arrow"],
+		["note", "+ Note", "Click to add a sticky note"],
+		["text", "+ Text", "Click to add free text"],
+	];
+	const annotationBtns = annotationTools.map(([type, text, title]) => {
+		const button = document.createElement("button");
+		button.id = `wireframe-annotate-${type}`;
+		button.textContent = text;
+		button.title = title;
+		button.style.cssText = buttonStyle;
+		button.addEventListener("click", () => {
+			state.annotationTool = state.annotationTool === type ? null : type;
+			state.drawMode = false;
+			selectNode(null);
+		});
+		return button;
+	});
+
+	const deleteBtn = document.createElement("button");
+	deleteBtn.id = "wireframe-delete-btn";
+	deleteBtn.textContent = "Delete";
+	deleteBtn.title = "Delete the selected block or annotation (Delete)";
+	deleteBtn.style.cssText = buttonStyle;
+	deleteBtn.addEventListener("click", deleteSelected);
+
+	const undoBtn = document.createElement("button");
+	undoBtn.id = "wireframe-undo-btn";
+	undoBtn.textContent = "↶ Undo";
+	undoBtn.title = "Undo (Ctrl+Z)";
+	undoBtn.style.cssText = buttonStyle;
+	undoBtn.addEventListener("click", undo);
+
+	const redoBtn = document.createElement("button");
+	redoBtn.id = "wireframe-redo-btn";
+	redoBtn.textContent = "↷ Redo";
+	redoBtn.title = "Redo (Ctrl+Shift+Z)";
+	redoBtn.style.cssText = buttonStyle;
+	redoBtn.addEventListener("click", redo);
+
+	bar.appendChild(typeSelect);
+	bar.appendChild(drawBtn);
+	for (const button of annotationBtns) bar.appendChild(button);
+	bar.appendChild(deleteBtn);
+	bar.appendChild(undoBtn);
+	bar.appendChild(redoBtn);
+
+	return bar;
+}
+
+/**
+ * Sync the edit toolbar with the current state.
+ */
+function updateEditBar(): void {
+	const bar = document.getElementById("wireframe-edit-bar");
+	if (!bar) return;
+	bar.style.display = state.editMode ? "flex" : "none";
+
+	const setEnabled = (id: string, enabled: boolean) => {
+		const button = document.getElementById(id) as HTMLButtonElement | null;
+		if (!button) return;
+		button.disabled = !enabled;
+		button.style.opacity = enabled ? "1" : "0.4";
+	};
+	setEnabled(
+		"wireframe-delete-btn",
+		state.selectedId !== null || state.selectedAnnotationId !== null,
+	);
+	setEnabled("wireframe-undo-btn", state.history.canUndo);
+	setEnabled("wireframe-redo-btn", state.history.canRedo);
+
+	const drawBtn = document.getElementById("wireframe-draw-btn");
+	if (drawBtn) {
+		drawBtn.style.background = state.drawMode ? "#2563eb" : "#e0e0e0";
+		drawBtn.style.color = state.drawMode ? "#fff" : "#333";
+	}
+	for (const type of ["pin", "arrow", "note", "text"] as const) {
+		const button = document.getElementById(`wireframe-annotate-${type}`);
+		if (!button) continue;
+		const active = state.annotationTool === type;
+		button.style.background = active ? "#2563eb" : "#e0e0e0";
+		button.style.color = active ? "#fff" : "#333";
+	}
+
+	const typeSelect = document.getElementById("wireframe-block-type") as HTMLSelectElement | null;
+	if (typeSelect) typeSelect.value = state.blockType;
+}
+
 /**
  * Create the info bar showing page details.
  */
@@ -150,6 +853,7 @@ function createInfoBar(model: WireframeModel): HTMLDivElement {
 	separator.textContent = " | ";
 
 	const blocksSpan = document.createElement("span");
+	blocksSpan.id = "wireframe-block-count";
 	blocksSpan.textContent = `${nodeCount} blocks`;
 
 	bar.appendChild(dimensionsSpan);
@@ -176,12 +880,729 @@ function countNodes(nodes: WireframeModel["nodes"]): number {
 function rerender(): void {
 	if (!state.model || !state.canvas) return;
 
-	const config: Partial<RendererConfig> = {
-		showLabels: state.showLabels,
+	state.badges = renderWireframe(visibleModel(), state.canvas, renderConfig());
+	updateTreePanel();
+
+	const blockCount = document.getElementById("wireframe-block-count");
+	if (blockCount) blockCount.textContent = `${countNodes(state.model.nodes)} blocks`;
+	updateSelection();
+	updateEditBar();
+}
+
+/**
+ * Rebuild the tree panel rows from the current state.
+ */
+function updateTreePanel(): void {
+	if (!state.model || !state.treePanel) return;
+	state.treePanel.update({
+		model: state.model,
 		labelOverrides: state.labelOverrides,
+		hiddenIds: state.hiddenIds,
+		selectedId: state.selectedId,
+	});
+}
+
+/**
+ * The model as drawn and exported: without hidden nodes.
+ */
+function visibleModel(): WireframeModel {
+	const model = omitNodes(state.model as WireframeModel, state.hiddenIds);
+	return state.showFloating ? model : omitFloatingNodes(model);
+}
+
+/**
+ * Current editable state (model, label overrides, hidden nodes).
+ */
+function currentSnapshot(): EditSnapshot {
+	return {
+		model: state.model as WireframeModel,
+		labelOverrides: state.labelOverrides,
+		hiddenIds: state.hiddenIds,
 	};
+}
 
-	state.badges = renderWireframe(state.model, state.canvas, config);
+/**
+ * Save an undo step. Call right before mutating the model or overrides.
+ */
+function recordEdit(): void {
+	if (state.model) state.history.record(currentSnapshot());
+}
+
+function restoreSnapshot(snapshot: EditSnapshot | null): void {
+	if (!snapshot) return;
+	state.model = snapshot.model;
+	state.labelOverrides = snapshot.labelOverrides;
+	state.hiddenIds = snapshot.hiddenIds;
+	if (state.selectedId && !findNodeById(snapshot.model, state.selectedId)) {
+		state.selectedId = null;
+	}
+	if (!selectedAnnotation()) state.selectedAnnotationId = null;
+	hideLabelEditor();
+	rerender();
+}
+
+function undo(): void {
+	if (state.model) restoreSnapshot(state.history.undo(currentSnapshot()));
+}
+
+function redo(): void {
+	if (state.model) restoreSnapshot(state.history.redo(currentSnapshot()));
+}
+
+function selectedNode(): WireframeNode | null {
+	return state.model && state.selectedId ? findNodeById(state.model, state.selectedId) : null;
+}
+
+function selectNode(node: WireframeNode | null): void {
+	state.selectedId = node?.id ?? null;
+	state.selectedAnnotationId = null;
+	if (node) state.blockType = node.semanticType;
+	updateSelection();
+	updateEditBar();
+	updateTreePanel();
+}
+
+function selectedAnnotation(): Annotation | null {
+	const id = state.selectedAnnotationId;
+	return state.model?.annotations?.find((annotation) => annotation.id === id) ?? null;
+}
+
+function selectAnnotation(annotation: Annotation): void {
+	state.selectedId = null;
+	state.selectedAnnotationId = annotation.id;
+	updateSelection();
+	updateEditBar();
+	updateTreePanel();
+}
+
+function deleteSelected(): void {
+	if (!state.model) return;
+	const annotation = selectedAnnotation();
+	if (annotation) {
+		recordEdit();
+		state.model.annotations = state.model.annotations?.filter((item) => item !== annotation);
+		state.selectedAnnotationId = null;
+		rerender();
+		return;
+	}
+
+	const node = selectedNode();
+	if (!node) return;
+	recordEdit();
+	removeNode(state.model, node.id);
+	// Annotations on the deleted blocks go with them
+	pruneAnnotations(state.model);
+	state.selectedId = null;
+	rerender();
+}
+
+/**
+ * Move the selected block by (dx, dy), keeping it on the page.
+ */
+function nudgeSelected(node: WireframeNode, dx: number, dy: number): void {
+	if (!state.model) return;
+	const target = clampBox({ ...node.bbox, x: node.bbox.x + dx, y: node.bbox.y + dy }, state.model);
+	translateNode(node, target.x - node.bbox.x, target.y - node.bbox.y);
+}
+
+function setEditMode(enabled: boolean): void {
+	state.editMode = enabled;
+	state.drawMode = false;
+	state.annotationTool = null;
+	state.selectedId = null;
+	state.selectedAnnotationId = null;
+	if (state.canvas) state.canvas.style.cursor = enabled ? "default" : "";
+	hideLabelEditor();
+	updateSelection();
+	updateEditBar();
+}
+
+/**
+ * Convert a pointer position to canvas (page) coordinates.
+ */
+function toCanvasPoint(e: MouseEvent): { x: number; y: number } {
+	const rect = (state.canvas as HTMLCanvasElement).getBoundingClientRect();
+	// Account for CSS transform scale
+	return {
+		x: (e.clientX - rect.left) / state.canvasScale,
+		y: (e.clientY - rect.top) / state.canvasScale,
+	};
+}
+
+/**
+ * Position an absolutely positioned element over a box in canvas space.
+ */
+function placeOverCanvas(element: HTMLElement, bbox: BoundingBox): void {
+	const canvas = state.canvas as HTMLCanvasElement;
+	const parent = canvas.parentElement as HTMLElement;
+	const canvasRect = canvas.getBoundingClientRect();
+	const parentRect = parent.getBoundingClientRect();
+	const scale = state.canvasScale;
+
+	element.style.left = `${canvasRect.left - parentRect.left + bbox.x * scale}px`;
+	element.style.top = `${canvasRect.top - parentRect.top + bbox.y * scale}px`;
+	element.style.width = `${bbox.width * scale}px`;
+	element.style.height = `${bbox.height * scale}px`;
+}
+
+/**
+ * Draw the selection outline and resize handles over the canvas
+ * (as DOM elements, so they never end up in exports).
+ */
+function updateSelection(): void {
+	document.getElementById(SELECTION_ID)?.remove();
+
+	const annotation = selectedAnnotation();
+	if (annotation) {
+		updateAnnotationSelection(annotation);
+		return;
+	}
+
+	const node = selectedNode();
+	const parent = state.canvas?.parentElement;
+	if (!state.editMode || !node || !parent) return;
+
+	const selection = document.createElement("div");
+	selection.id = SELECTION_ID;
+	selection.style.cssText = `
+    position: absolute;
+    border: 2px solid #2563eb;
+    box-sizing: border-box;
+    pointer-events: none;
+    z-index: 1;
+  `;
+	placeOverCanvas(selection, node.bbox);
+
+	for (const handle of RESIZE_HANDLES) {
+		const grip = document.createElement("div");
+		const left = handle.includes("w") ? "0%" : handle.includes("e") ? "100%" : "50%";
+		const top = handle.includes("n") ? "0%" : handle.includes("s") ? "100%" : "50%";
+		grip.style.cssText = `
+      position: absolute;
+      left: ${left};
+      top: ${top};
+      width: 10px;
+      height: 10px;
+      margin: -5px 0 0 -5px;
+      background: #fff;
+      border: 2px solid #2563eb;
+      box-sizing: border-box;
+      cursor: ${handle}-resize;
+      pointer-events: auto;
+    `;
+		grip.addEventListener("pointerdown", (e) => startResize(e, node, handle));
+		selection.appendChild(grip);
+	}
+
+	parent.appendChild(selection);
+}
+
+/**
+ * Outline the selected annotation (no resize handles).
+ */
+function updateAnnotationSelection(annotation: Annotation): void {
+	const ctx = state.canvas?.getContext("2d");
+	const parent = state.canvas?.parentElement;
+	if (!state.editMode || !ctx || !parent) return;
+	const bounds = getAnnotationBounds(ctx, visibleModel(), annotation, annotationFontFamily());
+	if (!bounds) return;
+
+	const selection = document.createElement("div");
+	selection.id = SELECTION_ID;
+	selection.style.cssText = `
+    position: absolute;
+    border: 2px dashed #2563eb;
+    box-sizing: border-box;
+    pointer-events: none;
+    z-index: 1;
+  `;
+	const margin = 4;
+	placeOverCanvas(selection, {
+		x: bounds.x - margin,
+		y: bounds.y - margin,
+		width: bounds.width + margin * 2,
+		height: bounds.height + margin * 2,
+	});
+	parent.appendChild(selection);
+}
+
+/**
+ * Font family the canvas draws annotations with (for hit-testing).
+ */
+function annotationFontFamily(): string {
+	return getRenderFontFamily({ ...DEFAULT_RENDERER_CONFIG, ...renderConfig() });
+}
+
+/**
+ * Find the annotation drawn under a canvas point.
+ */
+function annotationAt(x: number, y: number): Annotation | null {
+	const ctx = state.canvas?.getContext("2d");
+	if (!state.model || !ctx) return null;
+	const hit = findAnnotationAt(ctx, visibleModel(), x, y, annotationFontFamily());
+	return state.model.annotations?.find((annotation) => annotation.id === hit?.id) ?? null;
+}
+
+/**
+ * Track a drag with window listeners until the pointer is released.
+ */
+function trackDrag(
+	e: PointerEvent,
+	onMove: (point: { x: number; y: number }) => void,
+	onEnd: (point: { x: number; y: number }) => void,
+): void {
+	e.preventDefault();
+	e.stopPropagation();
+
+	const handleMove = (moveEvent: PointerEvent) => onMove(toCanvasPoint(moveEvent));
+	const handleUp = (upEvent: PointerEvent) => {
+		window.removeEventListener("pointermove", handleMove);
+		window.removeEventListener("pointerup", handleUp);
+		onEnd(toCanvasPoint(upEvent));
+	};
+	window.addEventListener("pointermove", handleMove);
+	window.addEventListener("pointerup", handleUp);
+}
+
+/**
+ * Drag the selected block. The undo step is recorded on the first move,
+ * so a plain click only selects.
+ */
+function startMove(e: PointerEvent, node: WireframeNode): void {
+	let last = toCanvasPoint(e);
+	let moved = false;
+
+	trackDrag(
+		e,
+		(point) => {
+			if (!moved) recordEdit();
+			moved = true;
+			nudgeSelected(node, point.x - last.x, point.y - last.y);
+			last = point;
+			rerender();
+		},
+		() => {
+			suppressNextClick = moved;
+		},
+	);
+}
+
+/**
+ * Drag a resize handle of the selected block.
+ */
+function startResize(e: PointerEvent, node: WireframeNode, handle: ResizeHandle): void {
+	if (!state.model) return;
+	const model = state.model;
+	const start = toCanvasPoint(e);
+	const original = { ...node.bbox };
+	recordEdit();
+	let resized = false;
+
+	trackDrag(
+		e,
+		(point) => {
+			resized = true;
+			resizeNode(node, resizeBox(original, handle, point.x - start.x, point.y - start.y, model));
+			rerender();
+		},
+		() => {
+			if (!resized) state.history.discardLast();
+			suppressNextClick = true;
+			updateEditBar();
+		},
+	);
+}
+
+/**
+ * Drag out a new block of the current block type.
+ */
+function startDraw(e: PointerEvent): void {
+	const parent = state.canvas?.parentElement;
+	if (!state.model || !parent) return;
+	const model = state.model;
+	const start = toCanvasPoint(e);
+
+	const draft = document.createElement("div");
+	draft.id = DRAFT_ID;
+	draft.style.cssText = `
+    position: absolute;
+    border: 2px dashed #2563eb;
+    background: rgba(37, 99, 235, 0.1);
+    box-sizing: border-box;
+    pointer-events: none;
+  `;
+	parent.appendChild(draft);
+
+	trackDrag(
+		e,
+		(point) => {
+			placeOverCanvas(draft, boxFromPoints(start.x, start.y, point.x, point.y));
+		},
+		(point) => {
+			draft.remove();
+			suppressNextClick = true;
+			const bbox = boxFromPoints(start.x, start.y, point.x, point.y);
+			if (bbox.width < MIN_BLOCK_SIZE || bbox.height < MIN_BLOCK_SIZE) return;
+
+			recordEdit();
+			const node = createBlockNode(model, state.blockType, bbox);
+			insertNode(model, node);
+			state.drawMode = false;
+			state.selectedId = node.id;
+			rerender();
+		},
+	);
+}
+
+/**
+ * Drag an annotation. Its points re-attach to the blocks they're dropped on.
+ */
+function startAnnotationMove(e: PointerEvent, annotation: Annotation): void {
+	let last = toCanvasPoint(e);
+	let moved = false;
+
+	trackDrag(
+		e,
+		(point) => {
+			if (!moved) recordEdit();
+			moved = true;
+			moveAnnotation(visibleModel(), annotation, point.x - last.x, point.y - last.y);
+			last = point;
+			rerender();
+		},
+		() => {
+			// Never open the label editor of a badge under the annotation
+			suppressNextClick = true;
+		},
+	);
+}
+
+/**
+ * Add an annotation with the current tool: click for pins, notes and text,
+ * drag for arrows. Asks for the text when the pointer is released.
+ */
+function startAnnotation(e: PointerEvent, type: AnnotationType): void {
+	const parent = state.canvas?.parentElement;
+	if (!state.model || !parent) return;
+	const model = state.model;
+	const start = toCanvasPoint(e);
+
+	// Arrows preview as a dashed line from the drag start
+	const draft = document.createElement("div");
+	draft.id = DRAFT_ID;
+	draft.style.cssText = `
+    position: absolute;
+    border-top: 2px dashed #2563eb;
+    transform-origin: 0 0;
+    pointer-events: none;
+  `;
+	if (type === "arrow") parent.appendChild(draft);
+
+	trackDrag(
+		e,
+		(point) => {
+			if (type !== "arrow") return;
+			const length = Math.hypot(point.x - start.x, point.y - start.y);
+			placeOverCanvas(draft, { x: start.x, y: start.y, width: length, height: 0 });
+			draft.style.transform = `rotate(${Math.atan2(point.y - start.y, point.x - start.x)}rad)`;
+		},
+		(point) => {
+			draft.remove();
+			suppressNextClick = true;
+			if (type === "arrow" && Math.hypot(point.x - start.x, point.y - start.y) < MIN_BLOCK_SIZE) {
+				return;
+			}
+
+			const text = prompt(ANNOTATION_PROMPTS[type])?.trim();
+			if (text === undefined || (!text && (type === "note" || type === "text"))) return;
+
+			recordEdit();
+			const visible = visibleModel();
+			const at = anchorAnnotationPoint(visible, start.x, start.y);
+			const to = type === "arrow" ? anchorAnnotationPoint(visible, point.x, point.y) : undefined;
+			const annotation = addAnnotation(model, type, text, at, to);
+			state.annotationTool = null;
+			state.selectedAnnotationId = annotation.id;
+			rerender();
+		},
+	);
+}
+
+/**
+ * Ask for an annotation's new text (double-click in edit mode).
+ */
+function editAnnotationText(annotation: Annotation): void {
+	const type = annotation.type;
+	const text = prompt(ANNOTATION_PROMPTS[type], annotation.text)?.trim();
+	if (text === undefined || text === annotation.text) return;
+	if (!text && (type === "note" || type === "text")) return;
+
+	recordEdit();
+	annotation.text = text;
+	rerender();
+}
+
+/**
+ * Pointer down on the canvas in edit mode: draw, add or move an annotation,
+ * select + move a block, or let the click through to the label editor when
+ * a badge was hit.
+ */
+function handleEditPointerDown(e: PointerEvent): void {
+	if (!state.editMode || state.inspectMode || !state.model || e.button !== 0) return;
+	hideLabelEditor();
+
+	if (state.drawMode) {
+		startDraw(e);
+		return;
+	}
+	if (state.annotationTool) {
+		startAnnotation(e, state.annotationTool);
+		return;
+	}
+
+	const point = toCanvasPoint(e);
+	// Annotations are drawn above blocks and badges
+	const annotation = annotationAt(point.x, point.y);
+	if (annotation) {
+		selectAnnotation(annotation);
+		startAnnotationMove(e, annotation);
+		return;
+	}
+	if (state.showLabels && findBadgeAtPosition(point.x, point.y)) return;
+
+	// Hit-test what's drawn, then edit the real node
+	const hit = findNodeAt(visibleModel(), point.x, point.y);
+	const node = hit ? findNodeById(state.model, hit.id) : null;
+	selectNode(node);
+	if (node) startMove(e, node);
+}
+
+/**
+ * Outline a node on the canvas (tree panel hover); null clears it.
+ */
+function highlightNode(node: WireframeNode | null): void {
+	document.getElementById(HOVER_ID)?.remove();
+	const parent = state.canvas?.parentElement;
+	if (!node || !parent || state.hiddenIds.has(node.id)) return;
+
+	const highlight = document.createElement("div");
+	highlight.id = HOVER_ID;
+	highlight.style.cssText = `
+    position: absolute;
+    border: 2px dashed #f97316;
+    background: rgba(249, 115, 22, 0.12);
+    box-sizing: border-box;
+    pointer-events: none;
+    z-index: 1;
+  `;
+	placeOverCanvas(highlight, node.bbox);
+	parent.appendChild(highlight);
+}
+
+/**
+ * Scroll the overlay so a node is in view.
+ */
+function scrollToNode(node: WireframeNode): void {
+	const overlay = document.getElementById(OVERLAY_ID);
+	if (!overlay || !state.canvas) return;
+	const canvasTop = state.canvas.getBoundingClientRect().top;
+	const nodeTop = canvasTop + node.bbox.y * state.canvasScale;
+	if (nodeTop < 80 || nodeTop > window.innerHeight - 80) {
+		overlay.scrollBy({ top: nodeTop - 120, behavior: "smooth" });
+	}
+}
+
+/**
+ * Hide the overlay and outline a node's source element on the live page,
+ * logging both to the console. Any click or Escape brings the overlay back.
+ */
+function inspectNode(node: WireframeNode): void {
+	const overlay = document.getElementById(OVERLAY_ID);
+	if (!overlay) return;
+
+	const name = node.label || `<${node.tagName}>`;
+	if (!node.selector) {
+		console.warn(
+			`[Wireframe Mapper] "${name}" has no source element (drawn by hand or generated without selectors)`,
+		);
+		alert(`"${name}" has no source element to inspect.`);
+		return;
+	}
+	const element = findElementBySelector(node.selector);
+	if (!element) {
+		console.warn(`[Wireframe Mapper] Source element of "${name}" not found: ${node.selector}`);
+		alert(`Source element not found on this page:\n${node.selector}`);
+		return;
+	}
+	if (state.model && state.model.pageUrl !== window.location.href) {
+		console.warn(
+			`[Wireframe Mapper] Model was captured on ${state.model.pageUrl}; the match may be wrong`,
+		);
+	}
+	console.log(`[Wireframe Mapper] Inspecting "${name}" (${node.selector})`, element, node);
+
+	overlay.style.display = "none";
+	element.scrollIntoView({ block: "center" });
+
+	const outline = document.createElement("div");
+	outline.id = INSPECT_OUTLINE_ID;
+	outline.style.cssText = `
+    position: fixed;
+    border: 3px solid #f97316;
+    background: rgba(249, 115, 22, 0.12);
+    box-sizing: border-box;
+    pointer-events: none;
+    z-index: 1000002;
+  `;
+
+	const caption = document.createElement("div");
+	caption.style.cssText = `
+    position: fixed;
+    top: 16px;
+    left: 50%;
+    transform: translateX(-50%);
+    max-width: calc(100vw - 32px);
+    padding: 8px 16px;
+    background: rgba(0, 0, 0, 0.8);
+    color: #fff;
+    border-radius: 6px;
+    font-family: monospace;
+    font-size: 12px;
+    z-index: 1000002;
+    pointer-events: none;
+  `;
+
+	const place = () => {
+		const rect = element.getBoundingClientRect();
+		// Elements inside iframes report rects relative to their frame
+		const offset = getFrameOffset(element);
+		outline.style.left = `${rect.left + offset.x}px`;
+		outline.style.top = `${rect.top + offset.y}px`;
+		outline.style.width = `${rect.width}px`;
+		outline.style.height = `${rect.height}px`;
+		caption.textContent = `${name} · ${node.selector} · ${Math.round(rect.width)}×${Math.round(rect.height)} — click or press Escape to return`;
+	};
+	place();
+
+	const finish = (e: Event) => {
+		if (e instanceof KeyboardEvent && e.key !== "Escape") return;
+		// Keep the click from reaching the page (links, buttons)
+		e.preventDefault();
+		e.stopPropagation();
+		window.removeEventListener("scroll", place, true);
+		window.removeEventListener("resize", place);
+		window.removeEventListener("click", finish, true);
+		window.removeEventListener("keydown", finish, true);
+		outline.remove();
+		caption.remove();
+		overlay.style.display = "";
+	};
+
+	window.addEventListener("scroll", place, true);
+	window.addEventListener("resize", place);
+	window.addEventListener("click", finish, true);
+	window.addEventListener("keydown", finish, true);
+	document.body.appendChild(outline);
+	document.body.appendChild(caption);
+}
+
+/**
+ * Create the tree panel, wired to the overlay state.
+ */
+function createOverlayTreePanel(): TreePanel {
+	return createTreePanel({
+		onHover: highlightNode,
+		onSelect: (node) => {
+			if (state.inspectMode) {
+				inspectNode(node);
+				return;
+			}
+			scrollToNode(node);
+			selectNode(node);
+		},
+		onToggleHidden: (node) => {
+			recordEdit();
+			if (state.hiddenIds.has(node.id)) {
+				state.hiddenIds.delete(node.id);
+			} else {
+				state.hiddenIds.add(node.id);
+				if (state.selectedId === node.id) state.selectedId = null;
+			}
+			highlightNode(null);
+			rerender();
+		},
+		onMove: (id, targetId, position) => {
+			if (!state.model) return;
+			recordEdit();
+			if (!moveNodeInTree(state.model, id, targetId, position)) {
+				state.history.discardLast();
+			}
+			rerender();
+		},
+	});
+}
+
+/**
+ * Keyboard shortcuts while the overlay is open.
+ */
+function handleKeydown(e: KeyboardEvent): void {
+	// Leave typing in the label editor and the type picker alone
+	if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+
+	const mod = e.ctrlKey || e.metaKey;
+	if (mod && e.key.toLowerCase() === "z") {
+		e.preventDefault();
+		if (e.shiftKey) redo();
+		else undo();
+		return;
+	}
+	if (mod && e.key.toLowerCase() === "y") {
+		e.preventDefault();
+		redo();
+		return;
+	}
+
+	if (e.key === "Escape") {
+		if (state.selectedId || state.selectedAnnotationId || state.drawMode || state.annotationTool) {
+			state.drawMode = false;
+			state.annotationTool = null;
+			selectNode(null);
+		} else {
+			removeOverlay();
+		}
+		return;
+	}
+
+	const isDelete = e.key === "Delete" || e.key === "Backspace";
+	if (state.editMode && state.selectedAnnotationId && isDelete) {
+		e.preventDefault();
+		deleteSelected();
+		return;
+	}
+
+	const node = selectedNode();
+	if (!state.editMode || !node) return;
+
+	if (isDelete) {
+		e.preventDefault();
+		deleteSelected();
+		return;
+	}
+
+	const step = e.shiftKey ? 10 : 1;
+	const arrows: Record<string, [number, number]> = {
+		ArrowLeft: [-step, 0],
+		ArrowRight: [step, 0],
+		ArrowUp: [0, -step],
+		ArrowDown: [0, step],
+	};
+	const delta = arrows[e.key];
+	if (delta) {
+		e.preventDefault();
+		recordEdit();
+		nudgeSelected(node, delta[0], delta[1]);
+		rerender();
+	}
 }
 
 /**
@@ -253,6 +1674,7 @@ function showLabelEditor(badge: BadgeInfo): void {
 	const saveEdit = () => {
 		const newLabel = input.value.trim();
 		if (newLabel !== badge.label) {
+			recordEdit();
 			state.labelOverrides.set(badge.nodeId, newLabel);
 			rerender();
 		}
@@ -283,14 +1705,30 @@ function hideLabelEditor(): void {
 
 /**
  * Create and show the wireframe overlay.
+ * Pass a saved model to open it instead of analyzing the page.
  */
-function createOverlay(): void {
+function createOverlay(savedModel?: WireframeModel): void {
 	// Remove existing overlay if any
 	removeOverlay();
 
-	// Analyze the DOM
-	console.log("[Wireframe Mapper] Analyzing DOM...");
-	const model = analyzeDom(document);
+	let model: WireframeModel;
+	if (savedModel) {
+		// Hidden ids live in state while the overlay is open
+		const { hiddenIds = [], ...rest } = savedModel;
+		model = rest;
+		state.hiddenIds = new Set(hiddenIds);
+		console.log(`[Wireframe Mapper] Opened saved model of ${model.pageUrl}`);
+	} else {
+		// Analyze the DOM
+		console.log("[Wireframe Mapper] Analyzing DOM...");
+		try {
+			model = analyzeDom(document, { rules: analyzerRules() });
+		} catch (error) {
+			console.error("[Wireframe Mapper] Invalid analyzer rules:", error);
+			alert(`Analyzer rules ignored: ${(error as Error).message}`);
+			model = analyzeDom(document);
+		}
+	}
 	state.model = model;
 	console.log(`[Wireframe Mapper] Found ${countNodes(model.nodes)} significant blocks`);
 
@@ -310,10 +1748,7 @@ function createOverlay(): void {
 	state.canvas = canvas;
 
 	// Render wireframe and store badge positions
-	state.badges = renderWireframe(model, canvas, {
-		showLabels: state.showLabels,
-		labelOverrides: state.labelOverrides,
-	});
+	state.badges = renderWireframe(visibleModel(), canvas, renderConfig());
 
 	// Create canvas container (for scrolling and positioning editor)
 	const canvasContainer = document.createElement("div");
@@ -355,14 +1790,33 @@ function createOverlay(): void {
 	canvasSizer.appendChild(canvas);
 	canvasContainer.appendChild(canvasSizer);
 
+	// Add pointer handler for edit mode (select, move, draw)
+	canvas.addEventListener("pointerdown", handleEditPointerDown);
+
+	// Double-click an annotation in edit mode to edit its text
+	canvas.addEventListener("dblclick", (e) => {
+		if (!state.editMode) return;
+		const { x, y } = toCanvasPoint(e);
+		const annotation = annotationAt(x, y);
+		if (annotation) editAnnotationText(annotation);
+	});
+
 	// Add click handler for label editing
 	canvas.addEventListener("click", (e) => {
-		if (!state.showLabels) return;
+		if (suppressNextClick) {
+			suppressNextClick = false;
+			return;
+		}
 
-		const rect = canvas.getBoundingClientRect();
-		// Account for CSS transform scale
-		const canvasX = (e.clientX - rect.left) / state.canvasScale;
-		const canvasY = (e.clientY - rect.top) / state.canvasScale;
+		const { x: canvasX, y: canvasY } = toCanvasPoint(e);
+
+		if (state.inspectMode && state.model) {
+			const hit = findNodeAt(visibleModel(), canvasX, canvasY);
+			const node = hit ? findNodeById(state.model, hit.id) : null;
+			if (node) inspectNode(node);
+			return;
+		}
+		if (!state.showLabels) return;
 
 		const badge = findBadgeAtPosition(canvasX, canvasY);
 		if (badge) {
@@ -375,25 +1829,30 @@ function createOverlay(): void {
 	// Create control bar
 	const controlBar = createControlBar(removeOverlay);
 
+	// Create edit toolbar (hidden until edit mode is on)
+	const editBar = createEditBar();
+
+	// Create tree panel (hidden until toggled)
+	const treePanel = createOverlayTreePanel();
+	state.treePanel = treePanel;
+	updateTreePanel();
+
 	// Create info bar
 	const infoBar = createInfoBar(model);
 
 	// Assemble overlay
 	overlay.appendChild(canvasContainer);
 	overlay.appendChild(controlBar);
+	overlay.appendChild(editBar);
+	overlay.appendChild(treePanel.element);
 	overlay.appendChild(infoBar);
 
 	// Add to document
 	document.body.appendChild(overlay);
 
-	// Handle escape key to close
-	const handleEscape = (e: KeyboardEvent) => {
-		if (e.key === "Escape") {
-			removeOverlay();
-			document.removeEventListener("keydown", handleEscape);
-		}
-	};
-	document.addEventListener("keydown", handleEscape);
+	// Handle keyboard shortcuts (Escape to close, editing keys)
+	state.keydownHandler = handleKeydown;
+	document.addEventListener("keydown", handleKeydown);
 
 	console.log("[Wireframe Mapper] Overlay created. Press Escape or click Close to exit.");
 }
@@ -411,6 +1870,20 @@ function removeOverlay(): void {
 		state.badges = [];
 		state.labelOverrides.clear();
 		state.canvasScale = 1;
+		state.editMode = false;
+		state.drawMode = false;
+		state.selectedId = null;
+		state.annotationTool = null;
+		state.selectedAnnotationId = null;
+		state.hiddenIds = new Set();
+		state.showTree = false;
+		state.treePanel = null;
+		state.inspectMode = false;
+		state.history.clear();
+		if (state.keydownHandler) {
+			document.removeEventListener("keydown", state.keydownHandler);
+			state.keydownHandler = null;
+		}
 		console.log("[Wireframe Mapper] Overlay closed.");
 	}
 }
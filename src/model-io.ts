@@ -0,0 +1,88 @@
+/**
+ * Model Save/Load
+ *
+ * Round-trips the overlay's WireframeModel as plain JSON so a wireframe can
+ * be iterated across sessions and shared:
+ * - Save: label overrides are baked into node labels (hidden labels stay "");
+ *   blocks hidden in the tree panel are kept and listed in `hiddenIds`
+ * - Load: the file is checked and normalized with the shared schema
+ *   validator before it reaches the renderer
+ *
+ * Saved files are plain WireframeModel JSON, so the MCP server's
+ * `wireframe_diff` tool can read them too.
+ *
+ * @module model-io
+ */
+
+import {
+	applyLabelOverrides,
+	formatSchemaIssues,
+	validateWireframeModel,
+} from "@wireframe-mapper/shared";
+import { downloadTextFile } from "./exporters.js";
+import type { WireframeModel } from "./types.js";
+
+/**
+ * Download the model (with label overrides applied) as JSON.
+ */
+export function downloadModelJson(
+	model: WireframeModel,
+	labelOverrides: Map<string, string>,
+	filename?: string,
+): void {
+	const saved = applyLabelOverrides(model, labelOverrides);
+	downloadTextFile(
+		JSON.stringify(saved, null, 2),
+		"application/json",
+		filename ?? `wireframe-${Date.now()}.json`,
+	);
+}
+
+/**
+ * Parse and validate saved model JSON.
+ * Throws with the schema errors when the file can't be used.
+ */
+export function parseModelJson(text: string): WireframeModel {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(text);
+	} catch {
+		throw new Error("File is not valid JSON");
+	}
+
+	const result = validateWireframeModel(raw);
+	if (!result.model) {
+		throw new Error(`Not a wireframe model:\n${formatSchemaIssues(result.errors)}`);
+	}
+	if (result.errors.length > 0) {
+		console.warn(
+			`[Wireframe Mapper] Loaded model with ${result.errors.length} problems:\n${formatSchemaIssues(result.errors)}`,
+		);
+	}
+	return result.model;
+}
+
+/**
+ * Let the user pick a saved model file.
+ * Resolves to null if the picker is dismissed.
+ */
+export function pickModelFile(): Promise<WireframeModel | null> {
+	return new Promise((resolve, reject) => {
+		const input = document.createElement("input");
+		input.type = "file";
+		input.accept = ".json,application/json";
+		input.addEventListener("change", () => {
+			const file = input.files?.[0];
+			if (!file) {
+				resolve(null);
+				return;
+			}
+			file
+				.text()
+				.then((text) => resolve(parseModelJson(text)))
+				.catch(reject);
+		});
+		input.addEventListener("cancel", () => resolve(null));
+		input.click();
+	});
+}
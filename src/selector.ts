@@ -0,0 +1,131 @@
+/**
+ * Element Selectors
+ *
+ * Builds a CSS selector that finds an element again on the live page, so
+ * WireframeNodes can point back at their source element (see inspect mode
+ * in main.ts). Selectors are anchored at the nearest unique, hand-written
+ * id and otherwise walk down from `body` with `:nth-of-type`.
+ *
+ * Elements inside open shadow roots and same-origin iframes get one
+ * selector per scope, outermost first, joined by SCOPE_SEPARATOR: the
+ * selector before each separator finds the shadow host or iframe, the one
+ * after it searches inside. For example
+ * `#widget >>> div:nth-of-type(2) > button`.
+ *
+ * @module selector
+ */
+
+/** Joins the selector of a shadow host or iframe to the selector inside it */
+export const SCOPE_SEPARATOR = " >>> ";
+
+/** Where a selector part is matched: a document or a shadow root */
+type SelectorScope = Document | ShadowRoot;
+
+/**
+ * Ids that look generated by frameworks (React `:r1:`, Ember `ember123`,
+ * long numeric runs) change between page loads and make poor anchors.
+ */
+function isStableId(id: string): boolean {
+	return !/^\d|\d{3,}|^:|^(ember|react|radix|headlessui|mui)[-:\d]/i.test(id);
+}
+
+function getScope(el: Element): SelectorScope {
+	return el.getRootNode() as SelectorScope;
+}
+
+function isShadowRoot(scope: SelectorScope): scope is ShadowRoot {
+	return scope.nodeType === Node.DOCUMENT_FRAGMENT_NODE;
+}
+
+/**
+ * Shadow host or iframe element holding `el`, or null at the top level.
+ * Frames are only crossed up to `doc`.
+ */
+function getScopeHost(el: Element, doc: Document): Element | null {
+	const scope = getScope(el);
+	if (isShadowRoot(scope)) return scope.host;
+	if (el.ownerDocument !== doc) return el.ownerDocument.defaultView?.frameElement ?? null;
+	return null;
+}
+
+/**
+ * Selector for `el` within its own document or shadow root.
+ */
+function getScopedSelector(el: Element): string {
+	const scope = getScope(el);
+	const parts: string[] = [];
+	let current: Element | null = el;
+
+	while (current && current !== el.ownerDocument.documentElement) {
+		const tag = current.tagName.toLowerCase();
+
+		if (current.id && isStableId(current.id)) {
+			const idSelector = `#${CSS.escape(current.id)}`;
+			if (scope.querySelectorAll(idSelector).length === 1) {
+				parts.unshift(idSelector);
+				break;
+			}
+		}
+
+		if (tag === "body" && !isShadowRoot(scope)) {
+			parts.unshift(tag);
+			break;
+		}
+
+		// Top-level elements of a shadow root have the root as parent node
+		const siblings = current.parentNode ? (current.parentNode as ParentNode).children : null;
+		const sameTag = siblings
+			? Array.from(siblings).filter((child) => child.tagName === current?.tagName)
+			: [];
+		parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(current) + 1})` : tag);
+		current = current.parentElement;
+	}
+
+	return parts.join(" > ");
+}
+
+/**
+ * Build a selector that uniquely identifies `el` from `doc`, through any
+ * shadow roots and same-origin iframes in between.
+ */
+export function getElementSelector(el: Element, doc: Document = document): string {
+	const parts = [getScopedSelector(el)];
+	let host = getScopeHost(el, doc);
+	while (host) {
+		parts.unshift(getScopedSelector(host));
+		host = getScopeHost(host, doc);
+	}
+	return parts.join(SCOPE_SEPARATOR);
+}
+
+/**
+ * Match one selector part in a scope. Shadow root parts aren't anchored at
+ * the root, so the match whose own selector is that part wins.
+ */
+function queryScope(scope: SelectorScope, selector: string): Element | null {
+	const matches = Array.from(scope.querySelectorAll(selector));
+	return matches.find((match) => getScopedSelector(match) === selector) ?? matches[0] ?? null;
+}
+
+/**
+ * Find the element a selector points to, or null when it's missing, the
+ * selector is invalid, or a shadow root or frame on the way can't be read.
+ */
+export function findElementBySelector(selector: string, doc: Document = document): Element | null {
+	const parts = selector.split(SCOPE_SEPARATOR);
+	let scope: SelectorScope = doc;
+	try {
+		for (let i = 0; ; i++) {
+			const element = queryScope(scope, parts[i]);
+			if (!element || i === parts.length - 1) return element;
+
+			const inner: SelectorScope | null =
+				element.shadowRoot ??
+				(element.tagName === "IFRAME" ? (element as HTMLIFrameElement).contentDocument : null);
+			if (!inner) return null;
+			scope = inner;
+		}
+	} catch {
+		return null;
+	}
+}
@@ -0,0 +1,229 @@
+/**
+ * Tree Panel
+ *
+ * Side panel listing the WireframeNode tree by nesting (label, semantic
+ * type, size). Rows can be collapsed, hovered (highlights the node on the
+ * canvas), clicked (selects it), hidden/shown with a checkbox, and dragged
+ * onto another row to reorder (top/bottom edge) or reparent (middle).
+ *
+ * The panel only reports user actions through handlers; main.ts applies
+ * them to the model and calls `update` after every render.
+ *
+ * @module tree-panel
+ */
+
+import { SEMANTIC_COLORS, type TreeDropPosition } from "@wireframe-mapper/shared";
+import type { WireframeModel, WireframeNode } from "./types.js";
+
+const PANEL_ID = "wireframe-tree-panel";
+
+/** Indentation per nesting level */
+const INDENT = 14;
+
+export interface TreePanelHandlers {
+	/** Pointer entered a row (null when it left the panel) */
+	onHover: (node: WireframeNode | null) => void;
+	onSelect: (node: WireframeNode) => void;
+	onToggleHidden: (node: WireframeNode) => void;
+	onMove: (id: string, targetId: string, position: TreeDropPosition) => void;
+}
+
+/**
+ * What the panel shows.
+ */
+export interface TreePanelView {
+	model: WireframeModel;
+	labelOverrides: Map<string, string>;
+	hiddenIds: Set<string>;
+	selectedId: string | null;
+}
+
+export interface TreePanel {
+	element: HTMLDivElement;
+	/** Rebuild the rows (keeps collapsed rows and scroll position) */
+	update: (view: TreePanelView) => void;
+}
+
+function countNodes(nodes: WireframeNode[]): number {
+	return nodes.reduce((count, node) => count + 1 + countNodes(node.children), 0);
+}
+
+/**
+ * Drop position from the pointer's height within a row.
+ */
+function dropPosition(e: DragEvent, row: HTMLElement): TreeDropPosition {
+	const rect = row.getBoundingClientRect();
+	const ratio = (e.clientY - rect.top) / rect.height;
+	if (ratio < 0.25) return "before";
+	if (ratio > 0.75) return "after";
+	return "inside";
+}
+
+function showDropIndicator(row: HTMLElement, position: TreeDropPosition | null): void {
+	row.style.boxShadow =
+		position === "before"
+			? "inset 0 2px 0 #2563eb"
+			: position === "after"
+				? "inset 0 -2px 0 #2563eb"
+				: "";
+	row.style.outline = position === "inside" ? "2px solid #2563eb" : "";
+}
+
+/**
+ * Create the (initially hidden) tree panel.
+ */
+export function createTreePanel(handlers: TreePanelHandlers): TreePanel {
+	const element = document.createElement("div");
+	element.id = PANEL_ID;
+	element.style.cssText = `
+    position: fixed;
+    top: 64px;
+    bottom: 56px;
+    left: 16px;
+    width: 320px;
+    display: none;
+    flex-direction: column;
+    background: #fff;
+    border-radius: 8px;
+    box-shadow: 0 4px 20px rgba(0, 0, 0, 0.2);
+    z-index: 1000001;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+    font-size: 12px;
+    color: #333;
+  `;
+
+	const heading = document.createElement("div");
+	heading.style.cssText = "padding: 10px 12px; font-weight: 600; border-bottom: 1px solid #eee;";
+
+	const list = document.createElement("div");
+	list.style.cssText = "flex: 1; overflow: auto; padding: 4px 0;";
+	list.addEventListener("mouseleave", () => handlers.onHover(null));
+
+	element.appendChild(heading);
+	element.appendChild(list);
+
+	const collapsed = new Set<string>();
+	let draggingId: string | null = null;
+	let lastView: TreePanelView | null = null;
+
+	const createRow = (
+		node: WireframeNode,
+		view: TreePanelView,
+		hiddenByAncestor: boolean,
+	): HTMLDivElement => {
+		const hidden = hiddenByAncestor || view.hiddenIds.has(node.id);
+		const row = document.createElement("div");
+		row.draggable = true;
+		row.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 3px 8px 3px ${8 + node.depth * INDENT}px;
+      cursor: pointer;
+      white-space: nowrap;
+      opacity: ${hidden ? 0.45 : 1};
+      background: ${node.id === view.selectedId ? "#dbeafe" : "transparent"};
+    `;
+
+		// Expand/collapse caret
+		const caret = document.createElement("span");
+		caret.style.cssText = "width: 12px; flex: none; text-align: center; color: #666;";
+		if (node.children.length > 0) {
+			caret.textContent = collapsed.has(node.id) ? "▸" : "▾";
+			caret.addEventListener("click", (e) => {
+				e.stopPropagation();
+				if (collapsed.has(node.id)) collapsed.delete(node.id);
+				else collapsed.add(node.id);
+				if (lastView) update(lastView);
+			});
+		}
+
+		// Visibility toggle
+		const visibility = document.createElement("input");
+		visibility.type = "checkbox";
+		visibility.checked = !view.hiddenIds.has(node.id);
+		visibility.title = "Show/hide this block";
+		visibility.style.cssText = "margin: 0; flex: none;";
+		visibility.addEventListener("click", (e) => e.stopPropagation());
+		visibility.addEventListener("change", () => handlers.onToggleHidden(node));
+
+		const swatch = document.createElement("span");
+		swatch.style.cssText = `
+      width: 10px;
+      height: 10px;
+      flex: none;
+      border: 1px solid #999;
+      background: ${SEMANTIC_COLORS[node.semanticType]};
+    `;
+
+		const label = document.createElement("span");
+		const text = view.labelOverrides.get(node.id) ?? node.label;
+		label.textContent = text || `<${node.tagName}>`;
+		label.style.cssText = `overflow: hidden; text-overflow: ellipsis; ${text ? "" : "color: #888; font-style: italic;"}`;
+
+		const type = document.createElement("span");
+		type.textContent = node.semanticType;
+		type.style.cssText = "color: #888; flex: none;";
+
+		const size = document.createElement("span");
+		size.textContent = `${Math.round(node.bbox.width)}×${Math.round(node.bbox.height)}`;
+		size.style.cssText =
+			"margin-left: auto; padding-left: 8px; color: #888; flex: none; font-family: monospace;";
+
+		row.appendChild(caret);
+		row.appendChild(visibility);
+		row.appendChild(swatch);
+		row.appendChild(label);
+		row.appendChild(type);
+		row.appendChild(size);
+
+		row.addEventListener("mouseenter", () => handlers.onHover(node));
+		row.addEventListener("click", () => handlers.onSelect(node));
+
+		// Drag to reorder / reparent
+		row.addEventListener("dragstart", (e) => {
+			draggingId = node.id;
+			e.dataTransfer?.setData("text/plain", node.id);
+		});
+		row.addEventListener("dragend", () => {
+			draggingId = null;
+		});
+		row.addEventListener("dragover", (e) => {
+			if (!draggingId || draggingId === node.id) return;
+			e.preventDefault();
+			showDropIndicator(row, dropPosition(e, row));
+		});
+		row.addEventListener("dragleave", () => showDropIndicator(row, null));
+		row.addEventListener("drop", (e) => {
+			e.preventDefault();
+			showDropIndicator(row, null);
+			if (draggingId && draggingId !== node.id) {
+				handlers.onMove(draggingId, node.id, dropPosition(e, row));
+			}
+			draggingId = null;
+		});
+
+		return row;
+	};
+
+	const update = (view: TreePanelView): void => {
+		lastView = view;
+		const scrollTop = list.scrollTop;
+		list.replaceChildren();
+
+		const addRows = (nodes: WireframeNode[], hiddenByAncestor: boolean) => {
+			for (const node of nodes) {
+				list.appendChild(createRow(node, view, hiddenByAncestor));
+				if (!collapsed.has(node.id)) {
+					addRows(node.children, hiddenByAncestor || view.hiddenIds.has(node.id));
+				}
+			}
+		};
+		addRows(view.model.nodes, false);
+
+		heading.textContent = `Layers (${countNodes(view.model.nodes)})`;
+		list.scrollTop = scrollTop;
+	};
+
+	return { element, update };
+}